@@ -2,6 +2,7 @@ module.exports = {
 	testEnvironment: "node",
 	roots: ["<rootDir>/test"],
 	testMatch: ["**/*.test.ts"],
+	moduleFileExtensions: ["ts", "js", "json", "node"],
 	transform: {
 		"^.+\\.tsx?$": "ts-jest",
 	},
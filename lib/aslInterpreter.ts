@@ -0,0 +1,718 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+
+import jsonata from "jsonata";
+import { randomUUID } from "crypto";
+import { parseJsonPath } from "./jsonata";
+
+/**
+ * Error raised by a state, matched by the ErrorEquals of Retry and Catch
+ */
+export class StatesError extends Error {
+	constructor(
+		public readonly error: string,
+		public readonly cause?: string,
+	) {
+		super(cause ? `${error}: ${cause}` : error);
+	}
+}
+
+/**
+ * Calls a service integration, e.g. "dynamodb:getItem" for both the optimised and the SDK integration.
+ * Throws a StatesError for errors the state machine can retry and catch.
+ */
+export type TaskHandler = (action: string, parameters: any) => Promise<any>;
+
+export interface InterpreterOptions {
+	/**
+	 * Context object of the execution, the state fields are added per state
+	 */
+	context: { [key: string]: any };
+	invoke: TaskHandler;
+}
+
+/**
+ * Transitions after which an execution is considered stuck in a loop
+ */
+const MAX_TRANSITIONS = 1000;
+
+const JSONATA_EXPRESSION = /^\{%([\s\S]*)%\}$/;
+
+/**
+ * Functions Step Functions adds to JSONata
+ */
+const STEP_FUNCTIONS_FUNCTIONS = {
+	parse: (value: string) => JSON.parse(value),
+	uuid: () => randomUUID(),
+};
+
+/**
+ * Runs an Amazon States Language definition in memory and returns its output.
+ * Wait states do not wait, Retry does not back off, and a Fail state throws its StatesError.
+ */
+export async function runStateMachine(
+	definition: any,
+	input: any,
+	options: InterpreterOptions,
+): Promise<any> {
+	return new Execution(options).run(
+		definition,
+		input,
+		definition.QueryLanguage ?? "JSONPath",
+	);
+}
+
+/**
+ * Evaluates the parameters of a task state, e.g. the item a pause task stores
+ */
+export async function taskParameters(
+	state: any,
+	input: any,
+	options: InterpreterOptions,
+): Promise<any> {
+	const execution = new Execution(options);
+	const context = execution.stateContext("task", options.context.Task);
+	return isJsonata(state, "JSONPath")
+		? execution.evaluateTemplate(state.Arguments, { input, context })
+		: execution.payload(
+				state.Parameters,
+				selectPath(state.InputPath, input, context),
+				context,
+			);
+}
+
+/**
+ * Applies the result of a task state to its input, e.g. the output a pause task receives on resume
+ */
+export async function taskOutput(
+	state: any,
+	input: any,
+	result: any,
+	options: InterpreterOptions,
+): Promise<any> {
+	const execution = new Execution(options);
+	const context = execution.stateContext("task", options.context.Task);
+	return isJsonata(state, "JSONPath")
+		? execution.jsonataOutput(state, { input, context, result }, result)
+		: execution.jsonPathOutput(state, input, result, context);
+}
+
+function isJsonata(state: any, queryLanguage: string): boolean {
+	return (state.QueryLanguage ?? queryLanguage) === "JSONata";
+}
+
+/**
+ * Reads a reference path, "$" is the input and "$$" the context object
+ */
+function readPath(path: string, input: any, context: any): any {
+	const [root, reference] = path.startsWith("$$")
+		? [context, path.slice(1)]
+		: [input, path];
+	return parseJsonPath(reference).reduce(
+		(value, segment) => (value === undefined ? undefined : value?.[segment]),
+		root,
+	);
+}
+
+function selectPath(path: string | null | undefined, input: any, context: any) {
+	if (path === undefined) {
+		return input;
+	}
+	if (path === null) {
+		return {};
+	}
+	const value = readPath(path, input, context);
+	if (value === undefined) {
+		throw new StatesError(
+			"States.Runtime",
+			`The JSONPath ${path} could not be found in the input`,
+		);
+	}
+	return value;
+}
+
+/**
+ * Places the result in the input at a reference path, "$" replaces the input and null discards the result
+ */
+function placeResult(path: string | null | undefined, input: any, result: any) {
+	if (path === undefined || path === "$") {
+		return result;
+	}
+	if (path === null) {
+		return input;
+	}
+	const segments = parseJsonPath(path);
+	const output = structuredClone(input ?? {});
+	let parent = output;
+	segments.slice(0, -1).forEach((segment) => {
+		if (parent[segment] === null || typeof parent[segment] !== "object") {
+			parent[segment] = {};
+		}
+		parent = parent[segment];
+	});
+	parent[segments[segments.length - 1]] = result;
+	return output;
+}
+
+function matchesError(errors: string[], error: string): boolean {
+	return errors.some(
+		(name) =>
+			name === error ||
+			name === "States.ALL" ||
+			(name === "States.TaskFailed" && !error.startsWith("States.")),
+	);
+}
+
+/**
+ * Splits the arguments of an intrinsic function call at the top-level commas
+ */
+function splitArguments(text: string): string[] {
+	const args: string[] = [];
+	let depth = 0;
+	let quoted = false;
+	let start = 0;
+	for (let index = 0; index < text.length; index++) {
+		const char = text[index];
+		if (quoted) {
+			if (char === "\\") {
+				index++;
+			} else if (char === "'") {
+				quoted = false;
+			}
+		} else if (char === "'") {
+			quoted = true;
+		} else if (char === "(" || char === "[") {
+			depth++;
+		} else if (char === ")" || char === "]") {
+			depth--;
+		} else if (char === "," && depth === 0) {
+			args.push(text.slice(start, index).trim());
+			start = index + 1;
+		}
+	}
+	const last = text.slice(start).trim();
+	return last ? [...args, last] : args;
+}
+
+/**
+ * Evaluates a call of the intrinsic functions the construct generates, e.g. States.Format
+ */
+function intrinsic(expression: string, input: any, context: any): any {
+	const call = /^(States\.[A-Za-z]+)\(([\s\S]*)\)$/.exec(expression.trim());
+	if (!call) {
+		throw new StatesError(
+			"States.Runtime",
+			`Unsupported intrinsic function ${expression}`,
+		);
+	}
+	const args = splitArguments(call[2]).map((arg): any => {
+		if (arg.startsWith("States.")) {
+			return intrinsic(arg, input, context);
+		}
+		if (arg.startsWith("$")) {
+			return readPath(arg, input, context);
+		}
+		if (arg.startsWith("'")) {
+			return arg.slice(1, -1).replace(/\\(.)/g, "$1");
+		}
+		return JSON.parse(arg);
+	});
+	switch (call[1]) {
+		case "States.Format": {
+			let index = 1;
+			return (args[0] as string).replace(/\{\}/g, () => {
+				const value = args[index++];
+				return typeof value === "string" ? value : JSON.stringify(value);
+			});
+		}
+		case "States.JsonToString":
+			return JSON.stringify(args[0]);
+		case "States.StringToJson":
+			return JSON.parse(args[0]);
+		case "States.Array":
+			return args;
+		case "States.ArrayGetItem":
+			return args[0][args[1]];
+		case "States.ArrayLength":
+			return args[0].length;
+		case "States.MathAdd":
+			return args[0] + args[1];
+		case "States.JsonMerge":
+			return { ...args[0], ...args[1] };
+		case "States.UUID":
+			return randomUUID();
+		default:
+			throw new StatesError(
+				"States.Runtime",
+				`Unsupported intrinsic function ${call[1]}`,
+			);
+	}
+}
+
+const COMPARISONS: {
+	[operator: string]: (value: any, expected: any) => boolean;
+} = {
+	StringEquals: (value, expected) => value === expected,
+	StringLessThan: (value, expected) => value < expected,
+	StringGreaterThan: (value, expected) => value > expected,
+	StringLessThanEquals: (value, expected) => value <= expected,
+	StringGreaterThanEquals: (value, expected) => value >= expected,
+	StringMatches: (value, expected) =>
+		new RegExp(
+			`^${expected
+				.split("*")
+				.map((part: string) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+				.join(".*")}$`,
+		).test(value),
+	NumericEquals: (value, expected) => value === expected,
+	NumericLessThan: (value, expected) => value < expected,
+	NumericGreaterThan: (value, expected) => value > expected,
+	NumericLessThanEquals: (value, expected) => value <= expected,
+	NumericGreaterThanEquals: (value, expected) => value >= expected,
+	BooleanEquals: (value, expected) => value === expected,
+	TimestampEquals: (value, expected) =>
+		Date.parse(value) === Date.parse(expected),
+	TimestampLessThan: (value, expected) =>
+		Date.parse(value) < Date.parse(expected),
+	TimestampGreaterThan: (value, expected) =>
+		Date.parse(value) > Date.parse(expected),
+	TimestampLessThanEquals: (value, expected) =>
+		Date.parse(value) <= Date.parse(expected),
+	TimestampGreaterThanEquals: (value, expected) =>
+		Date.parse(value) >= Date.parse(expected),
+};
+
+const TYPE_TESTS: { [operator: string]: (value: any) => boolean } = {
+	IsNull: (value) => value === null,
+	IsString: (value) => typeof value === "string",
+	IsNumeric: (value) => typeof value === "number",
+	IsBoolean: (value) => typeof value === "boolean",
+	IsTimestamp: (value) =>
+		typeof value === "string" && !Number.isNaN(Date.parse(value)),
+};
+
+/**
+ * Evaluates a JSONPath choice rule
+ */
+function matchesRule(rule: any, input: any, context: any): boolean {
+	if (rule.And) {
+		return rule.And.every((inner: any) => matchesRule(inner, input, context));
+	}
+	if (rule.Or) {
+		return rule.Or.some((inner: any) => matchesRule(inner, input, context));
+	}
+	if (rule.Not) {
+		return !matchesRule(rule.Not, input, context);
+	}
+	const value = readPath(rule.Variable, input, context);
+	if (rule.IsPresent !== undefined) {
+		return (value !== undefined) === rule.IsPresent;
+	}
+	for (const [operator, test] of Object.entries(TYPE_TESTS)) {
+		if (rule[operator] !== undefined) {
+			return value !== undefined && test(value) === rule[operator];
+		}
+	}
+	for (const [operator, compare] of Object.entries(COMPARISONS)) {
+		if (rule[operator] !== undefined) {
+			return value !== undefined && compare(value, rule[operator]);
+		}
+		if (rule[`${operator}Path`] !== undefined) {
+			return (
+				value !== undefined &&
+				compare(value, readPath(rule[`${operator}Path`], input, context))
+			);
+		}
+	}
+	throw new StatesError(
+		"States.Runtime",
+		`Unsupported choice rule ${JSON.stringify(rule)}`,
+	);
+}
+
+/**
+ * A single execution with its context object and variables
+ */
+class Execution {
+	private readonly variables: { [name: string]: any } = {};
+	private transitions = 0;
+
+	constructor(private readonly options: InterpreterOptions) {}
+
+	public stateContext(name: string, extra?: any): any {
+		return {
+			...this.options.context,
+			State: {
+				Name: name,
+				EnteredTime: new Date().toISOString(),
+				RetryCount: 0,
+			},
+			...(extra && { Task: extra }),
+		};
+	}
+
+	public async run(
+		definition: any,
+		input: any,
+		queryLanguage: string,
+		mapItem?: any,
+	): Promise<any> {
+		let name: string = definition.StartAt;
+		let value = input;
+		for (;;) {
+			if (++this.transitions > MAX_TRANSITIONS) {
+				throw new StatesError(
+					"States.Runtime",
+					`The execution exceeded ${MAX_TRANSITIONS} state transitions`,
+				);
+			}
+			const state = definition.States[name];
+			const context = {
+				...this.stateContext(name),
+				...(mapItem && { Map: { Item: mapItem } }),
+			};
+			const { output, next } = await this.runState(
+				state,
+				value,
+				context,
+				queryLanguage,
+			);
+			if (!next) {
+				return output;
+			}
+			name = next;
+			value = output;
+		}
+	}
+
+	private async runState(
+		state: any,
+		input: any,
+		context: any,
+		queryLanguage: string,
+	): Promise<{ output: any; next?: string }> {
+		const jsonata = isJsonata(state, queryLanguage);
+		const next = (output: any) => ({
+			output,
+			next: state.End ? undefined : state.Next,
+		});
+		switch (state.Type) {
+			case "Pass":
+				return next(
+					jsonata
+						? await this.jsonataOutput(state, { input, context }, input)
+						: this.jsonPathOutput(
+								state,
+								input,
+								state.Parameters !== undefined
+									? this.payload(
+											state.Parameters,
+											selectPath(state.InputPath, input, context),
+											context,
+										)
+									: (state.Result ??
+											selectPath(state.InputPath, input, context)),
+								context,
+							),
+				);
+			case "Wait":
+				return next(
+					jsonata
+						? await this.jsonataOutput(state, { input, context }, input)
+						: selectPath(state.OutputPath, input, context),
+				);
+			case "Succeed":
+				return {
+					output: jsonata
+						? await this.jsonataOutput(state, { input, context }, input)
+						: selectPath(state.OutputPath, input, context),
+				};
+			case "Fail": {
+				const bindings = { input, context };
+				throw new StatesError(
+					jsonata
+						? await this.evaluateTemplate(state.Error, bindings)
+						: state.ErrorPath
+							? readPath(state.ErrorPath, input, context)
+							: state.Error,
+					jsonata
+						? await this.evaluateTemplate(state.Cause, bindings)
+						: state.CausePath
+							? readPath(state.CausePath, input, context)
+							: state.Cause,
+				);
+			}
+			case "Choice":
+				return this.runChoice(state, input, context, jsonata);
+			case "Task":
+			case "Map":
+				return this.runWithRetry(state, input, context, jsonata);
+			default:
+				throw new StatesError(
+					"States.Runtime",
+					`Unsupported state type ${state.Type}`,
+				);
+		}
+	}
+
+	private async runChoice(
+		state: any,
+		input: any,
+		context: any,
+		jsonata: boolean,
+	): Promise<{ output: any; next?: string }> {
+		for (const rule of state.Choices) {
+			const matched = jsonata
+				? await this.evaluateTemplate(rule.Condition, { input, context })
+				: matchesRule(rule, input, context);
+			if (matched) {
+				return {
+					output: jsonata
+						? await this.jsonataOutput(rule, { input, context }, input)
+						: selectPath(state.OutputPath, input, context),
+					next: rule.Next,
+				};
+			}
+		}
+		if (!state.Default) {
+			throw new StatesError(
+				"States.NoChoiceMatched",
+				"No choice rule matched and there is no Default",
+			);
+		}
+		return {
+			output: jsonata
+				? await this.jsonataOutput(state, { input, context }, input)
+				: selectPath(state.OutputPath, input, context),
+			next: state.Default,
+		};
+	}
+
+	/**
+	 * Runs a Task or Map state, retried and caught like Step Functions does, without the back-off
+	 */
+	private async runWithRetry(
+		state: any,
+		input: any,
+		context: any,
+		jsonata: boolean,
+	): Promise<{ output: any; next?: string }> {
+		const attempts = new Map<any, number>();
+		for (;;) {
+			try {
+				const output =
+					state.Type === "Map"
+						? await this.runMap(state, input, context, jsonata)
+						: await this.runTask(state, input, context, jsonata);
+				return { output, next: state.End ? undefined : state.Next };
+			} catch (error) {
+				if (!(error instanceof StatesError)) {
+					throw error;
+				}
+				const retrier = (state.Retry ?? []).find((retry: any) =>
+					matchesError(retry.ErrorEquals, error.error),
+				);
+				const attempt = retrier ? (attempts.get(retrier) ?? 0) : 0;
+				if (retrier && attempt < (retrier.MaxAttempts ?? 3)) {
+					attempts.set(retrier, attempt + 1);
+					continue;
+				}
+				const catcher = (state.Catch ?? []).find((handler: any) =>
+					matchesError(handler.ErrorEquals, error.error),
+				);
+				if (!catcher) {
+					throw error;
+				}
+				const errorOutput = { Error: error.error, Cause: error.cause };
+				return {
+					output: jsonata
+						? await this.jsonataOutput(
+								catcher,
+								{ input, context, errorOutput },
+								errorOutput,
+							)
+						: placeResult(catcher.ResultPath, input, errorOutput),
+					next: catcher.Next,
+				};
+			}
+		}
+	}
+
+	private async runTask(
+		state: any,
+		input: any,
+		context: any,
+		jsonata: boolean,
+	): Promise<any> {
+		const action = state.Resource.split(":::")[1]
+			.replace(/^aws-sdk:/, "")
+			.replace(/\.(sync|waitForTaskToken)$/, "");
+		if (jsonata) {
+			const parameters = await this.evaluateTemplate(state.Arguments, {
+				input,
+				context,
+			});
+			const result = await this.options.invoke(action, parameters);
+			return this.jsonataOutput(state, { input, context, result }, result);
+		}
+		const parameters = this.payload(
+			state.Parameters,
+			selectPath(state.InputPath, input, context),
+			context,
+		);
+		const result = await this.options.invoke(action, parameters);
+		return this.jsonPathOutput(state, input, result, context);
+	}
+
+	private async runMap(
+		state: any,
+		input: any,
+		context: any,
+		jsonata: boolean,
+	): Promise<any> {
+		const processor = state.ItemProcessor ?? state.Iterator;
+		const items: any[] = jsonata
+			? await this.evaluateTemplate(state.Items ?? "{% $states.input %}", {
+					input,
+					context,
+				})
+			: selectPath(
+					state.ItemsPath ?? "$",
+					selectPath(state.InputPath, input, context),
+					context,
+				);
+		const results: any[] = [];
+		for (const [index, value] of items.entries()) {
+			const item = { Index: index, Value: value };
+			const itemContext = { ...context, Map: { Item: item } };
+			const selector = state.ItemSelector ?? state.Parameters;
+			const itemInput =
+				selector === undefined
+					? value
+					: jsonata
+						? await this.evaluateTemplate(selector, {
+								input,
+								context: itemContext,
+							})
+						: this.payload(
+								selector,
+								selectPath(state.InputPath, input, context),
+								itemContext,
+							);
+			results.push(
+				await this.run(
+					processor,
+					itemInput,
+					processor.QueryLanguage ?? (jsonata ? "JSONata" : "JSONPath"),
+					item,
+				),
+			);
+		}
+		return jsonata
+			? this.jsonataOutput(state, { input, context, result: results }, results)
+			: this.jsonPathOutput(state, input, results, context);
+	}
+
+	/**
+	 * Applies ResultSelector, ResultPath and OutputPath
+	 */
+	public jsonPathOutput(state: any, input: any, result: any, context: any) {
+		const selected =
+			state.ResultSelector !== undefined
+				? this.payload(state.ResultSelector, result, context)
+				: result;
+		return selectPath(
+			state.OutputPath,
+			placeResult(state.ResultPath, input, selected),
+			context,
+		);
+	}
+
+	/**
+	 * Evaluates Assign and Output, Output defaults to `fallback`
+	 */
+	public async jsonataOutput(
+		state: any,
+		bindings: { [key: string]: any },
+		fallback: any,
+	): Promise<any> {
+		const output =
+			state.Output !== undefined
+				? await this.evaluateTemplate(state.Output, bindings)
+				: fallback;
+		if (state.Assign) {
+			Object.assign(
+				this.variables,
+				await this.evaluateTemplate(state.Assign, bindings),
+			);
+		}
+		return output;
+	}
+
+	/**
+	 * Evaluates a JSONPath payload template, where keys ending in ".$" hold paths or intrinsic functions
+	 */
+	public payload(template: any, input: any, context: any): any {
+		if (Array.isArray(template)) {
+			return template.map((value) => this.payload(value, input, context));
+		}
+		if (template === null || typeof template !== "object") {
+			return template;
+		}
+		return Object.fromEntries(
+			Object.entries(template).map(([key, value]) =>
+				key.endsWith(".$")
+					? [
+							key.slice(0, -2),
+							(value as string).startsWith("States.")
+								? intrinsic(value as string, input, context)
+								: readPath(value as string, input, context),
+						]
+					: [key, this.payload(value, input, context)],
+			),
+		);
+	}
+
+	/**
+	 * Evaluates the "{% %}" expressions in a JSONata template with $states and the variables
+	 */
+	public async evaluateTemplate(
+		template: any,
+		states: { [key: string]: any },
+	): Promise<any> {
+		if (typeof template === "string") {
+			const expression = JSONATA_EXPRESSION.exec(template);
+			if (!expression) {
+				return template;
+			}
+			try {
+				return await jsonata(expression[1]).evaluate(states.input, {
+					...STEP_FUNCTIONS_FUNCTIONS,
+					...this.variables,
+					states,
+				});
+			} catch (error) {
+				throw new StatesError(
+					"States.QueryEvaluationError",
+					(error as Error).message,
+				);
+			}
+		}
+		if (Array.isArray(template)) {
+			return Promise.all(
+				template.map((value) => this.evaluateTemplate(value, states)),
+			);
+		}
+		if (template === null || typeof template !== "object") {
+			return template;
+		}
+		return Object.fromEntries(
+			await Promise.all(
+				Object.entries(template).map(async ([key, value]) => [
+					key,
+					await this.evaluateTemplate(value, states),
+				]),
+			),
+		);
+	}
+}
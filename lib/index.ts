@@ -0,0 +1,66 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+
+export {
+	DUPLICATE_BARRIER_ERROR,
+	DUPLICATE_TOKEN_ERROR,
+	ResumeBarrier,
+	ResumeMode,
+	ResumeTableCapacity,
+	SfnResume,
+	SfnResumeBaseProps,
+	SfnResumePresetProps,
+	SfnResumeProps,
+	props,
+	sfnResume,
+} from "./sfnResume";
+export {
+	SfnResumeHub,
+	SfnResumeHubPauseTaskProps,
+	SfnResumeHubProps,
+	sfnResumeHub,
+	sfnResumeHubPauseTaskProps,
+	sfnResumeHubProps,
+} from "./sfnResumeHub";
+export {
+	METRIC_NAMESPACE,
+	REAPER_ERROR,
+	REAPER_METRIC_NAMESPACE,
+	SfnResumeReaper,
+	SfnResumeReaperProps,
+	sfnResumeReaper,
+	sfnResumeReaperProps,
+} from "./sfnResumeReaper";
+export {
+	OPERATOR_ERROR,
+	SfnResumeOperator,
+	SfnResumeOperatorProps,
+	WAIT_NOT_FOUND_ERROR,
+	sfnResumeOperator,
+	sfnResumeOperatorProps,
+} from "./sfnResumeOperator";
+export {
+	EventBridgeResumeTrigger,
+	EventBridgeResumeTriggerProps,
+	HttpResumeTrigger,
+	HttpResumeTriggerProps,
+	IResumeTrigger,
+	RESUME_ID_FIELD,
+	ResumeTriggerBindOptions,
+	SnsResumeTrigger,
+	SnsResumeTriggerProps,
+	SqsResumeTrigger,
+	SqsResumeTriggerProps,
+} from "./triggers";
+export {
+	SfnResumeStartAndWait,
+	SfnResumeStartAndWaitOptions,
+	SfnResumeStartAndWaitProps,
+} from "./sfnResumeStartAndWait";
+export { LIFECYCLE_EVENT_SOURCE, LifecycleEvent } from "./lifecycle";
+export { ResumePath } from "./resumePath";
+export {
+	SfnResumeSimulator,
+	SimulatedExecution,
+	SimulatedStatus,
+} from "./sfnResumeSimulator";
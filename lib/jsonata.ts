@@ -0,0 +1,108 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+
+import { aws_stepfunctions as sfn } from "aws-cdk-lib";
+
+/**
+ * Splits a reference path such as "$.a['b-c'][0]" into its field names and indexes.
+ * Only plain references are supported, filters, wildcards and slices throw.
+ */
+export function parseJsonPath(path: string): (string | number)[] {
+	if (!path.startsWith("$")) {
+		throw new Error(`Expected a JSON path starting with "$", got "${path}"`);
+	}
+	const segment =
+		/\.([A-Za-z_][A-Za-z0-9_-]*)|\[(\d+)\]|\['([^']+)'\]|\["([^"]+)"\]/y;
+	const segments: (string | number)[] = [];
+	let index = 1;
+	while (index < path.length) {
+		segment.lastIndex = index;
+		const match = segment.exec(path);
+		if (!match) {
+			throw new Error(
+				`Unsupported JSON path "${path}", only field and index references are supported`,
+			);
+		}
+		segments.push(
+			match[2] !== undefined
+				? Number(match[2])
+				: (match[1] ?? match[3] ?? match[4]),
+		);
+		index = segment.lastIndex;
+	}
+	return segments;
+}
+
+/**
+ * Converts a reference path into a JSONata expression.
+ * Paths starting with "$$." refer to the context object, all others to `root`.
+ */
+export function jsonPathToJsonata(
+	path: string,
+	root: string = "$states.input",
+): string {
+	if (path.startsWith("$$")) {
+		return jsonPathToJsonata(path.slice(1), "$states.context");
+	}
+	return parseJsonPath(path).reduce<string>(
+		(expression, segment) =>
+			typeof segment === "number"
+				? `${expression}[${segment}]`
+				: /^[A-Za-z_][A-Za-z0-9_]*$/.test(segment)
+					? `${expression}.${segment}`
+					: `${expression}.\`${segment}\``,
+		root,
+	);
+}
+
+/**
+ * Converts a JSONPath payload template, where keys ending in ".$" hold paths,
+ * into a JSONata object constructor evaluated against `root`.
+ */
+export function payloadToJsonata(payload: any, root: string): string {
+	if (Array.isArray(payload)) {
+		return `[${payload.map((value) => payloadToJsonata(value, root)).join(", ")}]`;
+	}
+	if (payload !== null && typeof payload === "object") {
+		const fields = Object.entries(payload).map(([key, value]) =>
+			key.endsWith(".$")
+				? `${JSON.stringify(key.slice(0, -2))}: ${jsonPathToJsonata(value as string, root)}`
+				: `${JSON.stringify(key)}: ${payloadToJsonata(value, root)}`,
+		);
+		return `{${fields.join(", ")}}`;
+	}
+	return JSON.stringify(payload);
+}
+
+/**
+ * Renders the JSONata Output of a task so it behaves like the JSONPath
+ * ResultSelector and ResultPath fields would.
+ */
+export function resultToJsonata(
+	resultPath: string,
+	resultSelector?: { [key: string]: any },
+): string {
+	if (resultPath === sfn.JsonPath.DISCARD) {
+		return "{% $states.input %}";
+	}
+	const result = resultSelector
+		? payloadToJsonata(resultSelector, "$states.result")
+		: "$states.result";
+	const fields = parseJsonPath(resultPath).map((segment) => {
+		if (typeof segment === "number") {
+			throw new Error(
+				`Unsupported result path "${resultPath}", array indexes cannot be assigned`,
+			);
+		}
+		return segment;
+	});
+	const merge = (depth: number, base: string): string => {
+		if (depth === fields.length) {
+			return result;
+		}
+		const field = fields[depth];
+		const next = jsonPathToJsonata(`$['${field}']`, base);
+		return `$merge([${base}, {${JSON.stringify(field)}: ${merge(depth + 1, next)}}])`;
+	};
+	return `{% ${merge(0, "$states.input")} %}`;
+}
@@ -0,0 +1,251 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+
+import { Construct } from "constructs";
+import * as cdk from "aws-cdk-lib";
+import { NagSuppressions } from "cdk-nag";
+import {
+	CLOSED_TOKEN_FIELD,
+	DEFAULT_RESUME_RETRY,
+	ResumeStateMachineOptions,
+} from "./resumeWorkflow";
+import { RESUME_ID_FIELD } from "./triggers";
+
+import {
+	aws_dynamodb as dynamodb,
+	aws_stepfunctions as sfn,
+	aws_stepfunctions_tasks as tasks,
+	aws_events as events,
+	aws_iam as iam,
+	aws_kms as kms,
+	aws_pipes as pipes,
+} from "aws-cdk-lib";
+
+/**
+ * Source of the lifecycle events
+ */
+export const LIFECYCLE_EVENT_SOURCE = "sfnResume";
+
+/**
+ * Detail types of the lifecycle events
+ */
+export enum LifecycleEvent {
+	/**
+	 * A pause task stored its token
+	 */
+	PAUSED = "WorkflowPaused",
+	/**
+	 * The resume workflow sent SendTaskSuccess to a paused execution
+	 */
+	RESUMED = "WorkflowResumed",
+	/**
+	 * A paused execution was failed: by the resume workflow on an event of the failure condition,
+	 * by the reaper or through the operator API
+	 */
+	WAIT_FAILED = "WorkflowWaitFailed",
+}
+
+/**
+ * Field of the resume workflow's state that holds the record of the resumed wait
+ */
+const WAIT_RECORD_FIELD = "waitRecord";
+
+/**
+ * Describes a resumed wait: the ID, the paused and the resume execution, how long it waited
+ * and the event that released it. The token is never included.
+ */
+const WAIT_RECORD_FIELDS: { [field: string]: string } = {
+	id: `$states.input.${RESUME_ID_FIELD}`,
+	executionArn: "$item.executionArn.S",
+	pausedAt: "$item.createdAt.S",
+	resumedAt: "$resumedAt",
+	waitSeconds: "($toMillis($resumedAt) - $toMillis($item.createdAt.S)) / 1000",
+	outcome: `$exists($states.input.sendTaskFailure) ? "${LifecycleEvent.WAIT_FAILED}" : "${LifecycleEvent.RESUMED}"`,
+	resumeExecutionArn: "$states.context.Execution.Id",
+	eventId: "$states.input.id",
+	eventSource: "$states.input.source",
+	eventDetailType: "$states.input.`detail-type`",
+};
+
+/**
+ * Renders the JSONata expression of the record of a wait, from its stored item
+ * @param item JSONata expression of the stored item
+ * @param fields Fields that replace those of WAIT_RECORD_FIELDS as JSONata expressions, undefined drops a field
+ */
+export function waitRecord(
+	item: string,
+	fields: { [field: string]: string | undefined } = {},
+): string {
+	return `($resumedAt := $now(); $item := ${item}; {${Object.entries({
+		...WAIT_RECORD_FIELDS,
+		...fields,
+	})
+		.filter(([, value]) => value !== undefined)
+		.map(([field, value]) => `"${field}": ${value}`)
+		.join(", ")}})`;
+}
+
+/**
+ * Creates the table that keeps the records of resumed waits, keyed by ID and resume time
+ */
+export function createHistoryTable(
+	scope: Construct,
+	options: { removalPolicy: cdk.RemovalPolicy; encryptionKey?: kms.IKey },
+): dynamodb.Table {
+	return new dynamodb.Table(scope, "historyTable", {
+		partitionKey: { name: "id", type: dynamodb.AttributeType.STRING },
+		sortKey: { name: "resumedAt", type: dynamodb.AttributeType.STRING },
+		billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+		removalPolicy: options.removalPolicy,
+		encryption: options.encryptionKey
+			? dynamodb.TableEncryption.CUSTOMER_MANAGED
+			: undefined,
+		encryptionKey: options.encryptionKey,
+		pointInTimeRecoverySpecification: { pointInTimeRecoveryEnabled: true },
+	});
+}
+
+/**
+ * Chains the lifecycle steps of a closed wait after the task that deletes its token: the WorkflowResumed
+ * or WorkflowWaitFailed event on the lifecycle event bus and the record in the history table
+ * Computed by JSONata states, as JSONPath has no clock. The delete task must pass its input on, and
+ * tokens that were already closed, with an error in CLOSED_TOKEN_FIELD, skip the steps. A step that still
+ * fails after its retries fails the execution, which the failed resumes alarm reports. The wait is
+ * closed and its token deleted by then, so a redelivered event or the next sweep does not repeat it.
+ * @param description JSONata expression of the wait record, see waitRecord
+ */
+export function withLifecycle(
+	scope: Construct,
+	options: Pick<
+		ResumeStateMachineOptions,
+		"lifecycleEventBus" | "historyTable" | "resumeRetry"
+	>,
+	deleteToken: sfn.TaskStateBase,
+	description: string = waitRecord("$states.input.getResumeToken.Item"),
+): sfn.IChainable {
+	const { lifecycleEventBus, historyTable } = options;
+	if (!lifecycleEventBus && !historyTable) {
+		return deleteToken;
+	}
+	const resumeRetry = options.resumeRetry ?? DEFAULT_RESUME_RETRY;
+	const record = `$states.input.${WAIT_RECORD_FIELD}`;
+
+	let chain = sfn.Chain.start(
+		sfn.Pass.jsonata(scope, "describeWait", {
+			outputs: `{% $merge([$states.input, {"${WAIT_RECORD_FIELD}": ${description}}]) %}`,
+		}),
+	);
+	if (lifecycleEventBus) {
+		chain = chain.next(
+			tasks.EventBridgePutEvents.jsonata(scope, "publishWaitEvent", {
+				entries: [
+					{
+						eventBus: lifecycleEventBus,
+						source: LIFECYCLE_EVENT_SOURCE,
+						detailType: `{% ${record}.outcome %}`,
+						detail: sfn.TaskInput.fromText(`{% ${record} %}`),
+					},
+				],
+				outputs: "{% $states.input %}",
+			}).addRetry(resumeRetry),
+		);
+	}
+	if (historyTable) {
+		chain = chain.next(
+			tasks.DynamoPutItem.jsonata(scope, "recordWaitHistory", {
+				table: historyTable,
+				item: {
+					id: tasks.DynamoAttributeValue.fromString(`{% ${record}.id %}`),
+					resumedAt: tasks.DynamoAttributeValue.fromString(
+						`{% ${record}.resumedAt %}`,
+					),
+					executionArn: tasks.DynamoAttributeValue.fromString(
+						`{% ${record}.executionArn %}`,
+					),
+					outcome: tasks.DynamoAttributeValue.fromString(
+						`{% ${record}.outcome %}`,
+					),
+					record: tasks.DynamoAttributeValue.fromString(
+						`{% $string(${record}) %}`,
+					),
+				},
+				outputs: "{% $states.input %}",
+			}).addRetry(resumeRetry),
+		);
+	}
+	return deleteToken.next(
+		sfn.Choice.jsonata(scope, "isTokenAlreadyClosed")
+			.when(
+				sfn.Condition.jsonata(
+					`{% $exists($states.input.${CLOSED_TOKEN_FIELD}) %}`,
+				),
+				sfn.Pass.jsonata(scope, "skipLifecycle"),
+			)
+			.otherwise(chain),
+	);
+}
+
+/**
+ * Creates the pipe that publishes a WorkflowPaused event for every token stored in the table
+ * It reads the new images of the table's stream and forwards the ID, the paused execution and
+ * the time it was paused. The token is never forwarded.
+ */
+export function createLifecyclePipe(
+	scope: Construct,
+	table: dynamodb.ITable,
+	eventBus: events.IEventBus,
+): pipes.CfnPipe {
+	if (!table.tableStreamArn) {
+		throw new Error(
+			"lifecycleEventBus requires a stream of new images on the supplied table, set its tableStreamArn",
+		);
+	}
+	const role = new iam.Role(scope, "LifecyclePipeRole", {
+		assumedBy: new iam.ServicePrincipal("pipes.amazonaws.com"),
+		description: "Role of the pipe that publishes the WorkflowPaused events",
+	});
+	table.grantStreamRead(role);
+	eventBus.grantPutEventsTo(role);
+
+	const image = "$.dynamodb.NewImage";
+	const pipe = new pipes.CfnPipe(scope, "lifecyclePipe", {
+		roleArn: role.roleArn,
+		source: table.tableStreamArn,
+		sourceParameters: {
+			dynamoDbStreamParameters: { startingPosition: "LATEST" },
+			filterCriteria: {
+				filters: [
+					{
+						pattern: JSON.stringify({
+							eventName: ["INSERT"],
+							dynamodb: { NewImage: { token: { S: [{ exists: true }] } } },
+						}),
+					},
+				],
+			},
+		},
+		target: eventBus.eventBusArn,
+		targetParameters: {
+			inputTemplate: `{"id": "<${image}.id.S>", "executionArn": "<${image}.executionArn.S>", "pausedAt": "<${image}.createdAt.S>", "waitSeconds": 0, "outcome": "${LifecycleEvent.PAUSED}"}`,
+			eventBridgeEventBusParameters: {
+				source: LIFECYCLE_EVENT_SOURCE,
+				detailType: LifecycleEvent.PAUSED,
+			},
+		},
+	});
+	pipe.node.addDependency(role);
+
+	NagSuppressions.addResourceSuppressions(
+		role,
+		[
+			{
+				id: "AwsSolutions-IAM5",
+				reason:
+					"dynamodb:ListStreams does not support resource-level permissions.",
+				appliesTo: ["Resource::*"],
+			},
+		],
+		true,
+	);
+	return pipe;
+}
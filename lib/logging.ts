@@ -0,0 +1,102 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+
+import { Construct } from "constructs";
+import * as cdk from "aws-cdk-lib";
+
+import {
+	aws_iam as iam,
+	aws_kms as kms,
+	aws_logs as logs,
+	aws_stepfunctions as sfn,
+} from "aws-cdk-lib";
+
+export interface StateMachineLoggingOptions {
+	removalPolicy: cdk.RemovalPolicy;
+	/**
+	 * Customer-managed key of the log group and the state machine
+	 */
+	encryptionKey?: kms.IKey;
+	/**
+	 * @default sfn.LogLevel.ALL, or sfn.LogLevel.ERROR for EXPRESS state machines
+	 */
+	logLevel?: sfn.LogLevel;
+	/**
+	 * Express workflows have no execution history and are logged at a lower level by default
+	 */
+	stateMachineType?: sfn.StateMachineType;
+	/**
+	 * Includes the execution data, which contains the task tokens, in the logs
+	 * @default false
+	 */
+	logExecutionData?: boolean;
+}
+
+/**
+ * Allows CloudWatch Logs to use the customer-managed key for the log groups of the stack
+ */
+export function allowLogsToUseKey(
+	scope: Construct,
+	encryptionKey?: kms.IKey,
+): void {
+	const stack = cdk.Stack.of(scope);
+
+	encryptionKey?.addToResourcePolicy(
+		new iam.PolicyStatement({
+			actions: [
+				"kms:Encrypt*",
+				"kms:Decrypt*",
+				"kms:ReEncrypt*",
+				"kms:GenerateDataKey*",
+				"kms:Describe*",
+			],
+			principals: [
+				new iam.ServicePrincipal(`logs.${stack.region}.amazonaws.com`),
+			],
+			resources: ["*"],
+			conditions: {
+				ArnLike: {
+					"kms:EncryptionContext:aws:logs:arn": stack.formatArn({
+						service: "logs",
+						resource: "log-group",
+						resourceName: "*",
+						arnFormat: cdk.ArnFormat.COLON_RESOURCE_NAME,
+					}),
+				},
+			},
+		}),
+	);
+}
+
+/**
+ * Creates the vended log group of a state machine and returns its logging and encryption configuration
+ * With an encryptionKey the key policy allows CloudWatch Logs to use the key for the log group,
+ * the state machine grants its role and the log delivery itself.
+ */
+export function createStateMachineLogging(
+	scope: Construct,
+	id: string,
+	logGroupName: string,
+	options: StateMachineLoggingOptions,
+): Pick<sfn.StateMachineProps, "logs" | "encryptionConfiguration"> {
+	allowLogsToUseKey(scope, options.encryptionKey);
+
+	return {
+		logs: {
+			destination: new logs.LogGroup(scope, id, {
+				logGroupName: logGroupName,
+				removalPolicy: options.removalPolicy,
+				encryptionKey: options.encryptionKey,
+			}),
+			level:
+				options.logLevel ??
+				(options.stateMachineType === sfn.StateMachineType.EXPRESS
+					? sfn.LogLevel.ERROR
+					: sfn.LogLevel.ALL),
+			includeExecutionData: options.logExecutionData,
+		},
+		encryptionConfiguration:
+			options.encryptionKey &&
+			new sfn.CustomerManagedEncryptionConfiguration(options.encryptionKey),
+	};
+}
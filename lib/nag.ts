@@ -0,0 +1,51 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+
+import { NagPackSuppression } from "cdk-nag";
+
+/**
+ * cdk-nag suppressions for the wildcard permissions CDK adds to a state machine role
+ * when logging and X-Ray tracing are enabled
+ */
+export const stateMachineRoleSuppressions: NagPackSuppression[] = [
+	{
+		id: "AwsSolutions-IAM5",
+		reason:
+			"CDK automatically adds these permissions for CloudWatch Logs integration. Actions are limited to specific logging operations",
+		appliesTo: [
+			"Action::logs:CreateLogDelivery",
+			"Action::logs:GetLogDelivery",
+			"Action::logs:UpdateLogDelivery",
+			"Action::logs:DeleteLogDelivery",
+			"Action::logs:ListLogDeliveries",
+			"Action::logs:PutResourcePolicy",
+			"Action::logs:DescribeResourcePolicies",
+			"Action::logs:DescribeLogGroups",
+			"Resource::*",
+		],
+	},
+	{
+		id: "AwsSolutions-IAM5",
+		reason:
+			"CDK automatically adds these permissions for CloudWatch Logs integration. Actions are limited to specific logging operations",
+		appliesTo: [
+			"Action::xray:PutTraceSegments",
+			"Action::xray:PutTelemetryRecords",
+			"Action::xray:GetSamplingRules",
+			"Action::xray:GetSamplingTarget",
+			"Resource::*",
+		],
+	},
+];
+
+/**
+ * cdk-nag suppressions for the wildcard actions CDK grants on the customer-managed key of a table
+ */
+export const tableKeySuppressions: NagPackSuppression[] = [
+	{
+		id: "AwsSolutions-IAM5",
+		reason:
+			"CDK grants these actions for the customer-managed key of the table. The resource is limited to the key",
+		appliesTo: ["Action::kms:ReEncrypt*", "Action::kms:GenerateDataKey*"],
+	},
+];
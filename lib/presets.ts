@@ -0,0 +1,175 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+
+import { jsonPathToJsonata } from "./jsonata";
+import { ResumeMode, SfnResumePresetProps, SfnResumeProps } from "./sfnResume";
+
+import { aws_stepfunctions as sfn } from "aws-cdk-lib";
+
+/**
+ * EventBridge events of an AWS service job and where the job ID is found
+ */
+export interface ResumePreset {
+	readonly source: string;
+	readonly detailType: string;
+	/**
+	 * Path to the job ID below the result of the AWS SDK call that starts the job, e.g. ".JobId"
+	 */
+	readonly resultId: string;
+	/**
+	 * Path to the job ID in the event, e.g. "$.detail.jobId"
+	 */
+	readonly detailId: string;
+	/**
+	 * Detail fields that select the terminal events
+	 */
+	readonly detail: { [field: string]: string[] };
+	/**
+	 * Condition on the terminal event of a failed job, in JSONata when jsonata is set
+	 */
+	readonly failureCondition: (jsonata: boolean) => sfn.Condition;
+}
+
+/**
+ * Matches events whose status field at path has one of the statuses
+ */
+function statusIn(path: string, statuses: string[]) {
+	return (jsonata: boolean): sfn.Condition =>
+		jsonata
+			? sfn.Condition.jsonata(
+					`{% ${jsonPathToJsonata(path)} in ${JSON.stringify(statuses)} %}`,
+				)
+			: sfn.Condition.or(
+					...statuses.map((status) => sfn.Condition.stringEquals(path, status)),
+				);
+}
+
+export const TRANSLATE_TEXT_JOB: ResumePreset = {
+	source: "aws.translate",
+	detailType: "Translate TextTranslationJob State Change",
+	resultId: ".JobId",
+	detailId: "$.detail.jobId",
+	detail: {
+		jobStatus: ["COMPLETED", "COMPLETED_WITH_ERROR", "FAILED", "STOPPED"],
+	},
+	failureCondition: statusIn("$.detail.jobStatus", ["FAILED", "STOPPED"]),
+};
+
+export const TRANSCRIBE_JOB: ResumePreset = {
+	source: "aws.transcribe",
+	detailType: "Transcribe Job State Change",
+	resultId: ".TranscriptionJob.TranscriptionJobName",
+	detailId: "$.detail.TranscriptionJobName",
+	detail: { TranscriptionJobStatus: ["COMPLETED", "FAILED"] },
+	failureCondition: statusIn("$.detail.TranscriptionJobStatus", ["FAILED"]),
+};
+
+export const GLUE_JOB_RUN: ResumePreset = {
+	source: "aws.glue",
+	detailType: "Glue Job State Change",
+	resultId: ".JobRunId",
+	detailId: "$.detail.jobRunId",
+	detail: { state: ["SUCCEEDED", "FAILED", "TIMEOUT", "STOPPED", "ERROR"] },
+	failureCondition: statusIn("$.detail.state", [
+		"FAILED",
+		"TIMEOUT",
+		"STOPPED",
+		"ERROR",
+	]),
+};
+
+export const BATCH_JOB: ResumePreset = {
+	source: "aws.batch",
+	detailType: "Batch Job State Change",
+	resultId: ".JobId",
+	detailId: "$.detail.jobId",
+	detail: { status: ["SUCCEEDED", "FAILED"] },
+	failureCondition: statusIn("$.detail.status", ["FAILED"]),
+};
+
+/**
+ * A stopped ECS task failed unless its essential container exited with code 0
+ */
+export const ECS_TASK: ResumePreset = {
+	source: "aws.ecs",
+	detailType: "ECS Task State Change",
+	resultId: ".Tasks[0].TaskArn",
+	detailId: "$.detail.taskArn",
+	detail: { lastStatus: ["STOPPED"] },
+	failureCondition: (jsonata) =>
+		jsonata
+			? sfn.Condition.jsonata(
+					'{% $states.input.detail.stopCode != "EssentialContainerExited" or $states.input.detail.containers[0].exitCode != 0 %}',
+				)
+			: sfn.Condition.or(
+					sfn.Condition.not(
+						sfn.Condition.stringEquals(
+							"$.detail.stopCode",
+							"EssentialContainerExited",
+						),
+					),
+					sfn.Condition.and(
+						sfn.Condition.isPresent("$.detail.containers[0].exitCode"),
+						sfn.Condition.not(
+							sfn.Condition.numberEquals("$.detail.containers[0].exitCode", 0),
+						),
+					),
+				),
+};
+
+export const CODE_BUILD: ResumePreset = {
+	source: "aws.codebuild",
+	detailType: "CodeBuild Build State Change",
+	resultId: ".Build.Arn",
+	detailId: "$.detail['build-id']",
+	detail: {
+		"build-status": ["SUCCEEDED", "FAILED", "FAULT", "STOPPED", "TIMED_OUT"],
+	},
+	failureCondition: statusIn("$.detail['build-status']", [
+		"FAILED",
+		"FAULT",
+		"STOPPED",
+		"TIMED_OUT",
+	]),
+};
+
+export const MEDIA_CONVERT_JOB: ResumePreset = {
+	source: "aws.mediaconvert",
+	detailType: "MediaConvert Job State Change",
+	resultId: ".Job.Id",
+	detailId: "$.detail.jobId",
+	detail: { status: ["COMPLETE", "ERROR", "CANCELED"] },
+	failureCondition: statusIn("$.detail.status", ["ERROR", "CANCELED"]),
+};
+
+/**
+ * Fills in the event pattern, the ID paths and the failure condition of a preset,
+ * fields set in props take precedence
+ */
+export function presetProps(
+	preset: ResumePreset,
+	props: SfnResumePresetProps,
+): SfnResumeProps {
+	if (props.resumeMode === ResumeMode.LAMBDA) {
+		throw new Error(
+			"SfnResume presets fail the paused workflow on failed jobs with a failureCondition, which the LAMBDA resume mode does not support",
+		);
+	}
+	const { startResultPath = "$", ...rest } = props;
+	return {
+		...rest,
+		pathToIdPauseTask:
+			props.pathToIdPauseTask ?? `${startResultPath}${preset.resultId}`,
+		pathToIdWorkflow: props.pathToIdWorkflow ?? preset.detailId,
+		eventPattern: props.eventPattern ?? {
+			source: [preset.source],
+			detailType: [preset.detailType],
+			detail: preset.detail,
+		},
+		failureCondition:
+			props.failureCondition ??
+			preset.failureCondition(
+				props.queryLanguage === sfn.QueryLanguage.JSONATA,
+			),
+	};
+}
@@ -0,0 +1,202 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+
+import { Construct } from "constructs";
+import * as cdk from "aws-cdk-lib";
+import { NagSuppressions } from "cdk-nag";
+import { parseJsonPath } from "./jsonata";
+import { allowLogsToUseKey } from "./logging";
+import { tableKeySuppressions } from "./nag";
+import {
+	FANOUT_SORT_KEY,
+	RESUMED_MARKER_PREFIX,
+	RESUMED_MARKER_RETENTION,
+	TIME_TO_RESUME_METRIC,
+	TTL_ATTRIBUTE,
+} from "./resumeWorkflow";
+import { METRIC_NAMESPACE } from "./sfnResumeReaper";
+import { validateName } from "./validation";
+
+import {
+	aws_dynamodb as dynamodb,
+	aws_iam as iam,
+	aws_kms as kms,
+	aws_lambda as lambda,
+	aws_logs as logs,
+	aws_sqs as sqs,
+} from "aws-cdk-lib";
+
+export interface ResumeFunctionOptions {
+	table: dynamodb.ITable;
+	nameSuffix: string;
+	removalPolicy: cdk.RemovalPolicy;
+	pathToIdWorkflow?: string;
+	fanOut?: boolean;
+	publishMetrics?: boolean;
+	encryptionKey?: kms.IKey;
+	/**
+	 * Receives the events the function still failed on after the asynchronous retries
+	 */
+	deadLetterQueue?: sqs.IQueue;
+	/**
+	 * IAM resources of SendTaskSuccess, see taskTokenResources
+	 */
+	taskTokenResources: string[];
+}
+
+/**
+ * Handler of the resume function, inlined into the template
+ * A token is sent before it is deleted, so a function that stops in between leaves it for the retry.
+ * Closed tokens are treated as already resumed, which also resumes concurrent events at most once.
+ * Each resumed ID is marked as the resume workflow does, see withResumedMarker, and the token is deleted
+ * only if it was not stored again meanwhile. The function fails when neither a token nor a marker is
+ * stored, so the asynchronous invocation retries an event that arrived before the token.
+ */
+const RESUME_HANDLER = `
+const { DynamoDBClient, DeleteItemCommand, GetItemCommand, PutItemCommand, QueryCommand } = require("@aws-sdk/client-dynamodb");
+const { SFNClient, SendTaskSuccessCommand } = require("@aws-sdk/client-sfn");
+const dynamodb = new DynamoDBClient({});
+const sfn = new SFNClient({});
+const { TABLE_NAME, ID_PATH, SORT_KEY, METRIC_NAMESPACE } = process.env;
+const CLOSED_TOKEN_ERRORS = ["InvalidToken", "TaskTimedOut", "TaskDoesNotExist"];
+
+exports.handler = async (event) => {
+	const id = event.sfnResumeId ?? JSON.parse(ID_PATH || "null")?.reduce((value, key) => value?.[key], event);
+	if (id === undefined || id === null || id === "") {
+		throw Object.assign(new Error("The event has no ID, or no pathToIdWorkflow is configured"), { name: "sfnResume.MissingId" });
+	}
+	const markerKey = { id: { S: "${RESUMED_MARKER_PREFIX}" + id }, ...(SORT_KEY && { [SORT_KEY]: { S: "${RESUMED_MARKER_PREFIX}" } }) };
+	const items = SORT_KEY
+		? (await dynamodb.send(new QueryCommand({
+				TableName: TABLE_NAME,
+				KeyConditionExpression: "id = :id",
+				ExpressionAttributeValues: { ":id": { S: String(id) } },
+				ConsistentRead: true,
+			}))).Items
+		: [(await dynamodb.send(new GetItemCommand({ TableName: TABLE_NAME, Key: { id: { S: String(id) } }, ConsistentRead: true }))).Item];
+	let resumed = 0;
+	for (const item of items.filter((item) => item?.token)) {
+		try {
+			await sfn.send(new SendTaskSuccessCommand({ taskToken: item.token.S, output: JSON.stringify({ status: "resume" }) }));
+			if (METRIC_NAMESPACE && item.createdAt) {
+				console.log(JSON.stringify({
+					_aws: { Timestamp: Date.now(), CloudWatchMetrics: [{ Namespace: METRIC_NAMESPACE, Dimensions: [["TableName"]], Metrics: [{ Name: "${TIME_TO_RESUME_METRIC}", Unit: "Seconds" }] }] },
+					TableName: TABLE_NAME,
+					${TIME_TO_RESUME_METRIC}: (Date.now() - Date.parse(item.createdAt.S)) / 1000,
+				}));
+			}
+		} catch (error) {
+			if (!CLOSED_TOKEN_ERRORS.includes(error.name)) throw error;
+		}
+		await dynamodb.send(new PutItemCommand({
+			TableName: TABLE_NAME,
+			Item: { ...markerKey, resumedAt: { S: new Date().toISOString() }, ${TTL_ATTRIBUTE}: { N: String(Math.floor(Date.now() / 1000) + ${RESUMED_MARKER_RETENTION.toSeconds()}) } },
+		}));
+		try {
+			await dynamodb.send(new DeleteItemCommand({
+				TableName: TABLE_NAME,
+				Key: { id: item.id, ...(SORT_KEY && { [SORT_KEY]: item[SORT_KEY] }) },
+				ConditionExpression: "#token = :token",
+				ExpressionAttributeNames: { "#token": "token" },
+				ExpressionAttributeValues: { ":token": item.token },
+			}));
+		} catch (error) {
+			if (error.name !== "ConditionalCheckFailedException") throw error;
+		}
+		resumed++;
+	}
+	if (!resumed && !(await dynamodb.send(new GetItemCommand({ TableName: TABLE_NAME, Key: markerKey, ConsistentRead: true }))).Item) {
+		throw Object.assign(new Error("No resume token is stored for " + id), { name: "sfnResume.TokenNotFound" });
+	}
+};
+`;
+
+/**
+ * Creates the function that resumes paused workflows in the LAMBDA resume mode
+ * It replaces the resume state machine with one invocation per event. Events are invoked asynchronously,
+ * which retries a failed resume twice over about three minutes before it goes to the dead-letter queue.
+ */
+export function createResumeFunction(
+	scope: Construct,
+	options: ResumeFunctionOptions,
+): lambda.Function {
+	const stack = cdk.Stack.of(scope);
+	validateName(
+		options.nameSuffix,
+		`${stack.stackName}-${options.nameSuffix}-resume`,
+		64,
+		"resume function",
+	);
+
+	/**
+	 * Dedicated IAM role for the function
+	 * with permissions to read and delete tokens, mark resumed IDs, send task success signals and write its logs
+	 */
+	const role = new iam.Role(scope, "ResumeFunctionRole", {
+		assumedBy: new iam.ServicePrincipal("lambda.amazonaws.com"),
+		description: "Role for the sfnResume resume function",
+	});
+	options.table.grantReadWriteData(role);
+	role.addToPolicy(
+		new iam.PolicyStatement({
+			actions: ["states:SendTaskSuccess"],
+			resources: options.taskTokenResources,
+		}),
+	);
+
+	allowLogsToUseKey(scope, options.encryptionKey);
+	const logGroup = new logs.LogGroup(scope, "resumeFunctionLogs", {
+		logGroupName: `/aws/lambda/${stack.stackName}-${options.nameSuffix}-resume`,
+		removalPolicy: options.removalPolicy,
+		encryptionKey: options.encryptionKey,
+	});
+	logGroup.grantWrite(role);
+
+	const resumeFunction = new lambda.Function(scope, "resumeFunction", {
+		functionName: `${stack.stackName}-${options.nameSuffix}-resume`,
+		description: `${options.nameSuffix} sfnResume`,
+		runtime: lambda.Runtime.NODEJS_22_X,
+		handler: "index.handler",
+		code: lambda.Code.fromInline(RESUME_HANDLER),
+		timeout: cdk.Duration.seconds(30),
+		role: role,
+		logGroup: logGroup,
+		environment: {
+			TABLE_NAME: options.table.tableName,
+			...(options.pathToIdWorkflow && {
+				ID_PATH: JSON.stringify(parseJsonPath(options.pathToIdWorkflow)),
+			}),
+			...(options.fanOut && { SORT_KEY: FANOUT_SORT_KEY }),
+			...(options.publishMetrics && {
+				METRIC_NAMESPACE,
+			}),
+		},
+		environmentEncryption: options.encryptionKey,
+		deadLetterQueue: options.deadLetterQueue,
+		tracing: lambda.Tracing.ACTIVE,
+	});
+
+	NagSuppressions.addResourceSuppressions(
+		role,
+		[
+			{
+				id: "AwsSolutions-IAM5",
+				reason:
+					"Task tokens can resume any state machine in the account until the paused state machines are granted with grantResume.",
+				appliesTo: [
+					"Resource::arn:aws:states:<AWS::Region>:<AWS::AccountId>:*",
+				],
+			},
+			{
+				id: "AwsSolutions-IAM5",
+				reason:
+					"CDK automatically adds these permissions for X-Ray tracing. Actions are limited to specific tracing operations",
+				appliesTo: ["Resource::*"],
+			},
+			...(options.table.encryptionKey ? tableKeySuppressions : []),
+		],
+		true,
+	);
+
+	return resumeFunction;
+}
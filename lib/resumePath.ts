@@ -0,0 +1,50 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+
+/**
+ * Typed path to the ID in the caller's state or in an event,
+ * accepted wherever a JSON path string is, e.g. pathToIdPauseTask and pathToIdWorkflow
+ */
+export class ResumePath {
+	/**
+	 * Path to a field of the event detail, e.g. ResumePath.detail("job", "id") for "$.detail.job.id"
+	 * @param fields - Field names below detail
+	 */
+	public static detail(...fields: string[]): ResumePath {
+		return ResumePath.field("detail", ...fields);
+	}
+
+	/**
+	 * Path to a field of the state or the event, e.g. ResumePath.field("job", "id") for "$.job.id"
+	 * @param fields - Field names below the root
+	 */
+	public static field(...fields: string[]): ResumePath {
+		if (!fields.length) {
+			throw new Error("ResumePath.field requires at least one field name");
+		}
+		return new ResumePath(
+			fields.reduce(
+				(path, field) =>
+					/^[A-Za-z_][A-Za-z0-9_-]*$/.test(field)
+						? `${path}.${field}`
+						: `${path}['${field}']`,
+				"$",
+			),
+		);
+	}
+
+	/**
+	 * Path from a JSON path string or an sfn.JsonPath expression, e.g. sfn.JsonPath.stringAt("$.id")
+	 * @param path - Reference path starting with "$"
+	 */
+	public static fromJsonPath(path: string): ResumePath {
+		return new ResumePath(path);
+	}
+
+	private constructor(
+		/**
+		 * The JSON path, or the encoded sfn.JsonPath expression it was created from
+		 */
+		public readonly path: string,
+	) {}
+}
@@ -0,0 +1,1831 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+
+import { Construct } from "constructs";
+import * as cdk from "aws-cdk-lib";
+import { NagSuppressions } from "cdk-nag";
+import { jsonPathToJsonata, resultToJsonata } from "./jsonata";
+import { withLifecycle } from "./lifecycle";
+import {
+	createStateMachineLogging,
+	StateMachineLoggingOptions,
+} from "./logging";
+import { stateMachineRoleSuppressions, tableKeySuppressions } from "./nag";
+import { ResumeTableCapacity } from "./sfnResume";
+import { METRIC_NAMESPACE } from "./sfnResumeReaper";
+import { RESUME_ID_FIELD } from "./triggers";
+import { validateName } from "./validation";
+
+import {
+	aws_backup as backup,
+	aws_dynamodb as dynamodb,
+	aws_stepfunctions as sfn,
+	aws_stepfunctions_tasks as tasks,
+	aws_events as events,
+	aws_events_targets as targets,
+	aws_iam as iam,
+	aws_kms as kms,
+	aws_sqs as sqs,
+} from "aws-cdk-lib";
+
+/**
+ * Attribute of the resume table that holds the TTL of a stored token or resumed marker
+ */
+export const TTL_ATTRIBUTE = "expiresAt";
+
+/**
+ * Prefix of the ID of the marker that the resume workflow keeps for a resumed ID,
+ * so a redelivered event of the ID is recognised as a duplicate
+ */
+export const RESUMED_MARKER_PREFIX = "#resumed#";
+
+/**
+ * How long a resumed marker is kept. EventBridge retries an event for at most a day.
+ */
+export const RESUMED_MARKER_RETENTION = cdk.Duration.days(1);
+
+/**
+ * Sort key of the resume table in fan-out mode, one token is stored per waiting execution
+ */
+export const FANOUT_SORT_KEY = "executionId";
+
+/**
+ * Errors of SendTaskSuccess and SendTaskFailure for tokens of executions that were
+ * already resumed, timed out or finished. They are not retried.
+ */
+export const CLOSED_TOKEN_ERRORS = [
+	"Sfn.InvalidTokenException",
+	"Sfn.TaskTimedOutException",
+	"Sfn.TaskDoesNotExistException",
+];
+
+/**
+ * Field of the state that holds the error of a token that was already closed, see CLOSED_TOKEN_ERRORS
+ */
+export const CLOSED_TOKEN_FIELD = "resumeError";
+
+/**
+ * Metric with the seconds between storing a token and resuming its execution
+ */
+export const TIME_TO_RESUME_METRIC = "TimeToResume";
+
+/**
+ * Cause of the sfnResume.MissingId error for an empty ID, which DynamoDB rejects as a key
+ */
+const EMPTY_ID_CAUSE =
+	"The ID of the input is empty, the event or message has no ID at the path of the trigger";
+
+/**
+ * Default retry policy of the resume tasks, for throttling and transient service errors
+ */
+export const DEFAULT_RESUME_RETRY: sfn.RetryProps = {
+	interval: cdk.Duration.seconds(1),
+	maxAttempts: 3,
+	backoffRate: 2,
+};
+
+export interface ResumeTableOptions {
+	/**
+	 * Existing table to use instead of creating one
+	 */
+	table?: dynamodb.ITable;
+	removalPolicy: cdk.RemovalPolicy;
+	fanOut?: boolean;
+	encryptionKey?: kms.IKey;
+	pointInTimeRecovery?: boolean;
+	deletionProtection?: boolean;
+	provisionedCapacity?: ResumeTableCapacity;
+	backupPlan?: backup.BackupPlan;
+	/**
+	 * Enables a stream of the new images, read by the lifecycle pipe
+	 */
+	stream?: boolean;
+}
+
+export interface PauseTaskOptions {
+	table: dynamodb.ITable;
+	pathToIdPauseTask: string | string[];
+	/**
+	 * Prepended to the stored ID as "<keyPrefix>#<id>"
+	 * @default - the ID is stored as is
+	 */
+	keyPrefix?: string;
+	resultPath?: string;
+	resultSelector?: { [key: string]: any };
+	timeout?: cdk.Duration;
+	heartbeat?: cdk.Duration;
+	fanOut?: boolean;
+	/**
+	 * JSONata stores the token with a JSONata state, for callers defined in JSONata
+	 * @default sfn.QueryLanguage.JSONPATH
+	 */
+	queryLanguage?: sfn.QueryLanguage;
+}
+
+/**
+ * Barrier of a pause task, see ResumeBarrier
+ */
+export interface BarrierOptions {
+	/**
+	 * JSON path to the job IDs in the caller's state
+	 * @default - the completion events carry the barrier ID and are counted
+	 */
+	pathToJobIds?: string;
+	expectedCount?: number;
+	quorum?: number;
+}
+
+export interface ResumeStateMachineOptions extends StateMachineLoggingOptions {
+	table: dynamodb.ITable;
+	nameSuffix: string;
+	pathToIdWorkflow?: string;
+	role?: iam.IRole;
+	failureCondition?: sfn.Condition;
+	failureError?: string;
+	failureCause?: string;
+	resumeOutput?: sfn.TaskInput;
+	fanOut?: boolean;
+	earlyEventWindow?: cdk.Duration;
+	resumeRetry?: sfn.RetryProps;
+	publishMetrics?: boolean;
+	queryLanguage?: sfn.QueryLanguage;
+	/**
+	 * IAM resources of SendTaskSuccess and SendTaskFailure, see taskTokenResources
+	 */
+	taskTokenResources?: string[];
+	/**
+	 * Marks the events off a barrier instead of resuming a single wait
+	 */
+	barrier?: BarrierOptions;
+	/**
+	 * Bus of the WorkflowResumed and WorkflowWaitFailed events
+	 */
+	lifecycleEventBus?: events.IEventBus;
+	/**
+	 * Table that keeps a record of every resumed wait
+	 */
+	historyTable?: dynamodb.ITable;
+}
+
+/**
+ * IAM resources of the task token APIs: the state machines granted with grantResume,
+ * or every state machine in the account while none is granted
+ * The list is resolved at synthesis, so grants added after the constructs are created still apply.
+ */
+export function taskTokenResources(
+	scope: Construct,
+	stateMachineArns: string[],
+): string[] {
+	const stack = cdk.Stack.of(scope);
+	return cdk.Lazy.list({
+		produce: () =>
+			stateMachineArns.length > 0
+				? stateMachineArns
+				: [`arn:aws:states:${stack.region}:${stack.account}:*`],
+	});
+}
+
+/**
+ * Renders a value that is either a literal or a JSON path into the state input
+ */
+function literalOrPath(value: string): string {
+	return value.startsWith("$") ? sfn.JsonPath.stringAt(value) : value;
+}
+
+/**
+ * Renders the stored ID from one or more JSON paths as a States.Format expression,
+ * parts are joined with "#" after the optional prefix
+ */
+function keyToJsonPath(paths: string[], keyPrefix?: string): string {
+	if (paths.length === 1 && !keyPrefix) {
+		return paths[0];
+	}
+	const format = [
+		...(keyPrefix ? [keyPrefix] : []),
+		...paths.map(() => "{}"),
+	].join("#");
+	return `States.Format('${format}', ${paths.join(", ")})`;
+}
+
+/**
+ * Renders the stored ID from one or more JSON paths as a JSONata expression
+ */
+function keyToJsonata(paths: string[], keyPrefix?: string): string {
+	return [
+		...(keyPrefix ? [`'${keyPrefix}'`] : []),
+		...paths.map((path) => jsonPathToJsonata(path)),
+	].join(" & '#' & ");
+}
+
+/**
+ * Creates the table that stores resume tokens, or uses the supplied table
+ * Uses id as the partition key and the execution ID as sort key in fan-out mode
+ * TTL is enabled on expiresAt, which expires the resumed markers and the tokens of pause tasks with a timeout
+ * Billing is on demand unless a provisioned capacity is set, which is auto-scaled on utilisation
+ * A supplied table is used as is, so the options that shape the table cannot be set with it
+ */
+export function createResumeTable(
+	scope: Construct,
+	options: ResumeTableOptions,
+): dynamodb.ITable {
+	if (
+		options.table &&
+		(options.pointInTimeRecovery !== undefined ||
+			options.deletionProtection !== undefined ||
+			options.provisionedCapacity)
+	) {
+		throw new Error(
+			"pointInTimeRecovery, deletionProtection and provisionedCapacity cannot be set with an existing table",
+		);
+	}
+
+	let table = options.table;
+	if (!table) {
+		const capacity = options.provisionedCapacity;
+		const createdTable = new dynamodb.Table(scope, "table", {
+			partitionKey: { name: "id", type: dynamodb.AttributeType.STRING },
+			sortKey: options.fanOut
+				? { name: FANOUT_SORT_KEY, type: dynamodb.AttributeType.STRING }
+				: undefined,
+			billingMode: capacity
+				? dynamodb.BillingMode.PROVISIONED
+				: dynamodb.BillingMode.PAY_PER_REQUEST,
+			readCapacity: capacity?.minCapacity,
+			writeCapacity: capacity?.minCapacity,
+			removalPolicy: options.removalPolicy,
+			timeToLiveAttribute: TTL_ATTRIBUTE,
+			encryption: options.encryptionKey
+				? dynamodb.TableEncryption.CUSTOMER_MANAGED
+				: undefined,
+			encryptionKey: options.encryptionKey,
+			pointInTimeRecoverySpecification: options.pointInTimeRecovery
+				? { pointInTimeRecoveryEnabled: true }
+				: undefined,
+			deletionProtection: options.deletionProtection,
+			stream: options.stream ? dynamodb.StreamViewType.NEW_IMAGE : undefined,
+		});
+
+		if (capacity) {
+			const scaling = {
+				minCapacity: capacity.minCapacity,
+				maxCapacity: capacity.maxCapacity,
+			};
+			const utilization = {
+				targetUtilizationPercent: capacity.targetUtilizationPercent ?? 70,
+			};
+			createdTable
+				.autoScaleReadCapacity(scaling)
+				.scaleOnUtilization(utilization);
+			createdTable
+				.autoScaleWriteCapacity(scaling)
+				.scaleOnUtilization(utilization);
+		}
+		table = createdTable;
+	}
+
+	/**
+	 * Adds the table to the backup plan, the selection is named after the scope
+	 * so one plan can protect several tables
+	 */
+	const selection = options.backupPlan?.addSelection(
+		cdk.Names.uniqueId(scope),
+		{ resources: [backup.BackupResource.fromDynamoDbTable(table)] },
+	);
+	if (selection) {
+		NagSuppressions.addResourceSuppressions(
+			selection,
+			[
+				{
+					id: "AwsSolutions-IAM4",
+					reason:
+						"AWS Backup recommends its managed service role policy for backup selections.",
+					appliesTo: [
+						"Policy::arn:<AWS::Partition>:iam::aws:policy/service-role/AWSBackupServiceRolePolicyForBackup",
+					],
+				},
+			],
+			true,
+		);
+	}
+
+	return table;
+}
+
+/**
+ * Creates a DynamoDB PutItem task that stores a Step Functions task token
+ * @param {string} options.table - The DynamoDB table to update
+ * @param {string | string[]} options.pathToIdPauseTask - JSON paths to the ID used as partition key
+ * @param {string} options.resultPath - Where the resume output lands in the caller's state
+ * @param {string} sfn.JsonPath.taskToken - The task token to store in the table, with the time it was stored
+ * and the ARN and start time of the paused execution
+ * @param {cdk.Duration} options.timeout - Task timeout, also used for the TTL of the stored token
+ * @param {boolean} options.fanOut - Stores the execution ID as sort key so several executions can wait on one ID
+ * @param {sfn.QueryLanguage} options.queryLanguage - Query language of the task, JSONPath by default
+ * @returns {tasks.CallAwsService} A Step Functions task that updates DynamoDB
+ */
+export function createPauseTask(
+	scope: Construct,
+	id: string,
+	options: PauseTaskOptions,
+): tasks.CallAwsService {
+	const pauseTaskProps = {
+		service: "dynamodb",
+		action: "putItem",
+		integrationPattern: sfn.IntegrationPattern.WAIT_FOR_TASK_TOKEN,
+		taskTimeout: options.timeout && sfn.Timeout.duration(options.timeout),
+		heartbeatTimeout:
+			options.heartbeat && sfn.Timeout.duration(options.heartbeat),
+		iamResources: [options.table.tableArn],
+		// The caller's role encrypts the token with the table key
+		additionalIamStatements: options.table.encryptionKey && [
+			new iam.PolicyStatement({
+				actions: [
+					"kms:Decrypt",
+					"kms:Encrypt",
+					"kms:ReEncrypt*",
+					"kms:GenerateDataKey*",
+				],
+				resources: [options.table.encryptionKey.keyArn],
+			}),
+		],
+	};
+	const resultPath = options.resultPath ?? sfn.JsonPath.DISCARD;
+	const paths = ([] as string[]).concat(options.pathToIdPauseTask);
+
+	// JSONPath has no clock, so the TTL is computed by a JSONata state
+	// with the output mapped to behave like resultPath/resultSelector
+	if (options.timeout || options.queryLanguage === sfn.QueryLanguage.JSONATA) {
+		let outputs: string;
+		try {
+			outputs = resultToJsonata(resultPath, options.resultSelector);
+		} catch (error) {
+			if (options.queryLanguage === sfn.QueryLanguage.JSONATA) {
+				throw error;
+			}
+			throw new Error(
+				"timeout renders the pause task as a JSONata state to compute the TTL of the token, " +
+					`which cannot express its resultPath or resultSelector: ${(error as Error).message}. ` +
+					"Use plain field references, or leave timeout unset and expire waits with reaperMaxAge.",
+			);
+		}
+		return new tasks.CallAwsService(scope, id, {
+			...pauseTaskProps,
+			queryLanguage: sfn.QueryLanguage.JSONATA,
+			outputs: outputs,
+			parameters: {
+				TableName: options.table.tableName,
+				Item: {
+					id: { S: `{% ${keyToJsonata(paths, options.keyPrefix)} %}` },
+					...(options.fanOut && {
+						[FANOUT_SORT_KEY]: { S: "{% $states.context.Execution.Id %}" },
+					}),
+					token: { S: "{% $states.context.Task.Token %}" },
+					createdAt: { S: "{% $states.context.State.EnteredTime %}" },
+					executionArn: { S: "{% $states.context.Execution.Id %}" },
+					startTime: { S: "{% $states.context.Execution.StartTime %}" },
+					...(options.timeout && {
+						[TTL_ATTRIBUTE]: {
+							N: `{% $string($floor($millis() / 1000) + ${options.timeout.toSeconds()}) %}`,
+						},
+					}),
+				},
+				ConditionExpression: "attribute_not_exists(id)",
+			},
+		});
+	}
+
+	return new tasks.CallAwsService(scope, id, {
+		...pauseTaskProps,
+		resultPath: resultPath,
+		resultSelector: options.resultSelector,
+		parameters: {
+			TableName: options.table.tableName,
+			Item: {
+				id: { "S.$": keyToJsonPath(paths, options.keyPrefix) },
+				...(options.fanOut && {
+					[FANOUT_SORT_KEY]: { "S.$": "$$.Execution.Id" },
+				}),
+				token: { S: sfn.JsonPath.taskToken },
+				createdAt: { "S.$": "$$.State.EnteredTime" },
+				executionArn: { "S.$": "$$.Execution.Id" },
+				startTime: { "S.$": "$$.Execution.StartTime" },
+			},
+			ConditionExpression: "attribute_not_exists(id)",
+		},
+	});
+}
+
+/**
+ * Renders a JSONata object constructor from fields that hold JSONata expressions
+ */
+function jsonataObject(fields: { [key: string]: string | undefined }): string {
+	return `{${Object.entries(fields)
+		.filter(([, value]) => value !== undefined)
+		.map(([key, value]) => `"${key}": ${value}`)
+		.join(", ")}}`;
+}
+
+/**
+ * Creates the pause task of a barrier, which stores one token with the number of jobs that release it
+ * With job IDs, an entry per job that points to the barrier is stored in the same transaction,
+ * so completion events find the barrier by the ID of their job. A transaction holds at most 100 items.
+ * Always a JSONata state, which builds the items from the job IDs
+ * @param {BarrierOptions} options.barrier - Job IDs or expected count, and the quorum
+ * @returns {tasks.CallAwsService} A Step Functions task that writes to DynamoDB
+ */
+export function createBarrierPauseTask(
+	scope: Construct,
+	id: string,
+	options: PauseTaskOptions & { barrier: BarrierOptions },
+): tasks.CallAwsService {
+	const barrier = options.barrier;
+	const table = options.table;
+	const paths = ([] as string[]).concat(options.pathToIdPauseTask);
+	const timeToLive =
+		options.timeout &&
+		`{"N": $string($floor($millis() / 1000) + ${options.timeout.toSeconds()})}`;
+	const put = (item: string) =>
+		`{"Put": {"TableName": "${table.tableName}", "Item": ${item}, "ConditionExpression": "attribute_not_exists(id)"}}`;
+
+	const remaining = barrier.pathToJobIds
+		? barrier.quorum
+			? `$min([${barrier.quorum}, $count($jobs)])`
+			: "$count($jobs)"
+		: `${barrier.quorum ?? barrier.expectedCount}`;
+	const barrierItem = jsonataObject({
+		id: '{"S": $barrier}',
+		token: '{"S": $states.context.Task.Token}',
+		createdAt: '{"S": $states.context.State.EnteredTime}',
+		executionArn: '{"S": $states.context.Execution.Id}',
+		startTime: '{"S": $states.context.Execution.StartTime}',
+		remaining: `{"N": $string(${remaining})}`,
+		jobs: barrier.pathToJobIds && '{"SS": $jobs}',
+		results: '{"M": {}}',
+		[TTL_ATTRIBUTE]: timeToLive,
+	});
+	const jobItem = jsonataObject({
+		id: '{"S": $}',
+		barrierId: '{"S": $barrier}',
+		[TTL_ATTRIBUTE]: timeToLive,
+	});
+	const transactItems = barrier.pathToJobIds
+		? `($barrier := ${keyToJsonata(paths, options.keyPrefix)}; $jobs := $distinct([${jsonPathToJsonata(barrier.pathToJobIds)}.$string($)]); $append([${put(barrierItem)}], [$jobs.${put(jobItem)}]))`
+		: `($barrier := ${keyToJsonata(paths, options.keyPrefix)}; [${put(barrierItem)}])`;
+
+	return new tasks.CallAwsService(scope, id, {
+		service: "dynamodb",
+		action: "transactWriteItems",
+		iamAction: "dynamodb:PutItem",
+		integrationPattern: sfn.IntegrationPattern.WAIT_FOR_TASK_TOKEN,
+		taskTimeout: options.timeout && sfn.Timeout.duration(options.timeout),
+		heartbeatTimeout:
+			options.heartbeat && sfn.Timeout.duration(options.heartbeat),
+		iamResources: [table.tableArn],
+		// The caller's role encrypts the token with the table key
+		additionalIamStatements: table.encryptionKey && [
+			new iam.PolicyStatement({
+				actions: [
+					"kms:Decrypt",
+					"kms:Encrypt",
+					"kms:ReEncrypt*",
+					"kms:GenerateDataKey*",
+				],
+				resources: [table.encryptionKey.keyArn],
+			}),
+		],
+		queryLanguage: sfn.QueryLanguage.JSONATA,
+		outputs: resultToJsonata(
+			options.resultPath ?? sfn.JsonPath.DISCARD,
+			options.resultSelector,
+		),
+		parameters: {
+			TransactItems: `{% ${transactItems} %}`,
+		},
+	});
+}
+
+/**
+ * Waits between the lookups of a token that is not stored yet, in seconds
+ * The delays double from one second, capped at a minute, until they cover the window
+ */
+function resumeTokenRetryDelays(earlyEventWindow: cdk.Duration): number[] {
+	const retryDelays: number[] = [];
+	for (let total = 0; total < earlyEventWindow.toSeconds(); ) {
+		const delay = Math.min(2 ** retryDelays.length, 60);
+		retryDelays.push(delay);
+		total += delay;
+	}
+	return retryDelays;
+}
+
+/**
+ * Chains the publishing of the time between storing the token and resuming the execution before next
+ * Computed by a JSONata state, as JSONPath has no clock. Tokens stored without
+ * createdAt are skipped, and a failed publish never fails the resume.
+ */
+function withTimeToResume(
+	scope: Construct,
+	options: ResumeStateMachineOptions,
+	next: sfn.IChainable,
+): sfn.IChainable {
+	if (!options.publishMetrics) {
+		return next;
+	}
+	const publishTimeToResume = tasks.CallAwsService.jsonata(
+		scope,
+		"publishTimeToResume",
+		{
+			service: "cloudwatch",
+			action: "putMetricData",
+			parameters: {
+				Namespace: METRIC_NAMESPACE,
+				MetricData: [
+					{
+						MetricName: TIME_TO_RESUME_METRIC,
+						Value:
+							"{% ($toMillis($now()) - $toMillis($states.input.getResumeToken.Item.createdAt.S)) / 1000 %}",
+						Unit: "Seconds",
+						Dimensions: [{ Name: "TableName", Value: options.table.tableName }],
+					},
+				],
+			},
+			outputs: "{% $states.input %}",
+			iamResources: ["*"],
+		},
+	);
+	publishTimeToResume.addCatch(next, {
+		outputs: "{% $states.input %}",
+	});
+	return publishTimeToResume.next(next);
+}
+
+/**
+ * Key of the resumed marker with the given ID, in fan-out mode under a constant sort key
+ */
+function resumedMarkerKey(
+	options: ResumeStateMachineOptions,
+	id: string,
+): { [key: string]: tasks.DynamoAttributeValue } {
+	return {
+		id: tasks.DynamoAttributeValue.fromString(id),
+		...(options.fanOut && {
+			[FANOUT_SORT_KEY]: tasks.DynamoAttributeValue.fromString(
+				RESUMED_MARKER_PREFIX,
+			),
+		}),
+	};
+}
+
+/**
+ * Chains the resumed marker of the ID before next, which deletes the token
+ * Computed by a JSONata state for the TTL of the marker. The marker has no token and no createdAt,
+ * so the reaper, the operator API and the lifecycle pipe do not treat it as a wait.
+ * @param resumedId JSONata expression of the resumed ID, the ID of the event by default
+ */
+function withResumedMarker(
+	scope: Construct,
+	options: ResumeStateMachineOptions,
+	next: sfn.IChainable,
+	id: string = "markResumed",
+	resumedId: string = `$states.input.${RESUME_ID_FIELD}`,
+): sfn.IChainable {
+	return tasks.DynamoPutItem.jsonata(scope, id, {
+		table: options.table,
+		item: {
+			...resumedMarkerKey(
+				options,
+				`{% '${RESUMED_MARKER_PREFIX}' & ${resumedId} %}`,
+			),
+			resumedAt: tasks.DynamoAttributeValue.fromString("{% $now() %}"),
+			[TTL_ATTRIBUTE]: tasks.DynamoAttributeValue.numberFromString(
+				`{% $string($floor($millis() / 1000) + ${RESUMED_MARKER_RETENTION.toSeconds()}) %}`,
+			),
+		},
+		outputs: "{% $states.input %}",
+	})
+		.addRetry(options.resumeRetry ?? DEFAULT_RESUME_RETRY)
+		.next(next);
+}
+
+/**
+ * Builds the resume definition in JSONPath
+ * Returns the first state, which resolves the ID of the paused workflow
+ */
+function createJsonPathDefinition(
+	scope: Construct,
+	options: ResumeStateMachineOptions,
+	tokenResources: string[],
+): sfn.IChainable {
+	const table = options.table;
+
+	const resumeIdPath = `$.${RESUME_ID_FIELD}`;
+
+	/**
+	 * Creates a Step Functions SendTaskSuccess task
+	 * Sends a success signal to a paused workflow using the stored task token
+	 *
+	 * @param {string} resultPath - Path where the result will be stored in state data
+	 * @param {string} service - AWS service to call (sfn)
+	 * @param {string} action - API action to call (sendTaskSuccess)
+	 * @param {Object} parameters - Task parameters including:
+	 *   - TaskToken: Retrieved from DynamoDB table
+	 *   - Output: Resume output passed back to the paused workflow
+	 * @param {string[]} iamResources - IAM resources that can be accessed
+	 */
+	const sendTaskSuccess = new tasks.CallAwsService(scope, "sendTaskSuccess", {
+		resultPath: "$.sendTaskSuccess",
+		service: "sfn",
+		action: "sendTaskSuccess",
+		parameters: {
+			TaskToken: sfn.JsonPath.stringAt("$.getResumeToken.Item.token.S"),
+			Output: options.resumeOutput?.value ?? {
+				status: "resume",
+			},
+		},
+		iamResources: tokenResources,
+	});
+
+	/**
+	 * Creates a Step Functions SendTaskFailure task
+	 * Sends a failure signal to a paused workflow when the event matches the failure condition,
+	 * so the caller can handle it with a Catch on the pause task
+	 *
+	 * @param {string} options.failureError - Error name, literal or JSON path into the event
+	 * @param {string} options.failureCause - Cause, literal or JSON path into the event
+	 */
+	const sendTaskFailure = options.failureCondition
+		? new tasks.CallAwsService(scope, "sendTaskFailure", {
+				resultPath: "$.sendTaskFailure",
+				service: "sfn",
+				action: "sendTaskFailure",
+				parameters: {
+					TaskToken: sfn.JsonPath.stringAt("$.getResumeToken.Item.token.S"),
+					Error: literalOrPath(options.failureError ?? "sfnResume.Failure"),
+					Cause: options.failureCause
+						? literalOrPath(options.failureCause)
+						: sfn.JsonPath.jsonToString(sfn.JsonPath.objectAt("$.detail")),
+				},
+				iamResources: tokenResources,
+			})
+		: undefined;
+
+	/**
+	 * Creates a DynamoDB DeleteItem task to remove a resume token entry
+	 * @param {string} resumeIdPath - JSON path to the resolved ID used as partition key
+	 * @param {boolean} options.fanOut - Also keys the entry by the execution ID of the waiter
+	 * @param {dynamodb.ITable} table - DynamoDB table to delete from
+	 * @returns {tasks.DynamoDeleteItem} A Step Functions task that deletes from DynamoDB
+	 */
+	const deleteResumeToken = new tasks.DynamoDeleteItem(
+		scope,
+		"deleteResumeToken",
+		{
+			key: {
+				id: tasks.DynamoAttributeValue.fromString(
+					sfn.JsonPath.stringAt(resumeIdPath),
+				),
+				...(options.fanOut && {
+					[FANOUT_SORT_KEY]: tasks.DynamoAttributeValue.fromString(
+						sfn.JsonPath.stringAt(`$.getResumeToken.Item.${FANOUT_SORT_KEY}.S`),
+					),
+				}),
+			},
+			table: table,
+			resultPath: sfn.JsonPath.DISCARD,
+		},
+	);
+
+	/**
+	 * Retries the resume tasks on transient errors
+	 * Closed tokens are not retried, but treated as already resumed
+	 * Both branches mark the ID as resumed before the token is deleted, see withResumedMarker
+	 * @param {sfn.RetryProps} options.resumeRetry - Retry policy of the resume tasks
+	 */
+	const resumeRetry = options.resumeRetry ?? DEFAULT_RESUME_RETRY;
+	/**
+	 * Publishes the lifecycle event and records the wait once its token is deleted
+	 * @param {events.IEventBus} options.lifecycleEventBus - Bus of the WorkflowResumed and WorkflowWaitFailed events
+	 * @param {dynamodb.ITable} options.historyTable - Table that keeps a record of the wait
+	 */
+	const markResumed = withResumedMarker(
+		scope,
+		options,
+		withLifecycle(scope, options, deleteResumeToken),
+	);
+	const tokenAlreadyClosed = new sfn.Pass(scope, "tokenAlreadyClosed").next(
+		markResumed,
+	);
+	for (const sendTask of [sendTaskSuccess, sendTaskFailure]) {
+		sendTask
+			?.addRetry({ errors: CLOSED_TOKEN_ERRORS, maxAttempts: 0 })
+			.addRetry(resumeRetry)
+			.addCatch(tokenAlreadyClosed, {
+				errors: CLOSED_TOKEN_ERRORS,
+				resultPath: `$.${CLOSED_TOKEN_FIELD}`,
+			});
+	}
+	deleteResumeToken.addRetry(resumeRetry);
+
+	/**
+	 * Publishes the time to resume before the ID is marked
+	 * @param {boolean} options.publishMetrics - Publish the TimeToResume metric
+	 */
+	const afterResume = withTimeToResume(scope, options, markResumed);
+
+	/**
+	 * Routes to SendTaskFailure when the failure condition matches, otherwise to SendTaskSuccess.
+	 * The resume token is deleted in both branches.
+	 */
+	const resumeCall: sfn.IChainable =
+		options.failureCondition && sendTaskFailure
+			? new sfn.Choice(scope, "isFailure")
+					.when(options.failureCondition, sendTaskFailure)
+					.otherwise(sendTaskSuccess)
+					.afterwards()
+			: sendTaskSuccess;
+
+	/**
+	 * Retrieves the resume token, or in fan-out mode the tokens of all waiting executions
+	 * Each waiter is resumed with the event merged with its stored item, so the resume
+	 * and delete states read the same paths in both modes
+	 */
+	let lookup: sfn.TaskStateBase;
+	let resume: sfn.IChainable;
+	let tokenPath: string;
+	if (options.fanOut) {
+		const resumeWaiters = new sfn.Map(scope, "resumeWaiters", {
+			itemsPath: "$.queryResumeTokens.Items",
+			itemSelector: {
+				"event.$": "$",
+				waiter: {
+					getResumeToken: { "Item.$": "$$.Map.Item.Value" },
+				},
+			},
+			resultPath: sfn.JsonPath.DISCARD,
+		});
+		resumeWaiters.itemProcessor(
+			new sfn.Pass(scope, "prepareWaiter", {
+				parameters: {
+					"input.$": "States.JsonMerge($.event, $.waiter, false)",
+				},
+				outputPath: "$.input",
+			})
+				.next(resumeCall)
+				.next(afterResume),
+		);
+		lookup = new tasks.CallAwsService(scope, "queryResumeTokens", {
+			resultPath: "$.queryResumeTokens",
+			service: "dynamodb",
+			action: "query",
+			parameters: {
+				TableName: table.tableName,
+				KeyConditionExpression: "id = :id",
+				ExpressionAttributeValues: {
+					":id": { "S.$": resumeIdPath },
+				},
+				ConsistentRead: true,
+			},
+			iamResources: [table.tableArn],
+		});
+		resume = resumeWaiters;
+		tokenPath = "$.queryResumeTokens.Items[0]";
+	} else {
+		lookup = new tasks.DynamoGetItem(scope, "getResumeToken", {
+			resultPath: "$.getResumeToken",
+			key: {
+				id: tasks.DynamoAttributeValue.fromString(
+					sfn.JsonPath.stringAt(resumeIdPath),
+				),
+			},
+			table: table,
+			consistentRead: true,
+		});
+		resume = sfn.Chain.start(resumeCall).next(afterResume);
+		if (options.barrier) {
+			// Failed jobs are marked, so the barrier states fail the barrier in both languages
+			const markJob = createBarrierStates(
+				scope,
+				{ ...options, barrier: options.barrier },
+				tokenResources,
+			);
+			resume = options.failureCondition
+				? new sfn.Choice(scope, "isJobFailure")
+						.when(
+							options.failureCondition,
+							new sfn.Pass(scope, "markJobFailed", {
+								result: sfn.Result.fromBoolean(true),
+								resultPath: "$.jobFailed",
+							}).next(markJob),
+						)
+						.otherwise(markJob)
+				: markJob;
+		}
+		tokenPath = "$.getResumeToken.Item";
+	}
+
+	/**
+	 * Handles events that arrive before the pause task stored the token
+	 * The lookup is retried with exponential backoff, capped at a minute per wait,
+	 * until the retry window has passed
+	 * @param {cdk.Duration} options.earlyEventWindow - How long the lookup is retried
+	 */
+	const earlyEventWindow = options.earlyEventWindow ?? cdk.Duration.minutes(1);
+	const retryDelays = resumeTokenRetryDelays(earlyEventWindow);
+
+	const hasResumeToken = new sfn.Choice(scope, "hasResumeToken").when(
+		sfn.Condition.isPresent(tokenPath),
+		resume,
+	);
+	if (retryDelays.length) {
+		const waitForResumeToken = new sfn.Wait(scope, "waitForResumeToken", {
+			time: sfn.WaitTime.secondsPath("$.resumeTokenRetry.seconds"),
+		}).next(lookup);
+		hasResumeToken.when(
+			sfn.Condition.isNotPresent("$.resumeTokenRetry"),
+			new sfn.Pass(scope, "startTokenRetry", {
+				parameters: { attempt: 0, seconds: retryDelays[0] },
+				resultPath: "$.resumeTokenRetry",
+			}).next(waitForResumeToken),
+		);
+		if (retryDelays.length > 1) {
+			hasResumeToken.when(
+				sfn.Condition.numberLessThan(
+					"$.resumeTokenRetry.attempt",
+					retryDelays.length - 1,
+				),
+				new sfn.Pass(scope, "countTokenRetry", {
+					parameters: {
+						"attempt.$": "States.MathAdd($.resumeTokenRetry.attempt, 1)",
+						"seconds.$": `States.ArrayGetItem(States.Array(${retryDelays.join(", ")}), States.MathAdd($.resumeTokenRetry.attempt, 1))`,
+					},
+					resultPath: "$.resumeTokenRetry",
+				}).next(waitForResumeToken),
+			);
+		}
+	}
+
+	/**
+	 * Looks up the resumed marker once the retry window has passed
+	 * A redelivered event of an ID whose token was already deleted succeeds without resuming anything.
+	 * The marker is only read last, so an event that arrives early for a reused ID still finds the new token.
+	 */
+	const getResumedMarker = new tasks.DynamoGetItem(scope, "getResumedMarker", {
+		resultPath: "$.getResumedMarker",
+		key: resumedMarkerKey(
+			options,
+			sfn.JsonPath.format(
+				`${RESUMED_MARKER_PREFIX}{}`,
+				sfn.JsonPath.stringAt(resumeIdPath),
+			),
+		),
+		table: table,
+		consistentRead: true,
+	});
+	getResumedMarker.addRetry(resumeRetry).next(
+		new sfn.Choice(scope, "isAlreadyResumed")
+			.when(
+				sfn.Condition.isPresent("$.getResumedMarker.Item"),
+				new sfn.Succeed(scope, "alreadyResumed"),
+			)
+			.otherwise(
+				new sfn.Fail(scope, "resumeTokenNotFound", {
+					error: "sfnResume.TokenNotFound",
+					cause: `No resume token was stored within ${earlyEventWindow.toHumanString()} of the event`,
+				}),
+			),
+	);
+	hasResumeToken.otherwise(getResumedMarker);
+	lookup.addRetry(resumeRetry).next(hasResumeToken);
+
+	/**
+	 * Resolves the ID of the paused workflow
+	 * Triggers that extract the ID themselves pass it in the sfnResumeId field,
+	 * for EventBridge events it is read from pathToIdWorkflow
+	 * @param {string} options.pathToIdWorkflow - JSON path to the ID in EventBridge events
+	 */
+	const resolveResumeId = new sfn.Choice(scope, "hasResumeId")
+		.when(
+			sfn.Condition.and(
+				sfn.Condition.isPresent(resumeIdPath),
+				sfn.Condition.not(sfn.Condition.stringEquals(resumeIdPath, "")),
+			),
+			lookup,
+		)
+		.when(
+			sfn.Condition.isPresent(resumeIdPath),
+			new sfn.Fail(scope, "emptyResumeId", {
+				error: "sfnResume.MissingId",
+				cause: EMPTY_ID_CAUSE,
+			}),
+		);
+	resolveResumeId.otherwise(
+		options.pathToIdWorkflow
+			? new sfn.Pass(scope, "resolveResumeId", {
+					inputPath: options.pathToIdWorkflow,
+					resultPath: resumeIdPath,
+				}).next(resolveResumeId)
+			: new sfn.Fail(scope, "missingResumeId", {
+					error: "sfnResume.MissingId",
+					cause:
+						"The input has no sfnResumeId and no pathToIdWorkflow is configured",
+				}),
+	);
+
+	return resolveResumeId;
+}
+
+/**
+ * Renders a value that is either a literal, a JSON path into the state input or a JSONata expression
+ */
+function literalOrJsonata(value: string): string {
+	return value.startsWith("$") ? `{% ${jsonPathToJsonata(value)} %}` : value;
+}
+
+/**
+ * Builds the states that mark a completion event off its barrier, in JSONata in both definitions
+ * The barrier is updated atomically: the job is added to the completed jobs with its event detail as result
+ * and the remaining count is decremented, unless the job was already counted or the barrier was released.
+ * The event that brings the count to zero sends SendTaskSuccess with the results of all counted jobs,
+ * an event marked as jobFailed sends SendTaskFailure. The barrier and its job entries are deleted afterwards,
+ * leaving resumed markers so the events of the remaining jobs end successfully.
+ * Returns the first state, which expects the event with the stored item in getResumeToken
+ */
+function createBarrierStates(
+	scope: Construct,
+	options: ResumeStateMachineOptions & { barrier: BarrierOptions },
+	tokenResources: string[],
+): sfn.IChainable {
+	const table = options.table;
+	const resumeId = `$states.input.${RESUME_ID_FIELD}`;
+	const resumeRetry = options.resumeRetry ?? DEFAULT_RESUME_RETRY;
+	const jobIds = options.barrier.pathToJobIds !== undefined;
+
+	/**
+	 * Resolves the barrier and the job of the event
+	 * With job IDs the event ID is the job, whose entry points to the barrier,
+	 * otherwise the event ID is the barrier and the job is the ID of the event, so redeliveries count once
+	 */
+	const resolveBarrier = sfn.Pass.jsonata(scope, "resolveBarrier", {
+		assign: jobIds
+			? {
+					barrierId: "{% $states.input.getResumeToken.Item.barrierId.S %}",
+					jobId: `{% ${resumeId} %}`,
+				}
+			: {
+					barrierId: `{% ${resumeId} %}`,
+					jobId: "{% $states.input.id %}",
+				},
+	});
+
+	const markJobDone = tasks.CallAwsService.jsonata(scope, "markJobDone", {
+		service: "dynamodb",
+		action: "updateItem",
+		parameters: {
+			TableName: table.tableName,
+			Key: { id: { S: "{% $barrierId %}" } },
+			UpdateExpression:
+				"ADD #completed :job, #remaining :minusOne SET #results.#job = :result",
+			ConditionExpression:
+				"attribute_exists(#token) AND NOT contains(#completed, :jobId)",
+			ExpressionAttributeNames: {
+				"#completed": "completed",
+				"#remaining": "remaining",
+				"#results": "results",
+				"#token": "token",
+				"#job": "{% $jobId %}",
+			},
+			ExpressionAttributeValues: {
+				":job": { SS: ["{% $jobId %}"] },
+				":jobId": { S: "{% $jobId %}" },
+				":minusOne": { N: "-1" },
+				":result": {
+					S: "{% $exists($states.input.detail) ? $string($states.input.detail) : $string($states.input) %}",
+				},
+			},
+			ReturnValues: "ALL_NEW",
+		},
+		outputs:
+			'{% $merge([$states.input, {"barrier": $states.result.Attributes}]) %}',
+		iamResources: [table.tableArn],
+	});
+	markJobDone
+		.addRetry({
+			errors: ["DynamoDb.ConditionalCheckFailedException"],
+			maxAttempts: 0,
+		})
+		.addRetry(resumeRetry)
+		.addCatch(sfn.Pass.jsonata(scope, "jobAlreadyCounted"), {
+			errors: ["DynamoDb.ConditionalCheckFailedException"],
+		});
+
+	/**
+	 * Deletes the barrier, then the entries of its jobs unless they were stored again for another barrier
+	 * The events of a released barrier carry its ID, or with job IDs the ID of their job, which is marked as resumed
+	 */
+	const deleteBarrier = tasks.DynamoDeleteItem.jsonata(scope, "deleteBarrier", {
+		key: { id: tasks.DynamoAttributeValue.fromString("{% $barrierId %}") },
+		table: table,
+		outputs: "{% $states.input %}",
+	});
+	deleteBarrier.addRetry(resumeRetry);
+	const closeBarrier = jobIds
+		? deleteBarrier
+		: withResumedMarker(
+				scope,
+				options,
+				deleteBarrier,
+				"markBarrierResumed",
+				"$barrierId",
+			);
+	if (jobIds) {
+		const deleteJob = tasks.DynamoDeleteItem.jsonata(scope, "deleteJob", {
+			key: { id: tasks.DynamoAttributeValue.fromString("{% $states.input %}") },
+			table: table,
+			conditionExpression: "barrierId = :barrierId",
+			expressionAttributeValues: {
+				":barrierId": tasks.DynamoAttributeValue.fromString("{% $barrierId %}"),
+			},
+		});
+		deleteJob
+			.addRetry({
+				errors: ["DynamoDb.ConditionalCheckFailedException"],
+				maxAttempts: 0,
+			})
+			.addRetry(resumeRetry)
+			.addCatch(sfn.Pass.jsonata(scope, "jobAlreadyDeleted"), {
+				errors: ["DynamoDb.ConditionalCheckFailedException"],
+			});
+		deleteBarrier.next(
+			sfn.Map.jsonata(scope, "deleteJobs", {
+				items: sfn.ProvideItems.jsonata("{% $states.input.barrier.jobs.SS %}"),
+				maxConcurrency: 10,
+			}).itemProcessor(
+				withResumedMarker(
+					scope,
+					options,
+					deleteJob,
+					"markJobResumed",
+					"$states.input",
+				),
+			),
+		);
+	}
+
+	/**
+	 * Resumes the barrier with the results of the counted jobs, by job ID
+	 */
+	const releaseBarrier = tasks.CallAwsService.jsonata(scope, "releaseBarrier", {
+		service: "sfn",
+		action: "sendTaskSuccess",
+		parameters: {
+			TaskToken: "{% $states.input.barrier.token.S %}",
+			Output:
+				'{% {"results": $merge($each($states.input.barrier.results.M, function($v, $k) {{$k: $parse($v.S)}}))} %}',
+		},
+		outputs: "{% $states.input %}",
+		iamResources: tokenResources,
+	});
+
+	/**
+	 * Fails the barrier on the first failed job
+	 * @param {string} options.failureError - Error name, literal, JSON path or JSONata expression
+	 * @param {string} options.failureCause - Cause, literal, JSON path or JSONata expression
+	 */
+	const failBarrier = options.failureCondition
+		? tasks.CallAwsService.jsonata(scope, "failBarrier", {
+				service: "sfn",
+				action: "sendTaskFailure",
+				parameters: {
+					TaskToken: "{% $states.input.barrier.token.S %}",
+					Error: literalOrJsonata(options.failureError ?? "sfnResume.Failure"),
+					Cause: options.failureCause
+						? literalOrJsonata(options.failureCause)
+						: "{% $string($states.input.detail) %}",
+				},
+				outputs: "{% $states.input %}",
+				iamResources: tokenResources,
+			})
+		: undefined;
+
+	const barrierAlreadyClosed = sfn.Pass.jsonata(
+		scope,
+		"barrierAlreadyClosed",
+	).next(closeBarrier);
+	for (const sendTask of [releaseBarrier, failBarrier]) {
+		sendTask
+			?.addRetry({ errors: CLOSED_TOKEN_ERRORS, maxAttempts: 0 })
+			.addRetry(resumeRetry)
+			.addCatch(barrierAlreadyClosed, { errors: CLOSED_TOKEN_ERRORS })
+			.next(closeBarrier);
+	}
+
+	const isBarrierReleased = sfn.Choice.jsonata(scope, "isBarrierReleased");
+	if (failBarrier) {
+		isBarrierReleased.when(
+			sfn.Condition.jsonata("{% $states.input.jobFailed = true %}"),
+			failBarrier,
+		);
+	}
+	isBarrierReleased
+		.when(
+			sfn.Condition.jsonata(
+				"{% $number($states.input.barrier.remaining.N) = 0 %}",
+			),
+			releaseBarrier,
+		)
+		.otherwise(sfn.Pass.jsonata(scope, "waitForJobs"));
+
+	const markJob = resolveBarrier.next(markJobDone).next(isBarrierReleased);
+
+	/**
+	 * With job IDs, events whose ID is not a job of a barrier are ignored
+	 * Counted events need an ID that stays the same when they are redelivered, such as the EventBridge event ID
+	 */
+	return jobIds
+		? sfn.Choice.jsonata(scope, "isBarrierJob")
+				.when(
+					sfn.Condition.jsonata(
+						"{% $exists($states.input.getResumeToken.Item.barrierId) %}",
+					),
+					markJob,
+				)
+				.otherwise(sfn.Pass.jsonata(scope, "notABarrierJob"))
+		: sfn.Choice.jsonata(scope, "hasEventId")
+				.when(sfn.Condition.jsonata("{% $exists($states.input.id) %}"), markJob)
+				.otherwise(
+					sfn.Fail.jsonata(scope, "missingEventId", {
+						error: "sfnResume.MissingEventId",
+						cause:
+							"A barrier with expectedCount counts events by their id, which the input does not have",
+					}),
+				);
+}
+
+/**
+ * Builds the resume definition in JSONata, with the same states and state data as the JSONPath definition
+ * Results are merged into the state input under the name of the state, where JSONPath uses resultPath.
+ * The failure condition must be a JSONata condition, and the resume output is evaluated against the event.
+ */
+function createJsonataDefinition(
+	scope: Construct,
+	options: ResumeStateMachineOptions,
+	tokenResources: string[],
+): sfn.IChainable {
+	const table = options.table;
+	const resumeId = `$states.input.${RESUME_ID_FIELD}`;
+	const mergeInto = (field: string, value: string) =>
+		`{% $merge([$states.input, {"${field}": ${value}}]) %}`;
+
+	/**
+	 * Sends a success signal to a paused workflow using the stored task token
+	 */
+	const sendTaskSuccess = tasks.CallAwsService.jsonata(
+		scope,
+		"sendTaskSuccess",
+		{
+			service: "sfn",
+			action: "sendTaskSuccess",
+			parameters: {
+				TaskToken: "{% $states.input.getResumeToken.Item.token.S %}",
+				Output: options.resumeOutput?.value ?? {
+					status: "resume",
+				},
+			},
+			outputs: mergeInto("sendTaskSuccess", "$states.result"),
+			iamResources: tokenResources,
+		},
+	);
+
+	/**
+	 * Sends a failure signal to a paused workflow when the event matches the failure condition
+	 * @param {string} options.failureError - Error name, literal, JSON path or JSONata expression
+	 * @param {string} options.failureCause - Cause, literal, JSON path or JSONata expression
+	 */
+	const sendTaskFailure = options.failureCondition
+		? tasks.CallAwsService.jsonata(scope, "sendTaskFailure", {
+				service: "sfn",
+				action: "sendTaskFailure",
+				parameters: {
+					TaskToken: "{% $states.input.getResumeToken.Item.token.S %}",
+					Error: literalOrJsonata(options.failureError ?? "sfnResume.Failure"),
+					Cause: options.failureCause
+						? literalOrJsonata(options.failureCause)
+						: "{% $string($states.input.detail) %}",
+				},
+				outputs: mergeInto("sendTaskFailure", "$states.result"),
+				iamResources: tokenResources,
+			})
+		: undefined;
+
+	/**
+	 * Deletes the resume token, in fan-out mode the one of the resumed waiter
+	 */
+	const deleteResumeToken = tasks.DynamoDeleteItem.jsonata(
+		scope,
+		"deleteResumeToken",
+		{
+			key: {
+				id: tasks.DynamoAttributeValue.fromString(`{% ${resumeId} %}`),
+				...(options.fanOut && {
+					[FANOUT_SORT_KEY]: tasks.DynamoAttributeValue.fromString(
+						`{% $states.input.getResumeToken.Item.${FANOUT_SORT_KEY}.S %}`,
+					),
+				}),
+			},
+			table: table,
+			outputs: "{% $states.input %}",
+		},
+	);
+
+	/**
+	 * Retries the resume tasks on transient errors and treats closed tokens as already resumed
+	 */
+	const resumeRetry = options.resumeRetry ?? DEFAULT_RESUME_RETRY;
+	const markResumed = withResumedMarker(
+		scope,
+		options,
+		withLifecycle(scope, options, deleteResumeToken),
+	);
+	const tokenAlreadyClosed = sfn.Pass.jsonata(scope, "tokenAlreadyClosed").next(
+		markResumed,
+	);
+	for (const sendTask of [sendTaskSuccess, sendTaskFailure]) {
+		sendTask
+			?.addRetry({ errors: CLOSED_TOKEN_ERRORS, maxAttempts: 0 })
+			.addRetry(resumeRetry)
+			.addCatch(tokenAlreadyClosed, {
+				errors: CLOSED_TOKEN_ERRORS,
+				outputs: mergeInto(CLOSED_TOKEN_FIELD, "$states.errorOutput"),
+			});
+	}
+	deleteResumeToken.addRetry(resumeRetry);
+
+	const afterResume = withTimeToResume(scope, options, markResumed);
+
+	const resumeCall: sfn.IChainable =
+		options.failureCondition && sendTaskFailure
+			? sfn.Choice.jsonata(scope, "isFailure")
+					.when(options.failureCondition, sendTaskFailure)
+					.otherwise(sendTaskSuccess)
+					.afterwards()
+			: sendTaskSuccess;
+
+	/**
+	 * Retrieves the resume token, or in fan-out mode the tokens of all waiting executions
+	 */
+	let lookup: sfn.TaskStateBase;
+	let resume: sfn.IChainable;
+	let hasToken: string;
+	if (options.fanOut) {
+		const resumeWaiters = sfn.Map.jsonata(scope, "resumeWaiters", {
+			items: sfn.ProvideItems.jsonata(
+				"{% $states.input.queryResumeTokens.Items %}",
+			),
+			itemSelector: {
+				event: "{% $states.input %}",
+				waiter: {
+					getResumeToken: { Item: "{% $states.context.Map.Item.Value %}" },
+				},
+			},
+			outputs: "{% $states.input %}",
+		});
+		resumeWaiters.itemProcessor(
+			sfn.Pass.jsonata(scope, "prepareWaiter", {
+				outputs: "{% $merge([$states.input.event, $states.input.waiter]) %}",
+			})
+				.next(resumeCall)
+				.next(afterResume),
+		);
+		lookup = tasks.CallAwsService.jsonata(scope, "queryResumeTokens", {
+			service: "dynamodb",
+			action: "query",
+			parameters: {
+				TableName: table.tableName,
+				KeyConditionExpression: "id = :id",
+				ExpressionAttributeValues: {
+					":id": { S: `{% ${resumeId} %}` },
+				},
+				ConsistentRead: true,
+			},
+			outputs: mergeInto("queryResumeTokens", "$states.result"),
+			iamResources: [table.tableArn],
+		});
+		resume = resumeWaiters;
+		hasToken = "$count($states.input.queryResumeTokens.Items) > 0";
+	} else {
+		lookup = tasks.DynamoGetItem.jsonata(scope, "getResumeToken", {
+			key: {
+				id: tasks.DynamoAttributeValue.fromString(`{% ${resumeId} %}`),
+			},
+			table: table,
+			consistentRead: true,
+			outputs: mergeInto("getResumeToken", "$states.result"),
+		});
+		resume = sfn.Chain.start(resumeCall).next(afterResume);
+		if (options.barrier) {
+			const markJob = createBarrierStates(
+				scope,
+				{ ...options, barrier: options.barrier },
+				tokenResources,
+			);
+			resume = options.failureCondition
+				? sfn.Choice.jsonata(scope, "isJobFailure")
+						.when(
+							options.failureCondition,
+							sfn.Pass.jsonata(scope, "markJobFailed", {
+								outputs: mergeInto("jobFailed", "true"),
+							}).next(markJob),
+						)
+						.otherwise(markJob)
+				: markJob;
+		}
+		hasToken = "$exists($states.input.getResumeToken.Item)";
+	}
+
+	/**
+	 * Retries the lookup with exponential backoff while the token is not stored yet
+	 * @param {cdk.Duration} options.earlyEventWindow - How long the lookup is retried
+	 */
+	const earlyEventWindow = options.earlyEventWindow ?? cdk.Duration.minutes(1);
+	const retryDelays = resumeTokenRetryDelays(earlyEventWindow);
+
+	const hasResumeToken = sfn.Choice.jsonata(scope, "hasResumeToken").when(
+		sfn.Condition.jsonata(`{% ${hasToken} %}`),
+		resume,
+	);
+	if (retryDelays.length) {
+		const waitForResumeToken = sfn.Wait.jsonata(scope, "waitForResumeToken", {
+			time: sfn.WaitTime.seconds(
+				"{% $states.input.resumeTokenRetry.seconds %}",
+			),
+		}).next(lookup);
+		hasResumeToken.when(
+			sfn.Condition.jsonata(
+				"{% $not($exists($states.input.resumeTokenRetry)) %}",
+			),
+			sfn.Pass.jsonata(scope, "startTokenRetry", {
+				outputs: mergeInto(
+					"resumeTokenRetry",
+					`{"attempt": 0, "seconds": ${retryDelays[0]}}`,
+				),
+			}).next(waitForResumeToken),
+		);
+		if (retryDelays.length > 1) {
+			hasResumeToken.when(
+				sfn.Condition.jsonata(
+					`{% $states.input.resumeTokenRetry.attempt < ${retryDelays.length - 1} %}`,
+				),
+				sfn.Pass.jsonata(scope, "countTokenRetry", {
+					outputs: mergeInto(
+						"resumeTokenRetry",
+						'{"attempt": $states.input.resumeTokenRetry.attempt + 1, "seconds": $min([$power(2, $states.input.resumeTokenRetry.attempt + 1), 60])}',
+					),
+				}).next(waitForResumeToken),
+			);
+		}
+	}
+
+	/**
+	 * Succeeds for a redelivered event of an ID that was already resumed, once the retry window has passed
+	 */
+	const getResumedMarker = tasks.DynamoGetItem.jsonata(
+		scope,
+		"getResumedMarker",
+		{
+			key: resumedMarkerKey(
+				options,
+				`{% '${RESUMED_MARKER_PREFIX}' & ${resumeId} %}`,
+			),
+			table: table,
+			consistentRead: true,
+			outputs: mergeInto("getResumedMarker", "$states.result"),
+		},
+	);
+	getResumedMarker.addRetry(resumeRetry).next(
+		sfn.Choice.jsonata(scope, "isAlreadyResumed")
+			.when(
+				sfn.Condition.jsonata(
+					"{% $exists($states.input.getResumedMarker.Item) %}",
+				),
+				sfn.Succeed.jsonata(scope, "alreadyResumed"),
+			)
+			.otherwise(
+				sfn.Fail.jsonata(scope, "resumeTokenNotFound", {
+					error: "sfnResume.TokenNotFound",
+					cause: `No resume token was stored within ${earlyEventWindow.toHumanString()} of the event`,
+				}),
+			),
+	);
+	hasResumeToken.otherwise(getResumedMarker);
+	lookup.addRetry(resumeRetry).next(hasResumeToken);
+
+	/**
+	 * Resolves the ID from the sfnResumeId field of triggers, or from pathToIdWorkflow for EventBridge events
+	 * @param {string} options.pathToIdWorkflow - JSON path to the ID in EventBridge events
+	 */
+	const resolveResumeId = sfn.Choice.jsonata(scope, "hasResumeId")
+		.when(
+			sfn.Condition.jsonata(`{% $exists(${resumeId}) and ${resumeId} != "" %}`),
+			lookup,
+		)
+		.when(
+			sfn.Condition.jsonata(`{% $exists(${resumeId}) %}`),
+			sfn.Fail.jsonata(scope, "emptyResumeId", {
+				error: "sfnResume.MissingId",
+				cause: EMPTY_ID_CAUSE,
+			}),
+		);
+	// An ID missing at pathToIdWorkflow resolves to an empty ID, so it cannot loop
+	return resolveResumeId.otherwise(
+		options.pathToIdWorkflow
+			? sfn.Pass.jsonata(scope, "resolveResumeId", {
+					outputs: mergeInto(
+						RESUME_ID_FIELD,
+						`($id := ${jsonPathToJsonata(options.pathToIdWorkflow)}; $exists($id) ? $id : "")`,
+					),
+				}).next(resolveResumeId)
+			: sfn.Fail.jsonata(scope, "missingResumeId", {
+					error: "sfnResume.MissingId",
+					cause:
+						"The input has no sfnResumeId and no pathToIdWorkflow is configured",
+				}),
+	);
+}
+
+/**
+ * Creates the state machine that resumes paused workflows, with its role and log group
+ * The state machine executes the following steps in sequence:
+ * 1. Resolves the ID and retrieves a resume token from DynamoDB, retrying while it is not stored yet
+ * 2. Sends a success signal, or a failure signal if the failure condition matches, to the paused workflow
+ * 3. Optionally publishes the lifecycle event and records the wait in the history table
+ * 4. Marks the ID as resumed and deletes the resume token from DynamoDB
+ */
+export function createResumeStateMachine(
+	scope: Construct,
+	options: ResumeStateMachineOptions,
+): sfn.StateMachine {
+	const stack = cdk.Stack.of(scope);
+	const table = options.table;
+	const tokenResources =
+		options.taskTokenResources ?? taskTokenResources(scope, []);
+
+	/**
+	 * Express workflows run for at most five minutes, which must cover the lookups of an early event
+	 */
+	if (
+		options.stateMachineType === sfn.StateMachineType.EXPRESS &&
+		(options.earlyEventWindow?.toSeconds() ?? 60) > 240
+	) {
+		throw new Error(
+			"earlyEventWindow cannot be longer than 4 minutes with an EXPRESS state machine",
+		);
+	}
+
+	/**
+	 * Builds the resume definition in the configured query language
+	 * @param {sfn.QueryLanguage} options.queryLanguage - JSONata, or JSONPath by default
+	 */
+	const definition =
+		options.queryLanguage === sfn.QueryLanguage.JSONATA
+			? createJsonataDefinition(scope, options, tokenResources)
+			: createJsonPathDefinition(scope, options, tokenResources);
+
+	/**
+	 * Create a dedicated IAM role for the Step Function
+	 * with permissions to access DynamoDB and send task success signals
+	 */
+	const sfnRole =
+		options.role ||
+		new iam.Role(scope, "ResumeWorkflowRole", {
+			assumedBy: new iam.ServicePrincipal("states.amazonaws.com"),
+			description: "Role for the Step Functions Resume Workflow",
+		});
+
+	// Grant DynamoDB permissions to the default and to a supplied role
+	table.grantReadWriteData(sfnRole);
+	options.historyTable?.grantWriteData(sfnRole);
+
+	/**
+	 * Grants to a role that was not created in this app are silently dropped
+	 * when the role is immutable or in another account
+	 */
+	if (options.role && !cdk.Resource.isOwnedResource(options.role)) {
+		cdk.Annotations.of(scope).addWarningV2(
+			"sfnResume:importedRole",
+			`The resume workflow role ${options.role.roleName} was not created in this app and may not receive the grants. ` +
+				"It needs dynamodb:GetItem, dynamodb:Query and dynamodb:DeleteItem on the table, " +
+				"states:SendTaskSuccess and states:SendTaskFailure on the paused state machines, " +
+				"and the CloudWatch Logs and X-Ray permissions of the state machine.",
+		);
+	}
+
+	/**
+	 * @param {string} options.nameSuffix - Suffix to append to state machine name
+	 * @param {string} stack.stackName - Stack name prefix for state machine
+	 * @param {sfn.IChainable} definition - State machine workflow definition
+	 * @param {cdk.RemovalPolicy} options.removalPolicy - Policy for resource removal
+	 * @param {kms.IKey} options.encryptionKey - Key of the log group and the execution data
+	 */
+	validateName(
+		options.nameSuffix,
+		`${stack.stackName}_${options.nameSuffix}`,
+		80,
+		"state machine",
+	);
+	const stateMachine = new sfn.StateMachine(scope, `${options.nameSuffix}`, {
+		stateMachineName: `${stack.stackName}_${options.nameSuffix}`,
+		definitionBody: sfn.DefinitionBody.fromChainable(definition),
+		queryLanguage: options.queryLanguage,
+		stateMachineType: options.stateMachineType,
+		removalPolicy: options.removalPolicy,
+		...createStateMachineLogging(
+			scope,
+			`${stack.stackName}_${options.nameSuffix}_logs`,
+			`/aws/vendedlogs/states/${stack.stackName}/${options.nameSuffix}`,
+			options,
+		),
+		tracingEnabled: true,
+		role: sfnRole,
+	});
+
+	NagSuppressions.addResourceSuppressions(
+		sfnRole,
+		[
+			{
+				id: "AwsSolutions-IAM5",
+				reason:
+					"Task tokens can resume any state machine in the account until the paused state machines are granted with grantResume.",
+				appliesTo: [
+					"Resource::arn:aws:states:<AWS::Region>:<AWS::AccountId>:*",
+				],
+			},
+			...(options.publishMetrics
+				? [
+						{
+							id: "AwsSolutions-IAM5",
+							reason:
+								"PutMetricData does not support resource-level permissions.",
+							appliesTo: ["Resource::*"],
+						},
+					]
+				: []),
+			...(table.encryptionKey ? tableKeySuppressions : []),
+			...stateMachineRoleSuppressions,
+		],
+		true,
+	);
+
+	if (
+		options.stateMachineType === sfn.StateMachineType.EXPRESS &&
+		!options.logLevel
+	) {
+		NagSuppressions.addResourceSuppressions(stateMachine, [
+			{
+				id: "AwsSolutions-SF1",
+				reason:
+					"Express workflows log errors by default to keep the cost of high-volume resumes low.",
+			},
+		]);
+	}
+
+	return stateMachine;
+}
+
+export interface ProgressStateMachineOptions
+	extends StateMachineLoggingOptions {
+	table: dynamodb.ITable;
+	nameSuffix: string;
+	pathToIdWorkflow?: string;
+	fanOut?: boolean;
+	/**
+	 * Stores the event detail and the time of the latest progress event on the item
+	 */
+	recordProgress?: boolean;
+	resumeRetry?: sfn.RetryProps;
+	/**
+	 * IAM resources of SendTaskHeartbeat, see taskTokenResources
+	 */
+	taskTokenResources?: string[];
+}
+
+/**
+ * Creates the state machine that sends heartbeats to paused workflows on progress events, with its role and log group
+ * The tokens stay stored, so a later resume event still resumes the executions.
+ * The state machine executes the following steps in sequence:
+ * 1. Resolves the ID and retrieves the tokens stored under it, none when no execution waits yet
+ * 2. Sends a heartbeat to every waiting execution, skipping closed tokens
+ * 3. Records the progress on the item when recordProgress is set
+ */
+export function createProgressStateMachine(
+	scope: Construct,
+	options: ProgressStateMachineOptions,
+): sfn.StateMachine {
+	const stack = cdk.Stack.of(scope);
+	const table = options.table;
+	const resumeRetry = options.resumeRetry ?? DEFAULT_RESUME_RETRY;
+	const resumeId = `$states.input.${RESUME_ID_FIELD}`;
+
+	/**
+	 * Retrieves the tokens of the ID, from the sfnResumeId field of triggers or from pathToIdWorkflow
+	 * The event is kept in a variable for recording the progress
+	 */
+	const queryWaiters = tasks.CallAwsService.jsonata(scope, "queryWaiters", {
+		service: "dynamodb",
+		action: "query",
+		parameters: {
+			TableName: table.tableName,
+			KeyConditionExpression: "id = :id",
+			ExpressionAttributeValues: {
+				":id": {
+					S: options.pathToIdWorkflow
+						? `{% $exists(${resumeId}) ? ${resumeId} : ${jsonPathToJsonata(options.pathToIdWorkflow)} %}`
+						: `{% ${resumeId} %}`,
+				},
+			},
+			ConsistentRead: true,
+		},
+		assign: { event: "{% $states.input %}" },
+		outputs: "{% $states.result.Items %}",
+		iamResources: [table.tableArn],
+	});
+	queryWaiters.addRetry(resumeRetry);
+
+	/**
+	 * Sends a heartbeat to a waiting execution, which resets the heartbeat timeout of its pause task
+	 * Closed tokens are not retried, the execution was resumed, timed out or finished in the meantime
+	 */
+	const sendTaskHeartbeat = tasks.CallAwsService.jsonata(
+		scope,
+		"sendTaskHeartbeat",
+		{
+			service: "sfn",
+			action: "sendTaskHeartbeat",
+			parameters: {
+				TaskToken: "{% $states.input.token.S %}",
+			},
+			outputs: "{% $states.input %}",
+			iamResources: options.taskTokenResources ?? taskTokenResources(scope, []),
+		},
+	);
+	sendTaskHeartbeat
+		.addRetry({ errors: CLOSED_TOKEN_ERRORS, maxAttempts: 0 })
+		.addRetry(resumeRetry)
+		.addCatch(sfn.Pass.jsonata(scope, "tokenAlreadyClosed"), {
+			errors: CLOSED_TOKEN_ERRORS,
+		});
+
+	/**
+	 * Stores the event detail and the time of the progress event on the item
+	 * The condition keeps a token that was deleted by a resume in the meantime from being recreated
+	 * @param {boolean} options.recordProgress - Records the latest progress
+	 */
+	let heartbeat: sfn.IChainable = sendTaskHeartbeat;
+	if (options.recordProgress) {
+		const recordProgress = tasks.CallAwsService.jsonata(
+			scope,
+			"recordProgress",
+			{
+				service: "dynamodb",
+				action: "updateItem",
+				parameters: {
+					TableName: table.tableName,
+					Key: {
+						id: { S: "{% $states.input.id.S %}" },
+						...(options.fanOut && {
+							[FANOUT_SORT_KEY]: {
+								S: `{% $states.input.${FANOUT_SORT_KEY}.S %}`,
+							},
+						}),
+					},
+					UpdateExpression:
+						"SET progress = :progress, progressAt = :progressAt",
+					ConditionExpression: "attribute_exists(id)",
+					ExpressionAttributeValues: {
+						":progress": { S: "{% $string($event.detail) %}" },
+						":progressAt": { S: "{% $now() %}" },
+					},
+				},
+				iamResources: [table.tableArn],
+			},
+		);
+		recordProgress
+			.addRetry({
+				errors: ["DynamoDb.ConditionalCheckFailedException"],
+				maxAttempts: 0,
+			})
+			.addRetry(resumeRetry)
+			.addCatch(sfn.Pass.jsonata(scope, "tokenAlreadyDeleted"), {
+				errors: ["DynamoDb.ConditionalCheckFailedException"],
+			});
+		heartbeat = sendTaskHeartbeat.next(recordProgress);
+	}
+
+	const sendHeartbeats = sfn.Map.jsonata(scope, "sendHeartbeats", {
+		items: sfn.ProvideItems.jsonata("{% $states.input %}"),
+		maxConcurrency: 10,
+	});
+	sendHeartbeats.itemProcessor(heartbeat);
+
+	/**
+	 * Dedicated IAM role for the progress workflow
+	 * with permissions to query and update tokens and send heartbeats
+	 */
+	const role = new iam.Role(scope, "ProgressWorkflowRole", {
+		assumedBy: new iam.ServicePrincipal("states.amazonaws.com"),
+		description: "Role for the Step Functions Resume Progress Workflow",
+	});
+	table.encryptionKey?.grantEncryptDecrypt(role);
+
+	validateName(
+		options.nameSuffix,
+		`${stack.stackName}_${options.nameSuffix}_progress`,
+		80,
+		"progress state machine",
+	);
+	const stateMachine = new sfn.StateMachine(
+		scope,
+		`${options.nameSuffix}_progress`,
+		{
+			stateMachineName: `${stack.stackName}_${options.nameSuffix}_progress`,
+			queryLanguage: sfn.QueryLanguage.JSONATA,
+			definitionBody: sfn.DefinitionBody.fromChainable(
+				queryWaiters.next(sendHeartbeats),
+			),
+			stateMachineType: options.stateMachineType,
+			removalPolicy: options.removalPolicy,
+			...createStateMachineLogging(
+				scope,
+				`${stack.stackName}_${options.nameSuffix}_progress_logs`,
+				`/aws/vendedlogs/states/${stack.stackName}/${options.nameSuffix}-progress`,
+				options,
+			),
+			tracingEnabled: true,
+			role: role,
+		},
+	);
+
+	NagSuppressions.addResourceSuppressions(
+		role,
+		[
+			{
+				id: "AwsSolutions-IAM5",
+				reason:
+					"Task tokens can resume any state machine in the account until the paused state machines are granted with grantResume.",
+				appliesTo: [
+					"Resource::arn:aws:states:<AWS::Region>:<AWS::AccountId>:*",
+				],
+			},
+			...(table.encryptionKey ? tableKeySuppressions : []),
+			...stateMachineRoleSuppressions,
+		],
+		true,
+	);
+
+	if (
+		options.stateMachineType === sfn.StateMachineType.EXPRESS &&
+		!options.logLevel
+	) {
+		NagSuppressions.addResourceSuppressions(stateMachine, [
+			{
+				id: "AwsSolutions-SF1",
+				reason:
+					"Express workflows log errors by default to keep the cost of frequent progress events low.",
+			},
+		]);
+	}
+
+	return stateMachine;
+}
+
+/**
+ * Sends the status change events of failed, timed out and aborted resume executions to a queue,
+ * the events include the execution input for redriving
+ * Express workflows emit no status change events, so no rule is created for them.
+ */
+export function routeFailedResumes(
+	scope: Construct,
+	stateMachine: sfn.IStateMachine,
+	queue: sqs.IQueue,
+	stateMachineType?: sfn.StateMachineType,
+): events.Rule | undefined {
+	if (stateMachineType === sfn.StateMachineType.EXPRESS) {
+		cdk.Annotations.of(scope).addWarningV2(
+			"sfnResume:expressDeadLetterQueue",
+			"EXPRESS state machines emit no execution status change events, so failed resumes are not sent to the dead-letter queue. " +
+				"Only events that could not be delivered to the resume workflow are.",
+		);
+		return undefined;
+	}
+	return new events.Rule(scope, "failedResumeRule", {
+		description: "sfnResume failed resume executions",
+		eventPattern: {
+			source: ["aws.states"],
+			detailType: ["Step Functions Execution Status Change"],
+			detail: {
+				stateMachineArn: [stateMachine.stateMachineArn],
+				status: ["FAILED", "TIMED_OUT", "ABORTED"],
+			},
+		},
+		targets: [new targets.SqsQueue(queue)],
+	});
+}
@@ -3,253 +3,1092 @@
 
 import { Construct } from "constructs";
 import * as cdk from "aws-cdk-lib";
-import { NagSuppressions } from "cdk-nag";
+import {
+	createBarrierPauseTask,
+	createPauseTask,
+	createProgressStateMachine,
+	createResumeStateMachine,
+	createResumeTable,
+	FANOUT_SORT_KEY,
+	PauseTaskOptions,
+	routeFailedResumes,
+	taskTokenResources,
+	TIME_TO_RESUME_METRIC,
+} from "./resumeWorkflow";
+import { createResumeFunction } from "./resumeFunction";
+import {
+	createHistoryTable,
+	createLifecyclePipe,
+	LIFECYCLE_EVENT_SOURCE,
+} from "./lifecycle";
+import { METRIC_NAMESPACE, SfnResumeReaper } from "./sfnResumeReaper";
+import { SfnResumeOperator } from "./sfnResumeOperator";
+import {
+	SfnResumeStartAndWait,
+	SfnResumeStartAndWaitOptions,
+} from "./sfnResumeStartAndWait";
+import { EventBridgeResumeTrigger, IResumeTrigger } from "./triggers";
+import { parseJsonPath } from "./jsonata";
+import {
+	BATCH_JOB,
+	CODE_BUILD,
+	ECS_TASK,
+	GLUE_JOB_RUN,
+	MEDIA_CONVERT_JOB,
+	presetProps,
+	TRANSCRIBE_JOB,
+	TRANSLATE_TEXT_JOB,
+} from "./presets";
+import { ResumePath } from "./resumePath";
+import { resolveIdPaths, validateBarrier } from "./validation";
 
 import {
+	aws_backup as backup,
+	aws_cloudwatch as cloudwatch,
 	aws_dynamodb as dynamodb,
 	aws_stepfunctions as sfn,
 	aws_stepfunctions_tasks as tasks,
 	aws_events as events,
-	aws_events_targets as targets,
 	aws_iam as iam,
+	aws_kms as kms,
+	aws_lambda as lambda,
+	aws_pipes as pipes,
+	aws_sqs as sqs,
 } from "aws-cdk-lib";
 
-export interface props {
-	pathToIdPauseTask: string;
-	pathToIdWorkflow: string;
-	removalPolicy: cdk.RemovalPolicy;
-	nameSuffix: string;
-	eventPattern: events.EventPattern;
-	role?: iam.IRole;
+/**
+ * Provisioned capacity of the token table, auto-scaled between the minimum and the maximum
+ */
+export interface ResumeTableCapacity {
+	/**
+	 * Minimum read and write capacity units, also the initial capacity
+	 */
+	readonly minCapacity: number;
+	/**
+	 * Maximum read and write capacity units
+	 */
+	readonly maxCapacity: number;
+	/**
+	 * Utilisation the capacity is scaled to
+	 * @default 70
+	 */
+	readonly targetUtilizationPercent?: number;
+}
+
+/**
+ * Barrier of the pause task, which resumes the workflow after several related jobs completed
+ * The workflow is resumed with {"results": {<job ID>: <event detail>}} of the counted jobs.
+ * Set either pathToJobIds or expectedCount.
+ */
+export interface ResumeBarrier {
+	/**
+	 * JSON path to the array of job IDs in the caller's state, at most 99 distinct IDs.
+	 * Completion events carry the job ID, read from pathToIdWorkflow.
+	 * @default - expectedCount events are counted
+	 */
+	readonly pathToJobIds?: string | ResumePath;
+	/**
+	 * Number of completion events that release the barrier.
+	 * Events carry the ID of the barrier, read from pathToIdWorkflow, and are told apart by their event ID:
+	 * the EventBridge event ID, or the message ID of SQS and SNS triggers. Events without one, such as HTTP callbacks,
+	 * fail with "sfnResume.MissingEventId".
+	 * @default - the jobs of pathToJobIds
+	 */
+	readonly expectedCount?: number;
+	/**
+	 * Number of completed jobs that release the barrier, the remaining jobs are ignored
+	 * @default - all jobs
+	 */
+	readonly quorum?: number;
+}
+
+/**
+ * Backend that resumes the paused workflows when an event arrives
+ */
+export enum ResumeMode {
+	/**
+	 * A resume state machine execution per event, with all resume options
+	 */
+	STATE_MACHINE = "STATE_MACHINE",
+	/**
+	 * A function invocation per event, which deletes the token and sends SendTaskSuccess.
+	 * Cheaper and faster, but without failureCondition, resumeOutput and the other state machine options.
+	 */
+	LAMBDA = "LAMBDA",
+}
+
+/**
+ * Props of the resume state machine that have no effect in the LAMBDA resume mode
+ */
+const STATE_MACHINE_PROPS = [
+	"role",
+	"failureCondition",
+	"failureError",
+	"failureCause",
+	"resumeOutput",
+	"earlyEventWindow",
+	"resumeRetry",
+	"queryLanguage",
+	"stateMachineType",
+	"barrier",
+	"lifecycleEventBus",
+	"history",
+] as const;
+
+/**
+ * Props of SfnResume other than the ID in the caller's state, shared with the service presets
+ */
+export interface SfnResumeBaseProps {
+	/**
+	 * JSON path to the ID in the EventBridge events matched by eventPattern,
+	 * and by EventBridge triggers without their own pathToId, usually a field of detail.
+	 * Several paths build a composite ID in the same order as pathToIdPauseTask.
+	 */
+	readonly pathToIdWorkflow?: string | ResumePath | (string | ResumePath)[];
+	readonly removalPolicy: cdk.RemovalPolicy;
+	/**
+	 * Suffix of the resource names, letters, digits, "-" and "_" only.
+	 * The stack name and the suffix must fit the 80 characters of a state machine name
+	 * including "_reaper" and "_operator", and the 64 characters of a function name in the LAMBDA resume mode.
+	 */
+	readonly nameSuffix: string;
+	/**
+	 * Pattern of the EventBridge events that resume the workflow
+	 * @default - no EventBridge rule, triggers must be set
+	 */
+	readonly eventPattern?: events.EventPattern;
+	/**
+	 * Pattern of the EventBridge events that report the progress of a job, e.g. RUNNING state changes.
+	 * Matched events send a heartbeat to the executions waiting on the ID, read from pathToIdWorkflow,
+	 * without resuming them or deleting their tokens, so the pause task can have a short heartbeat.
+	 * @default - no progress events
+	 */
+	readonly progressEventPattern?: events.EventPattern;
+	/**
+	 * Records the detail of the latest progress event as JSON in the "progress" attribute of the stored token,
+	 * and its time in "progressAt"
+	 * @default false
+	 */
+	readonly recordProgress?: boolean;
+	/**
+	 * Additional sources of completion signals, e.g. SQS queues, SNS topics or HTTP callbacks
+	 * @default - none
+	 */
+	readonly triggers?: IResumeTrigger[];
+	readonly role?: iam.IRole;
+	/**
+	 * Condition evaluated against the matched event. When it is true the paused
+	 * workflow is resumed with SendTaskFailure instead of SendTaskSuccess.
+	 * The eventPattern must also match the failure events for this to apply.
+	 */
+	readonly failureCondition?: sfn.Condition;
+	/**
+	 * Error name sent with SendTaskFailure, either a literal or a JSON path into the event.
+	 * @default "sfnResume.Failure"
+	 */
+	readonly failureError?: string;
+	/**
+	 * Cause sent with SendTaskFailure, either a literal or a JSON path into the event.
+	 * @default the event detail serialised as JSON
+	 */
+	readonly failureCause?: string;
+	/**
+	 * Output sent to the paused workflow with SendTaskSuccess, e.g. sfn.TaskInput.fromJsonPathAt("$.detail")
+	 * to pass the event detail back, or sfn.TaskInput.fromObject() for a payload template.
+	 * @default { status: "resume" }
+	 */
+	readonly resumeOutput?: sfn.TaskInput;
+	/**
+	 * Where the resume output is placed in the caller's state by the pause task
+	 * @default sfn.JsonPath.DISCARD
+	 */
+	readonly resultPath?: string;
+	/**
+	 * Selects fields from the resume output before it is placed at resultPath
+	 * @default - the whole resume output
+	 */
+	readonly resultSelector?: { [key: string]: any };
+	/**
+	 * Maximum time the pause task waits for the resume event. Also sets the DynamoDB TTL
+	 * of the stored token so abandoned entries are removed from the table.
+	 * JSONPath cannot read the current time, so the pause task is then rendered as a JSONata state,
+	 * and resultPath and resultSelector may only use plain field references. Others throw at synth.
+	 * @default - the Step Functions maximum of one year, without TTL
+	 */
+	readonly timeout?: cdk.Duration;
+	/**
+	 * Heartbeat timeout of the pause task
+	 * @default - no heartbeat
+	 */
+	readonly heartbeat?: cdk.Duration;
+	/**
+	 * Tokens stored longer ago than this are failed with a "sfnResume.Timeout" error
+	 * and deleted by a scheduled sweep
+	 * @default - no sweep
+	 */
+	readonly reaperMaxAge?: cdk.Duration;
+	/**
+	 * How often the sweep runs when reaperMaxAge is set
+	 * @default events.Schedule.rate(cdk.Duration.hours(1))
+	 */
+	readonly reaperSchedule?: events.Schedule;
+	/**
+	 * Event bus the resume rule is created on, e.g. a custom bus that producers publish completion events to
+	 * @default - the account's default event bus
+	 */
+	readonly eventBus?: events.IEventBus;
+	/**
+	 * Accounts allowed to put events on the event bus, for producers that forward completion events from another account
+	 * @default - no cross-account access
+	 */
+	readonly sourceAccounts?: string[];
+	/**
+	 * Archive the events matched by the resume rule so they can be replayed to resume stuck workflows
+	 * @default false
+	 */
+	readonly archive?: boolean;
+	/**
+	 * How long archived events are kept
+	 * @default - indefinitely
+	 */
+	readonly archiveRetention?: cdk.Duration;
+	/**
+	 * Stores one token per waiting execution, with the execution ID as sort key,
+	 * and resumes all of them when the event arrives. Changing it replaces the table.
+	 * @default false
+	 */
+	readonly fanOut?: boolean;
+	/**
+	 * Makes the task a barrier that stores one token and resumes the workflow
+	 * once all related jobs, or a quorum of them, reported completion.
+	 * With failureCondition the first failed job fails the workflow, otherwise failed jobs are counted with their detail.
+	 * Cannot be combined with fanOut, resumeOutput, progressEventPattern, operatorApi or reaperMaxAge.
+	 * A duplicate pause fails with DUPLICATE_BARRIER_ERROR instead of DUPLICATE_TOKEN_ERROR.
+	 * @default - the task waits on a single event
+	 */
+	readonly barrier?: ResumeBarrier;
+	/**
+	 * How long the resume workflow retries, with exponential backoff, when the event
+	 * arrives before the pause task stored the token. Afterwards it fails with "sfnResume.TokenNotFound".
+	 * @default cdk.Duration.minutes(1)
+	 */
+	readonly earlyEventWindow?: cdk.Duration;
+	/**
+	 * Retry policy of the resume tasks. Tokens of executions that were already resumed,
+	 * timed out or finished are never retried and treated as resumed.
+	 * @default - 3 attempts with an interval of 1 second and a backoff rate of 2
+	 */
+	readonly resumeRetry?: sfn.RetryProps;
+	/**
+	 * Queue that receives the events the resume rule could not deliver,
+	 * and the status change events of failed resume executions
+	 * @default - no dead-letter queue
+	 */
+	readonly deadLetterQueue?: sqs.IQueue;
+	/**
+	 * How often the resume rule retries delivering an event
+	 * @default 185
+	 */
+	readonly eventRetryAttempts?: number;
+	/**
+	 * How long the resume rule retries delivering an event
+	 * @default cdk.Duration.hours(24)
+	 */
+	readonly maxEventAge?: cdk.Duration;
+	/**
+	 * Publishes the TimeToResume metric and creates alarms on failed resumes
+	 * and failed rule invocations, with a dashboard of the instance
+	 * @default false
+	 */
+	readonly monitoring?: boolean;
+	/**
+	 * Customer-managed key of the token table, the log groups and the execution data of the state machines.
+	 * The key policy allows CloudWatch Logs and the log delivery, and the roles are granted the key.
+	 * @default - AWS owned keys
+	 */
+	readonly encryptionKey?: kms.IKey;
+	/**
+	 * Log level of the resume, reaper and progress state machines
+	 * @default sfn.LogLevel.ALL, or sfn.LogLevel.ERROR for the resume state machine when it is EXPRESS
+	 */
+	readonly logLevel?: sfn.LogLevel;
+	/**
+	 * Includes the execution data in the logs. The execution data contains the task tokens,
+	 * which can resume or fail the paused executions.
+	 * @default false
+	 */
+	readonly logExecutionData?: boolean;
+	/**
+	 * Deploys an IAM authorised REST API for operators to list, show, resume and fail waits,
+	 * with an audit table of the resumes and failures
+	 * @default false
+	 */
+	readonly operatorApi?: boolean;
+	/**
+	 * Bus that receives a WorkflowPaused, WorkflowResumed or WorkflowWaitFailed event, with source "sfnResume",
+	 * when a wait starts and ends. The events carry the ID, the paused execution and the wait duration.
+	 * WorkflowPaused is published by a pipe from the stream of the table, which a supplied table must have.
+	 * Waits failed by the reaper and closed through the operator API are published too.
+	 * Cannot be combined with barrier.
+	 * @default - no lifecycle events
+	 */
+	readonly lifecycleEventBus?: events.IEventBus;
+	/**
+	 * Keeps a record of every resumed wait in a history table: the paused and the resume execution,
+	 * the wait duration and the event that released it. The token is deleted as before.
+	 * Waits failed by the reaper and closed through the operator API are recorded too.
+	 * Cannot be combined with barrier.
+	 * @default false
+	 */
+	readonly history?: boolean;
+	/**
+	 * Query language of the pause task and the resume workflow. With JSONata the task can be used
+	 * in state machines defined in JSONata, failureCondition must be a JSONata condition,
+	 * and failureError, failureCause and resumeOutput may use JSONata expressions on the event.
+	 * @default sfn.QueryLanguage.JSONPATH
+	 */
+	readonly queryLanguage?: sfn.QueryLanguage;
+	/**
+	 * Type of the resume and progress state machines. EXPRESS is cheaper and faster for many resumes,
+	 * logs errors only by default, limits earlyEventWindow to 4 minutes
+	 * and sends no failed resume executions to the dead-letter queue.
+	 * @default sfn.StateMachineType.STANDARD
+	 */
+	readonly stateMachineType?: sfn.StateMachineType;
+	/**
+	 * Backend that resumes the paused workflows. LAMBDA resumes with one function invocation per event,
+	 * an event that arrives before the token is stored is retried by the asynchronous invocation.
+	 * @default ResumeMode.STATE_MACHINE
+	 */
+	readonly resumeMode?: ResumeMode;
+	/**
+	 * Existing table to store the tokens in instead of creating one, e.g. to keep the tokens across stack refactors.
+	 * It needs a string partition key "id", a string sort key "executionId" with fanOut,
+	 * and the TTL attribute "expiresAt" to expire resumed markers and the tokens of pause tasks with a timeout.
+	 * @default - a new table
+	 */
+	readonly table?: dynamodb.ITable;
+	/**
+	 * Enables point-in-time recovery of the table
+	 * @default false
+	 */
+	readonly pointInTimeRecovery?: boolean;
+	/**
+	 * Enables deletion protection of the table
+	 * @default false
+	 */
+	readonly deletionProtection?: boolean;
+	/**
+	 * Uses provisioned billing with auto-scaled read and write capacity
+	 * @default - on-demand billing
+	 */
+	readonly provisionedCapacity?: ResumeTableCapacity;
+	/**
+	 * Backup plan the table is added to
+	 * @default - no backups
+	 */
+	readonly backupPlan?: backup.BackupPlan;
+}
+
+export interface SfnResumeProps extends SfnResumeBaseProps {
+	/**
+	 * JSON path to the ID in the caller's state,
+	 * or several paths whose values are joined with "#" into a composite ID, e.g. tenant and job ID.
+	 * Accepts path strings, sfn.JsonPath.stringAt() expressions and ResumePath objects.
+	 */
+	readonly pathToIdPauseTask: string | ResumePath | (string | ResumePath)[];
+}
+
+/**
+ * Props of the SfnResume service presets, e.g. SfnResume.forTranslateTextJob
+ * The preset fills in eventPattern, pathToIdPauseTask, pathToIdWorkflow and failureCondition,
+ * any of them can be overridden.
+ */
+export interface SfnResumePresetProps extends SfnResumeBaseProps {
+	/**
+	 * JSON path to the ID in the caller's state
+	 * @default - the job ID field of the start call's result at startResultPath
+	 */
+	readonly pathToIdPauseTask?: string | ResumePath | (string | ResumePath)[];
+	/**
+	 * Where the caller's state keeps the result of the AWS SDK call that started the job, its resultPath
+	 * @default "$" - the result replaced the state
+	 */
+	readonly startResultPath?: string;
 }
 
+/**
+ * @deprecated Use SfnResumeProps
+ * @internal
+ */
+export interface props extends SfnResumeProps {}
+
+/**
+ * Error of the pause task when a token is already stored for the ID,
+ * e.g. another execution waits on the same job without fanOut, or the pause was retried
+ */
+export const DUPLICATE_TOKEN_ERROR = "DynamoDb.ConditionalCheckFailedException";
+
+/**
+ * Error of a barrier pause task when one of its jobs is already waited on, or the pause was retried.
+ * The barrier stores its entries in one transaction, which is canceled instead of failing a condition.
+ */
+export const DUPLICATE_BARRIER_ERROR = "DynamoDb.TransactionCanceledException";
+
 /**
  * Class that implements a workflow resume mechanism using AWS Step Functions
  * Extends the Construct class to create AWS CDK infrastructure
  * Exposes a task property that represents an AWS service call
  */
-export class sfnResume extends Construct {
+export class SfnResume extends Construct {
+	/**
+	 * DUPLICATE_TOKEN_ERROR for languages without module constants
+	 */
+	public static readonly DUPLICATE_TOKEN_ERROR = DUPLICATE_TOKEN_ERROR;
+	/**
+	 * DUPLICATE_BARRIER_ERROR for languages without module constants
+	 */
+	public static readonly DUPLICATE_BARRIER_ERROR = DUPLICATE_BARRIER_ERROR;
+	/**
+	 * Source of the lifecycle events, for languages without module constants
+	 */
+	public static readonly LIFECYCLE_EVENT_SOURCE = LIFECYCLE_EVENT_SOURCE;
+
+	/**
+	 * Waits for Amazon Translate text translation jobs started with translate:startTextTranslationJob
+	 * FAILED and STOPPED jobs fail the paused workflow, COMPLETED_WITH_ERROR jobs resume it
+	 */
+	public static forTranslateTextJob(
+		scope: Construct,
+		id: string,
+		props: SfnResumePresetProps,
+	): SfnResume {
+		return new SfnResume(scope, id, presetProps(TRANSLATE_TEXT_JOB, props));
+	}
+
+	/**
+	 * Waits for Amazon Transcribe jobs started with transcribe:startTranscriptionJob, by job name
+	 * FAILED jobs fail the paused workflow
+	 */
+	public static forTranscribeJob(
+		scope: Construct,
+		id: string,
+		props: SfnResumePresetProps,
+	): SfnResume {
+		return new SfnResume(scope, id, presetProps(TRANSCRIBE_JOB, props));
+	}
+
+	/**
+	 * Waits for AWS Glue job runs started with glue:startJobRun
+	 * FAILED, TIMEOUT, STOPPED and ERROR runs fail the paused workflow
+	 */
+	public static forGlueJobRun(
+		scope: Construct,
+		id: string,
+		props: SfnResumePresetProps,
+	): SfnResume {
+		return new SfnResume(scope, id, presetProps(GLUE_JOB_RUN, props));
+	}
+
+	/**
+	 * Waits for AWS Batch jobs submitted with batch:submitJob
+	 * FAILED jobs fail the paused workflow
+	 */
+	public static forBatchJob(
+		scope: Construct,
+		id: string,
+		props: SfnResumePresetProps,
+	): SfnResume {
+		return new SfnResume(scope, id, presetProps(BATCH_JOB, props));
+	}
+
+	/**
+	 * Waits for Amazon ECS tasks started with ecs:runTask, by the ARN of the first task
+	 * Stopped tasks fail the paused workflow unless the essential container exited with code 0
+	 */
+	public static forEcsTask(
+		scope: Construct,
+		id: string,
+		props: SfnResumePresetProps,
+	): SfnResume {
+		return new SfnResume(scope, id, presetProps(ECS_TASK, props));
+	}
+
+	/**
+	 * Waits for AWS CodeBuild builds started with codebuild:startBuild, by build ARN
+	 * FAILED, FAULT, STOPPED and TIMED_OUT builds fail the paused workflow
+	 */
+	public static forCodeBuild(
+		scope: Construct,
+		id: string,
+		props: SfnResumePresetProps,
+	): SfnResume {
+		return new SfnResume(scope, id, presetProps(CODE_BUILD, props));
+	}
+
+	/**
+	 * Waits for AWS Elemental MediaConvert jobs created with mediaconvert:createJob
+	 * ERROR and CANCELED jobs fail the paused workflow
+	 */
+	public static forMediaConvert(
+		scope: Construct,
+		id: string,
+		props: SfnResumePresetProps,
+	): SfnResume {
+		return new SfnResume(scope, id, presetProps(MEDIA_CONVERT_JOB, props));
+	}
+
 	/**
 	 * The task that should be implemented into the caller's workflow where they want to pause/resume execution.
 	 * This task will store a resume token in DynamoDB and wait for a resume signal.
 	 * When implemented, this task will pause the workflow until an event matching the configured pattern triggers the resume workflow.
 	 */
 	public readonly task: tasks.CallAwsService;
+	/**
+	 * The state machine that resumes the paused workflows, undefined in the LAMBDA resume mode
+	 */
+	public readonly stateMachine?: sfn.StateMachine;
+	/**
+	 * The function that resumes the paused workflows in the LAMBDA resume mode
+	 */
+	public readonly resumeFunction?: lambda.Function;
+	/**
+	 * The table that stores the resume tokens
+	 */
+	public readonly table: dynamodb.ITable;
+	/**
+	 * The EventBridge rule of eventPattern, undefined when only triggers are set
+	 */
+	public readonly rule?: events.Rule;
+	/**
+	 * The state machine that sends heartbeats on progress events, when progressEventPattern is set
+	 */
+	public readonly progressStateMachine?: sfn.StateMachine;
+	/**
+	 * The EventBridge rule of progressEventPattern
+	 */
+	public readonly progressRule?: events.Rule;
+	/**
+	 * The alarms created when monitoring is enabled
+	 */
+	public readonly alarms: cloudwatch.Alarm[] = [];
+	/**
+	 * The operator API, when operatorApi is set
+	 */
+	public readonly operator?: SfnResumeOperator;
+	/**
+	 * The records of the resumed waits, keyed by ID and resume time, when history is set
+	 */
+	public readonly historyTable?: dynamodb.Table;
+	/**
+	 * The pipe that publishes the WorkflowPaused events, when lifecycleEventBus is set
+	 */
+	public readonly lifecyclePipe?: pipes.CfnPipe;
+
+	private readonly resumableStateMachines: string[] = [];
+	private readonly pauseTaskOptions: PauseTaskOptions;
+	private readonly isBarrier: boolean;
 
-	constructor(scope: Construct, id: string, props: props) {
+	constructor(scope: Construct, id: string, props: SfnResumeProps) {
 		super(scope, id);
 
+		if (!props.eventPattern && !props.triggers?.length) {
+			throw new Error(
+				"sfnResume requires an eventPattern or at least one trigger",
+			);
+		}
+
+		/**
+		 * Resolves sfn.JsonPath expressions and ResumePath objects, and rejects unsupported paths at synth time
+		 */
+		const pathToIdPauseTask = resolveIdPaths(
+			this,
+			"pathToIdPauseTask",
+			props.pathToIdPauseTask,
+			true,
+		);
+		const pathToIdWorkflow =
+			props.pathToIdWorkflow === undefined
+				? undefined
+				: resolveIdPaths(this, "pathToIdWorkflow", props.pathToIdWorkflow);
+		const workflowPaths = ([] as string[]).concat(pathToIdWorkflow ?? []);
+		if (props.eventPattern && !workflowPaths.length) {
+			throw new Error(
+				"sfnResume requires pathToIdWorkflow with an eventPattern",
+			);
+		}
+		if (props.progressEventPattern && !workflowPaths.length) {
+			throw new Error(
+				"sfnResume requires pathToIdWorkflow with a progressEventPattern",
+			);
+		}
+		if (props.recordProgress && !props.progressEventPattern) {
+			throw new Error("recordProgress requires a progressEventPattern");
+		}
+		if (
+			props.eventPattern &&
+			workflowPaths.some((path) => parseJsonPath(path)[0] !== "detail")
+		) {
+			cdk.Annotations.of(this).addWarningV2(
+				"sfnResume:pathOutsideDetail",
+				`pathToIdWorkflow ${workflowPaths.join(", ")} does not point into the event detail. ` +
+					'EventBridge events carry the producer\'s fields in detail, e.g. "$.detail.jobId".',
+			);
+		}
+		if (props.resumeMode === ResumeMode.LAMBDA) {
+			const unsupported = STATE_MACHINE_PROPS.filter(
+				(prop) => props[prop] !== undefined,
+			);
+			if (unsupported.length) {
+				throw new Error(
+					`${unsupported.join(", ")} cannot be set in the LAMBDA resume mode`,
+				);
+			}
+		}
+
+		const barrier = validateBarrier(this, props);
+
 		/**
-		 * DynamoDB table that stores resume tokens1
-		 * Uses id as the partition key and pay-per-request billing mode
+		 * DynamoDB table that stores resume tokens, unless an existing table is supplied
 		 * Removal policy is configurable via props
+		 * TTL is enabled to expire resumed markers and the tokens of pause tasks with a timeout
+		 * Encrypted with the customer-managed key when encryptionKey is set
+		 * In fan-out mode the execution ID is the sort key
 		 */
-		const table = new dynamodb.Table(this, "table", {
-			partitionKey: { name: "id", type: dynamodb.AttributeType.STRING },
-			billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+		const table = createResumeTable(this, {
+			table: props.table,
 			removalPolicy: props.removalPolicy,
+			fanOut: props.fanOut,
+			encryptionKey: props.encryptionKey,
+			pointInTimeRecovery: props.pointInTimeRecovery,
+			deletionProtection: props.deletionProtection,
+			provisionedCapacity: props.provisionedCapacity,
+			backupPlan: props.backupPlan,
+			stream: props.lifecycleEventBus !== undefined,
 		});
+		this.table = table;
 
 		/**
-		 * Creates a DynamoDB PutItem task that stores a Step Functions task token
-		 * @param {string} table.tableName - The name of the DynamoDB table to update 
-		 * @param {string} props.pathToIdPauseTask - JSON path to the ID used as partition key
-		 * @param {string} sfn.JsonPath.taskToken - The task token to store in the table
-		 * @returns {tasks.CallAwsService} A Step Functions task that updates DynamoDB
+		 * Table of the resumed waits, when history is set
+		 * Point-in-time recovery is enabled, as it is kept for audits
 		 */
-		this.task = new tasks.CallAwsService(this, "putDbResumeToken", {
-			resultPath: sfn.JsonPath.DISCARD,
-			service: "dynamodb",
-			action: "putItem",
-			integrationPattern: sfn.IntegrationPattern.WAIT_FOR_TASK_TOKEN,
-			parameters: {
-				TableName: table.tableName,
-				Item: {
-					id: { "S.$": props.pathToIdPauseTask },
-					token: { S: sfn.JsonPath.taskToken }
-				},
-				ConditionExpression: "attribute_not_exists(id)"
-			},
-			iamResources: [table.tableArn],
-		});
+		if (props.history) {
+			this.historyTable = createHistoryTable(this, {
+				removalPolicy: props.removalPolicy,
+				encryptionKey: props.encryptionKey,
+			});
+		}
 
 		/**
-		 * Creates a DynamoDB GetItem task to retrieve a resume token
-		 * @param {string} resultPath - Path where the result will be stored in state data
-		 * @param {Object} key - Key to identify the item to retrieve
-		 * @param {string} props.pathToIdWorkflow - JSON path to the ID used as partition key
-		 * @param {dynamodb.Table} table - DynamoDB table to query
+		 * Task token permissions, scoped to the state machines granted with grantResume
 		 */
-		const getResumeToken = new tasks.DynamoGetItem(this, "getResumeToken", {
-			resultPath: "$.getResumeToken",
-			key: {
-				id: tasks.DynamoAttributeValue.fromString(
-					sfn.JsonPath.stringAt(props.pathToIdWorkflow),
-				),
-			},
+		const tokenResources = taskTokenResources(
+			this,
+			this.resumableStateMachines,
+		);
+
+		/**
+		 * Creates a DynamoDB PutItem task that stores a Step Functions task token
+		 * @param {string | string[]} props.pathToIdPauseTask - JSON paths to the ID used as partition key
+		 * @param {string} props.resultPath - Where the resume output lands in the caller's state
+		 * @param {cdk.Duration} props.timeout - Task timeout, also used for the TTL of the stored token
+		 * @param {sfn.QueryLanguage} props.queryLanguage - Query language of the task
+		 */
+		const pauseTaskOptions: PauseTaskOptions = {
 			table: table,
-		});
+			pathToIdPauseTask: pathToIdPauseTask,
+			resultPath: props.resultPath,
+			resultSelector: props.resultSelector,
+			timeout: props.timeout,
+			heartbeat: props.heartbeat,
+			fanOut: props.fanOut,
+			queryLanguage: props.queryLanguage,
+		};
+		this.task = barrier
+			? createBarrierPauseTask(this, "putDbBarrier", {
+					...pauseTaskOptions,
+					barrier: barrier,
+				})
+			: createPauseTask(this, "putDbResumeToken", pauseTaskOptions);
+		this.pauseTaskOptions = pauseTaskOptions;
+		this.isBarrier = barrier !== undefined;
 
 		/**
-		 * Creates a Step Functions SendTaskSuccess task
-		 * Sends a success signal to a paused workflow using the stored task token
-		 *
-		 * @param {string} resultPath - Path where the result will be stored in state data
-		 * @param {string} service - AWS service to call (sfn)
-		 * @param {string} action - API action to call (sendTaskSuccess)
-		 * @param {Object} parameters - Task parameters including:
-		 *   - TaskToken: Retrieved from DynamoDB table
-		 *   - Output: Status message to pass back
-		 * @param {string[]} iamResources - IAM resources that can be accessed
+		 * Creates the state machine that resumes the paused workflow
+		 * @param {string} props.pathToIdWorkflow - JSON path to the ID in EventBridge events
+		 * @param {sfn.Condition} props.failureCondition - Routes matching events to SendTaskFailure
+		 * @param {sfn.TaskInput} props.resumeOutput - Output sent with SendTaskSuccess
+		 * @param {boolean} props.fanOut - Resumes every execution waiting on the ID
+		 * @param {cdk.Duration} props.earlyEventWindow - How long a token that is not stored yet is retried
+		 * @param {sfn.RetryProps} props.resumeRetry - Retry policy of the resume tasks
+		 * @param {boolean} props.monitoring - Publishes the TimeToResume metric
+		 * @param {kms.IKey} props.encryptionKey - Key of the log group and the execution data
+		 * @param {sfn.QueryLanguage} props.queryLanguage - Query language of the definition
+		 * @param {sfn.StateMachineType} props.stateMachineType - STANDARD or EXPRESS
+		 * @param {ResumeMode} props.resumeMode - LAMBDA creates the resume function instead
 		 */
-		const sendTaskSuccess = new tasks.CallAwsService(this, "sendTaskSuccess", {
-			resultPath: "$.sendTaskSuccess",
-			service: "sfn",
-			action: "sendTaskSuccess",
-			parameters: {
-				TaskToken: sfn.JsonPath.stringAt("$.getResumeToken.Item.token.S"),
-				Output: {
-					staus: "resume",
-				},
-			},
-			iamResources: [
-				`arn:aws:states:${cdk.Stack.of(this).region}:${
-					cdk.Stack.of(this).account
-				}:*`,
-			],
-		});
+		const resumeTarget =
+			props.resumeMode === ResumeMode.LAMBDA
+				? {
+						resumeFunction: createResumeFunction(this, {
+							table: table,
+							removalPolicy: props.removalPolicy,
+							nameSuffix: props.nameSuffix,
+							pathToIdWorkflow:
+								typeof pathToIdWorkflow === "string"
+									? pathToIdWorkflow
+									: undefined,
+							fanOut: props.fanOut,
+							publishMetrics: props.monitoring,
+							encryptionKey: props.encryptionKey,
+							deadLetterQueue: props.deadLetterQueue,
+							taskTokenResources: tokenResources,
+						}),
+					}
+				: {
+						stateMachine: createResumeStateMachine(this, {
+							table: table,
+							removalPolicy: props.removalPolicy,
+							nameSuffix: props.nameSuffix,
+							pathToIdWorkflow:
+								typeof pathToIdWorkflow === "string"
+									? pathToIdWorkflow
+									: undefined,
+							role: props.role,
+							failureCondition: props.failureCondition,
+							failureError: props.failureError,
+							failureCause: props.failureCause,
+							resumeOutput: props.resumeOutput,
+							fanOut: props.fanOut,
+							earlyEventWindow: props.earlyEventWindow,
+							resumeRetry: props.resumeRetry,
+							publishMetrics: props.monitoring,
+							taskTokenResources: tokenResources,
+							encryptionKey: props.encryptionKey,
+							logLevel: props.logLevel,
+							logExecutionData: props.logExecutionData,
+							queryLanguage: props.queryLanguage,
+							stateMachineType: props.stateMachineType,
+							barrier: barrier,
+							lifecycleEventBus: props.lifecycleEventBus,
+							historyTable: this.historyTable,
+						}),
+					};
+		this.stateMachine = resumeTarget.stateMachine;
+		this.resumeFunction = resumeTarget.resumeFunction;
 
 		/**
-		 * Creates a DynamoDB DeleteItem task to remove a resume token entry
-		 * @param {string} props.pathToIdWorkflow - JSON path to the ID used as partition key
-		 * @param {dynamodb.Table} table - DynamoDB table to delete from
-		 * @returns {tasks.DynamoDeleteItem} A Step Functions task that deletes from DynamoDB
+		 * Publishes the WorkflowPaused events from the stream of the table,
+		 * the resume workflow publishes the WorkflowResumed and WorkflowWaitFailed events
+		 * @param {events.IEventBus} props.lifecycleEventBus - Bus of the lifecycle events
 		 */
-		const deleteResumeToken = new tasks.DynamoDeleteItem(
-			this,
-			"deleteResumeToken",
-			{
-				key: {
-					id: tasks.DynamoAttributeValue.fromString(
-						sfn.JsonPath.stringAt(props.pathToIdWorkflow),
-					),
-				},
+		if (props.lifecycleEventBus) {
+			this.lifecyclePipe = createLifecyclePipe(
+				this,
+				table,
+				props.lifecycleEventBus,
+			);
+		}
+		const bindOptions = {
+			stateMachine: this.stateMachine,
+			resumeFunction: this.resumeFunction,
+			nameSuffix: props.nameSuffix,
+			encryptionKey: props.encryptionKey,
+		};
+
+		/**
+		 * Creates an EventBridge rule that triggers the resume workflow
+		 * @param {string} props.nameSuffix - Suffix used in rule description
+		 * @param {events.EventPattern} props.eventPattern - Pattern that determines when rule is triggered
+		 * @param {events.IEventBus} props.eventBus - Event bus the rule is created on
+		 * @param {string[]} props.sourceAccounts - Accounts allowed to put events on the bus
+		 * @param {cdk.Duration} props.archiveRetention - How long archived events are kept
+		 * A composite ID is built by the rule, which passes it in the sfnResumeId field
+		 * @param {sqs.IQueue} props.deadLetterQueue - Receives events that could not be delivered
+		 */
+		if (props.eventPattern) {
+			const trigger = new EventBridgeResumeTrigger({
+				eventPattern: props.eventPattern,
+				pathToId:
+					typeof pathToIdWorkflow === "string" ? undefined : pathToIdWorkflow,
+				eventBus: props.eventBus,
+				sourceAccounts: props.sourceAccounts,
+				archive: props.archive,
+				archiveRetention: props.archiveRetention,
+				deadLetterQueue: props.deadLetterQueue,
+				retryAttempts: props.eventRetryAttempts,
+				maxEventAge: props.maxEventAge,
+			});
+			trigger.bind(this, bindOptions);
+			this.rule = trigger.rule;
+		}
+
+		/**
+		 * Creates the state machine and the EventBridge rule that send heartbeats on progress events,
+		 * in their own scope. Composite IDs are built by the rule as for resume events.
+		 * @param {events.EventPattern} props.progressEventPattern - Pattern of the progress events
+		 * @param {boolean} props.recordProgress - Stores the latest progress on the item
+		 */
+		if (props.progressEventPattern) {
+			const progress = new Construct(this, "progress");
+			this.progressStateMachine = createProgressStateMachine(progress, {
 				table: table,
-			},
+				removalPolicy: props.removalPolicy,
+				nameSuffix: props.nameSuffix,
+				pathToIdWorkflow:
+					typeof pathToIdWorkflow === "string" ? pathToIdWorkflow : undefined,
+				fanOut: props.fanOut,
+				recordProgress: props.recordProgress,
+				resumeRetry: props.resumeRetry,
+				taskTokenResources: tokenResources,
+				encryptionKey: props.encryptionKey,
+				logLevel: props.logLevel,
+				logExecutionData: props.logExecutionData,
+				stateMachineType: props.stateMachineType,
+			});
+			const trigger = new EventBridgeResumeTrigger({
+				eventPattern: props.progressEventPattern,
+				pathToId:
+					typeof pathToIdWorkflow === "string" ? undefined : pathToIdWorkflow,
+				eventBus: props.eventBus,
+				retryAttempts: props.eventRetryAttempts,
+				maxEventAge: props.maxEventAge,
+			});
+			trigger.bind(progress, {
+				stateMachine: this.progressStateMachine,
+				nameSuffix: `${props.nameSuffix} progress`,
+				encryptionKey: props.encryptionKey,
+			});
+			this.progressRule = trigger.rule;
+		}
+
+		/**
+		 * Sends failed resume executions to the dead-letter queue
+		 * The resume function sends the events it failed on itself
+		 * @param {sqs.IQueue} props.deadLetterQueue - Receives the failed execution events
+		 */
+		if (props.deadLetterQueue && this.stateMachine) {
+			routeFailedResumes(
+				this,
+				this.stateMachine,
+				props.deadLetterQueue,
+				props.stateMachineType,
+			);
+		}
+
+		/**
+		 * Connects the additional triggers, each in its own scope
+		 * @param {IResumeTrigger[]} props.triggers - Additional sources of completion signals
+		 */
+		props.triggers?.forEach((trigger, index) =>
+			trigger.bind(new Construct(this, `trigger${index}`), bindOptions),
 		);
 
 		/**
-		 * Create a dedicated IAM role for the Step Function
-		 * with permissions to access DynamoDB and send task success signals
+		 * Creates the scheduled sweep that fails and deletes stale tokens
+		 * @param {cdk.Duration} props.reaperMaxAge - Age after which a stored token is reaped
+		 * @param {events.Schedule} props.reaperSchedule - Schedule of the sweep
 		 */
-		const sfnRole =
-			props.role ||
-			new iam.Role(this, "ResumeWorkflowRole", {
-				assumedBy: new iam.ServicePrincipal("states.amazonaws.com"),
-				description: "Role for the Step Functions Resume Workflow",
+		if (props.reaperMaxAge) {
+			new SfnResumeReaper(this, "reaper", {
+				table: table,
+				maxAge: props.reaperMaxAge,
+				schedule: props.reaperSchedule,
+				taskTokenResources: tokenResources,
+				removalPolicy: props.removalPolicy,
+				nameSuffix: props.nameSuffix,
+				sortKey: props.fanOut ? FANOUT_SORT_KEY : undefined,
+				encryptionKey: props.encryptionKey,
+				logLevel: props.logLevel,
+				logExecutionData: props.logExecutionData,
+				lifecycleEventBus: props.lifecycleEventBus,
+				historyTable: this.historyTable,
 			});
+		}
 
-		// Grant DynamoDB permissions if using the default role
-		if (!props.role) {
-			table.grantReadWriteData(sfnRole);
-
-			// // Grant Step Functions permissions to send task success as inline policy
-			// const sendTaskSuccessPolicy = new iam.Policy(
-			// 	this,
-			// 	"SendTaskSuccessPolicy",
-			// 	{
-			// 		statements: [
-			// 			new iam.PolicyStatement({
-			// 				actions: ["states:SendTaskSuccess"],
-			// 				resources: [
-			// 					`arn:aws:states:${cdk.Stack.of(this).region}:${cdk.Stack.of(this).account}:*`,
-			// 				],
-			// 			}),
-			// 		],
-			// 	},
-			// );
-			// sfnRole.attachInlinePolicy(sendTaskSuccessPolicy);
+		/**
+		 * Creates the operator API to list, show, resume and fail waits
+		 * @param {boolean} props.operatorApi - Enables the API and its audit table
+		 */
+		if (props.operatorApi) {
+			this.operator = new SfnResumeOperator(this, "operator", {
+				table: table,
+				sortKey: props.fanOut ? FANOUT_SORT_KEY : undefined,
+				removalPolicy: props.removalPolicy,
+				nameSuffix: props.nameSuffix,
+				taskTokenResources: tokenResources,
+				encryptionKey: props.encryptionKey,
+				logLevel: props.logLevel,
+				logExecutionData: props.logExecutionData,
+				lifecycleEventBus: props.lifecycleEventBus,
+				historyTable: this.historyTable,
+			});
 		}
 
 		/**
-		 * Creates a Step Functions state machine that handles workflow resumption
-		 * The state machine executes the following steps in sequence:
-		 * 1. Retrieves a resume token from DynamoDB
-		 * 2. Sends a success signal to the paused workflow
-		 * 3. Deletes the resume token from DynamoDB
-		 *
-		 * @param {string} props.nameSuffix - Suffix to append to state machine name
-		 * @param {string} cdk.Stack.of(this).stackName - Stack name prefix for state machine
-		 * @param {sfn.IChainable} definition - State machine workflow definition
-		 * @param {cdk.RemovalPolicy} props.removalPolicy - Policy for resource removal
+		 * Creates alarms on failed resume executions and failed rule invocations,
+		 * and a dashboard of the resume activity
+		 * @param {boolean} props.monitoring - Enables the alarms and the dashboard
 		 */
-		const sfnMain = new sfn.StateMachine(this, `${props.nameSuffix}`, {
-			stateMachineName: `${cdk.Stack.of(this).stackName}_${props.nameSuffix}`,
-			definition: getResumeToken.next(sendTaskSuccess).next(deleteResumeToken),
-			removalPolicy: props.removalPolicy,
-			logs: {
-				destination: new cdk.aws_logs.LogGroup(this, `${cdk.Stack.of(this).stackName}_${props.nameSuffix}_logs`, {
-					logGroupName: `/aws/vendedlogs/states/${cdk.Stack.of(this).stackName}/${props.nameSuffix}`,
-					removalPolicy: props.removalPolicy,
+		if (props.monitoring) {
+			const failedResumes = resumeTarget.resumeFunction
+				? resumeTarget.resumeFunction.metricErrors({
+						period: cdk.Duration.minutes(5),
+					})
+				: resumeTarget.stateMachine.metricFailed({
+						period: cdk.Duration.minutes(5),
+					});
+			this.alarms.push(
+				new cloudwatch.Alarm(this, "failedResumesAlarm", {
+					alarmDescription: `${props.nameSuffix} sfnResume executions failed`,
+					metric: failedResumes,
+					threshold: 1,
+					evaluationPeriods: 1,
+					comparisonOperator:
+						cloudwatch.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+					treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
 				}),
-				level: sfn.LogLevel.ALL,
-			},
-			tracingEnabled: true,
-			role: sfnRole,
-		});
+			);
 
-		NagSuppressions.addResourceSuppressions(
-			sfnRole,
-			[
-				{
-					id: "AwsSolutions-IAM5",
-					reason: "SendTaskSuccess API requires wildcard permissions as granular resource permissions for task tokens is not supported.",
-					appliesTo: [
-						"Resource::arn:aws:states:<AWS::Region>:<AWS::AccountId>:*",
-					],
-				},
-				{
-					id: "AwsSolutions-IAM5",
-					reason: "CDK automatically adds these permissions for CloudWatch Logs integration. Actions are limited to specific logging operations",
-					appliesTo: [
-						"Action::logs:CreateLogDelivery",
-						"Action::logs:GetLogDelivery",
-						"Action::logs:UpdateLogDelivery",
-						"Action::logs:DeleteLogDelivery",
-						"Action::logs:ListLogDeliveries",
-						"Action::logs:PutResourcePolicy",
-						"Action::logs:DescribeResourcePolicies",
-						"Action::logs:DescribeLogGroups",
-						"Resource::*",
+			const ruleMetrics: cloudwatch.IMetric[] = [];
+			if (this.rule) {
+				const failedInvocations = new cloudwatch.Metric({
+					namespace: "AWS/Events",
+					metricName: "FailedInvocations",
+					dimensionsMap: { RuleName: this.rule.ruleName },
+					statistic: cloudwatch.Stats.SUM,
+					period: cdk.Duration.minutes(5),
+				});
+				this.alarms.push(
+					new cloudwatch.Alarm(this, "failedInvocationsAlarm", {
+						alarmDescription: `${props.nameSuffix} sfnResume rule failed to start the resume workflow`,
+						metric: failedInvocations,
+						threshold: 1,
+						evaluationPeriods: 1,
+						comparisonOperator:
+							cloudwatch.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+						treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+					}),
+				);
+				ruleMetrics.push(
+					new cloudwatch.Metric({
+						namespace: "AWS/Events",
+						metricName: "Invocations",
+						dimensionsMap: { RuleName: this.rule.ruleName },
+						statistic: cloudwatch.Stats.SUM,
+					}),
+					failedInvocations,
+				);
+			}
+
+			new cloudwatch.Dashboard(this, "dashboard", {
+				widgets: [
+					[
+						new cloudwatch.GraphWidget({
+							title: "Resume executions",
+							left: resumeTarget.resumeFunction
+								? [
+										resumeTarget.resumeFunction.metricInvocations(),
+										resumeTarget.resumeFunction.metricErrors(),
+									]
+								: [
+										resumeTarget.stateMachine.metricStarted(),
+										resumeTarget.stateMachine.metricSucceeded(),
+										resumeTarget.stateMachine.metricFailed(),
+									],
+						}),
+						new cloudwatch.GraphWidget({
+							title: "Time to resume (seconds)",
+							left: [
+								this.metricTimeToResume({
+									statistic: cloudwatch.Stats.AVERAGE,
+								}),
+								this.metricTimeToResume({
+									statistic: cloudwatch.Stats.p(90),
+								}),
+								this.metricTimeToResume({
+									statistic: cloudwatch.Stats.MAXIMUM,
+								}),
+							],
+						}),
 					],
-				},
-				{
-					id: "AwsSolutions-IAM5",
-					reason: "CDK automatically adds these permissions for CloudWatch Logs integration. Actions are limited to specific logging operations",
-					appliesTo: [
-						"Action::xray:PutTraceSegments",
-						"Action::xray:PutTelemetryRecords",
-						"Action::xray:GetSamplingRules",
-						"Action::xray:GetSamplingTarget",
-						"Resource::*",
+					[
+						new cloudwatch.GraphWidget({
+							title: "Resume events",
+							left: ruleMetrics,
+						}),
+						new cloudwatch.AlarmStatusWidget({
+							title: "Alarms",
+							alarms: this.alarms,
+						}),
 					],
-				},
-			],
-			true,
-		);
+				],
+			});
+		}
+		// END
+	}
 
-		/**
-		 * Creates an EventBridge rule that triggers the resume workflow
-		 * @param {string} props.nameSuffix - Suffix used in rule description
-		 * @param {events.EventPattern} props.eventPattern - Pattern that determines when rule is triggered
-		 * @returns {events.Rule} An EventBridge rule that can trigger the state machine
-		 */
-		const eventRule = new events.Rule(this, "resumeRule", {
-			description: `${props.nameSuffix} sfnResume`,
-			eventPattern: props.eventPattern,
+	/**
+	 * Allows the resume workflow, and the reaper, to resume executions of a state machine that uses the pause task
+	 * Once a state machine is granted, SendTaskSuccess and SendTaskFailure are scoped to the granted state machines
+	 * instead of every state machine in the account.
+	 * @param stateMachine - State machine that pauses with this.task
+	 */
+	public grantResume(stateMachine: sfn.IStateMachine): void {
+		this.resumableStateMachines.push(stateMachine.stateMachineArn);
+	}
+
+	/**
+	 * Wraps the task that starts a job and a pause task keyed by the job ID in its result into a fragment,
+	 * so the ID path of the pause task always matches where the start task keeps its result
+	 * @param id - ID of the fragment, also used to name its pause task
+	 */
+	public startAndWait(
+		scope: Construct,
+		id: string,
+		options: SfnResumeStartAndWaitOptions,
+	): SfnResumeStartAndWait {
+		return new SfnResumeStartAndWait(scope, id, { ...options, resume: this });
+	}
+
+	/**
+	 * Creates another pause task with the options of this.task, but keyed by other ID paths
+	 * @internal
+	 */
+	public _createPauseTask(
+		scope: Construct,
+		id: string,
+		pathToIdPauseTask: string | string[],
+	): tasks.CallAwsService {
+		if (this.isBarrier) {
+			throw new Error(
+				"startAndWait does not support barriers, whose jobs are started by several tasks",
+			);
+		}
+		return createPauseTask(scope, id, {
+			...this.pauseTaskOptions,
+			pathToIdPauseTask: pathToIdPauseTask,
 		});
+	}
 
-		eventRule.addTarget(new targets.SfnStateMachine(sfnMain));
-		// END
+	/**
+	 * Seconds between storing a token and resuming its execution, published when monitoring is enabled
+	 */
+	public metricTimeToResume(
+		props?: cloudwatch.MetricOptions,
+	): cloudwatch.Metric {
+		return new cloudwatch.Metric({
+			namespace: METRIC_NAMESPACE,
+			metricName: TIME_TO_RESUME_METRIC,
+			dimensionsMap: { TableName: this.table.tableName },
+			statistic: cloudwatch.Stats.AVERAGE,
+			...props,
+		});
 	}
 }
+
+/**
+ * @deprecated Use SfnResume
+ * @internal
+ */
+export class sfnResume extends SfnResume {}
@@ -0,0 +1,429 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+
+import { Construct } from "constructs";
+import * as cdk from "aws-cdk-lib";
+import {
+	createPauseTask,
+	createResumeStateMachine,
+	createResumeTable,
+	FANOUT_SORT_KEY,
+	routeFailedResumes,
+	taskTokenResources,
+} from "./resumeWorkflow";
+import { ResumeTableCapacity } from "./sfnResume";
+import { ResumePath } from "./resumePath";
+import { SfnResumeReaper } from "./sfnResumeReaper";
+import { SfnResumeOperator } from "./sfnResumeOperator";
+import { EventBridgeResumeTrigger, IResumeTrigger } from "./triggers";
+import { resolveIdPaths } from "./validation";
+
+import {
+	aws_backup as backup,
+	aws_dynamodb as dynamodb,
+	aws_stepfunctions as sfn,
+	aws_stepfunctions_tasks as tasks,
+	aws_events as events,
+	aws_iam as iam,
+	aws_kms as kms,
+	aws_sqs as sqs,
+} from "aws-cdk-lib";
+
+export interface SfnResumeHubProps {
+	readonly removalPolicy: cdk.RemovalPolicy;
+	readonly nameSuffix: string;
+	readonly role?: iam.IRole;
+	/**
+	 * Condition evaluated against the resume input of every pause point. When it is true the paused
+	 * workflow is resumed with SendTaskFailure instead of SendTaskSuccess.
+	 */
+	readonly failureCondition?: sfn.Condition;
+	/**
+	 * Error name sent with SendTaskFailure, either a literal or a JSON path into the event.
+	 * @default "sfnResume.Failure"
+	 */
+	readonly failureError?: string;
+	/**
+	 * Cause sent with SendTaskFailure, either a literal or a JSON path into the event.
+	 * @default the event detail serialised as JSON
+	 */
+	readonly failureCause?: string;
+	/**
+	 * Output sent to the paused workflows with SendTaskSuccess
+	 * @default { status: "resume" }
+	 */
+	readonly resumeOutput?: sfn.TaskInput;
+	/**
+	 * Tokens stored longer ago than this are failed with a "sfnResume.Timeout" error
+	 * and deleted by a scheduled sweep
+	 * @default - no sweep
+	 */
+	readonly reaperMaxAge?: cdk.Duration;
+	/**
+	 * How often the sweep runs when reaperMaxAge is set
+	 * @default events.Schedule.rate(cdk.Duration.hours(1))
+	 */
+	readonly reaperSchedule?: events.Schedule;
+	/**
+	 * Event bus the resume rules are created on
+	 * @default - the account's default event bus
+	 */
+	readonly eventBus?: events.IEventBus;
+	/**
+	 * Stores one token per waiting execution and resumes all of them when the event arrives
+	 * @default false
+	 */
+	readonly fanOut?: boolean;
+	/**
+	 * How long the resume workflow retries, with exponential backoff, when the event
+	 * arrives before the pause task stored the token. Afterwards it fails with "sfnResume.TokenNotFound".
+	 * @default cdk.Duration.minutes(1)
+	 */
+	readonly earlyEventWindow?: cdk.Duration;
+	/**
+	 * Retry policy of the resume tasks. Tokens of executions that were already resumed,
+	 * timed out or finished are never retried and treated as resumed.
+	 * @default - 3 attempts with an interval of 1 second and a backoff rate of 2
+	 */
+	readonly resumeRetry?: sfn.RetryProps;
+	/**
+	 * Queue that receives the events the resume rules could not deliver,
+	 * and the status change events of failed resume executions
+	 * @default - no dead-letter queue
+	 */
+	readonly deadLetterQueue?: sqs.IQueue;
+	/**
+	 * Customer-managed key of the token table, the log groups and the execution data of the state machines.
+	 * The key policy allows CloudWatch Logs and the log delivery, and the roles are granted the key.
+	 * @default - AWS owned keys
+	 */
+	readonly encryptionKey?: kms.IKey;
+	/**
+	 * Log level of the resume and reaper state machines
+	 * @default sfn.LogLevel.ALL, or sfn.LogLevel.ERROR for the resume state machine when it is EXPRESS
+	 */
+	readonly logLevel?: sfn.LogLevel;
+	/**
+	 * Includes the execution data in the logs. The execution data contains the task tokens,
+	 * which can resume or fail the paused executions.
+	 * @default false
+	 */
+	readonly logExecutionData?: boolean;
+	/**
+	 * Deploys an IAM authorised REST API for operators to list, show, resume and fail waits,
+	 * with an audit table of the resumes and failures
+	 * @default false
+	 */
+	readonly operatorApi?: boolean;
+	/**
+	 * Query language of the pause task and the resume workflow. With JSONata the task can be used
+	 * in state machines defined in JSONata, failureCondition must be a JSONata condition,
+	 * and failureError, failureCause and resumeOutput may use JSONata expressions on the event.
+	 * @default sfn.QueryLanguage.JSONPATH
+	 */
+	readonly queryLanguage?: sfn.QueryLanguage;
+	/**
+	 * Type of the resume state machine. EXPRESS is cheaper and faster for many resumes,
+	 * logs errors only by default, limits earlyEventWindow to 4 minutes
+	 * and sends no failed resume executions to the dead-letter queue.
+	 * @default sfn.StateMachineType.STANDARD
+	 */
+	readonly stateMachineType?: sfn.StateMachineType;
+	/**
+	 * Existing table to store the tokens in instead of creating one, e.g. to keep the tokens across stack refactors.
+	 * It needs a string partition key "id", a string sort key "executionId" with fanOut,
+	 * and the TTL attribute "expiresAt".
+	 * @default - a new table
+	 */
+	readonly table?: dynamodb.ITable;
+	/**
+	 * Enables point-in-time recovery of the table
+	 * @default false
+	 */
+	readonly pointInTimeRecovery?: boolean;
+	/**
+	 * Enables deletion protection of the table
+	 * @default false
+	 */
+	readonly deletionProtection?: boolean;
+	/**
+	 * Uses provisioned billing with auto-scaled read and write capacity
+	 * @default - on-demand billing
+	 */
+	readonly provisionedCapacity?: ResumeTableCapacity;
+	/**
+	 * Backup plan the table is added to
+	 * @default - no backups
+	 */
+	readonly backupPlan?: backup.BackupPlan;
+}
+
+export interface SfnResumeHubPauseTaskProps {
+	/**
+	 * JSON path to the ID in the caller's state, or several paths for a composite ID.
+	 * Accepts path strings, sfn.JsonPath.stringAt() expressions and ResumePath objects.
+	 */
+	readonly pathToIdPauseTask: string | ResumePath | (string | ResumePath)[];
+	/**
+	 * JSON path to the ID in the EventBridge events matched by eventPattern,
+	 * or several paths in the same order as pathToIdPauseTask
+	 */
+	readonly pathToIdWorkflow: string | ResumePath | (string | ResumePath)[];
+	/**
+	 * Pattern of the EventBridge events that resume this pause point
+	 */
+	readonly eventPattern: events.EventPattern;
+	/**
+	 * Namespace of the stored IDs, unique per hub
+	 * @default - the id of the pause task
+	 */
+	readonly namespace?: string;
+	/**
+	 * Additional sources of completion signals for this pause point
+	 * @default - none
+	 */
+	readonly triggers?: IResumeTrigger[];
+	/**
+	 * Where the resume output is placed in the caller's state by the pause task
+	 * @default sfn.JsonPath.DISCARD
+	 */
+	readonly resultPath?: string;
+	/**
+	 * Selects fields from the resume output before it is placed at resultPath
+	 * @default - the whole resume output
+	 */
+	readonly resultSelector?: { [key: string]: any };
+	/**
+	 * Maximum time the pause task waits for the resume event, also used for the TTL of the stored token
+	 * @default - the Step Functions maximum of one year, without TTL
+	 */
+	readonly timeout?: cdk.Duration;
+	/**
+	 * Heartbeat timeout of the pause task
+	 * @default - no heartbeat
+	 */
+	readonly heartbeat?: cdk.Duration;
+}
+
+/**
+ * Class that implements a resume mechanism shared by many pause points
+ * One table and one resume state machine serve every pause point registered with pauseTask.
+ * Stored IDs are namespaced per pause point as "<namespace>#<id>", so IDs of different services cannot collide,
+ * and each pause point gets its own EventBridge rule.
+ */
+export class SfnResumeHub extends Construct {
+	/**
+	 * The table that stores the resume tokens of all pause points
+	 */
+	public readonly table: dynamodb.ITable;
+	/**
+	 * The state machine that resumes the paused workflows
+	 */
+	public readonly stateMachine: sfn.StateMachine;
+	/**
+	 * The operator API, when operatorApi is set
+	 */
+	public readonly operator?: SfnResumeOperator;
+
+	private readonly props: SfnResumeHubProps;
+	private readonly namespaces = new Set<string>();
+	private readonly resumableStateMachines: string[] = [];
+	/**
+	 * Scope of the pause point resources, so namespaces cannot collide with the IDs of the hub's own resources
+	 */
+	private readonly registrations: Construct;
+
+	constructor(scope: Construct, id: string, props: SfnResumeHubProps) {
+		super(scope, id);
+		this.props = props;
+		this.registrations = new Construct(this, "registrations");
+
+		/**
+		 * DynamoDB table that stores resume tokens, unless an existing table is supplied
+		 * TTL is enabled to expire resumed markers and the tokens of pause points with a timeout
+		 */
+		this.table = createResumeTable(this, {
+			table: props.table,
+			removalPolicy: props.removalPolicy,
+			fanOut: props.fanOut,
+			encryptionKey: props.encryptionKey,
+			pointInTimeRecovery: props.pointInTimeRecovery,
+			deletionProtection: props.deletionProtection,
+			provisionedCapacity: props.provisionedCapacity,
+			backupPlan: props.backupPlan,
+		});
+
+		const tokenResources = taskTokenResources(
+			this,
+			this.resumableStateMachines,
+		);
+
+		/**
+		 * Every trigger passes the namespaced ID in the envelope,
+		 * so the state machine does not read IDs from events itself
+		 */
+		this.stateMachine = createResumeStateMachine(this, {
+			table: this.table,
+			removalPolicy: props.removalPolicy,
+			nameSuffix: props.nameSuffix,
+			role: props.role,
+			failureCondition: props.failureCondition,
+			failureError: props.failureError,
+			failureCause: props.failureCause,
+			resumeOutput: props.resumeOutput,
+			fanOut: props.fanOut,
+			earlyEventWindow: props.earlyEventWindow,
+			resumeRetry: props.resumeRetry,
+			taskTokenResources: tokenResources,
+			encryptionKey: props.encryptionKey,
+			logLevel: props.logLevel,
+			logExecutionData: props.logExecutionData,
+			queryLanguage: props.queryLanguage,
+			stateMachineType: props.stateMachineType,
+		});
+
+		/**
+		 * Sends failed resume executions to the dead-letter queue
+		 */
+		if (props.deadLetterQueue) {
+			routeFailedResumes(
+				this,
+				this.stateMachine,
+				props.deadLetterQueue,
+				props.stateMachineType,
+			);
+		}
+
+		/**
+		 * Creates the scheduled sweep that fails and deletes stale tokens of all pause points
+		 */
+		if (props.reaperMaxAge) {
+			new SfnResumeReaper(this, "reaper", {
+				table: this.table,
+				maxAge: props.reaperMaxAge,
+				schedule: props.reaperSchedule,
+				removalPolicy: props.removalPolicy,
+				nameSuffix: props.nameSuffix,
+				sortKey: props.fanOut ? FANOUT_SORT_KEY : undefined,
+				taskTokenResources: tokenResources,
+				encryptionKey: props.encryptionKey,
+				logLevel: props.logLevel,
+				logExecutionData: props.logExecutionData,
+			});
+		}
+
+		/**
+		 * Creates the operator API for the waits of all pause points, which are listed with their namespaced IDs
+		 */
+		if (props.operatorApi) {
+			this.operator = new SfnResumeOperator(this, "operator", {
+				table: this.table,
+				sortKey: props.fanOut ? FANOUT_SORT_KEY : undefined,
+				removalPolicy: props.removalPolicy,
+				nameSuffix: props.nameSuffix,
+				taskTokenResources: tokenResources,
+				encryptionKey: props.encryptionKey,
+				logLevel: props.logLevel,
+				logExecutionData: props.logExecutionData,
+			});
+		}
+	}
+
+	/**
+	 * Allows the hub to resume executions of a state machine that uses one of its pause tasks
+	 * Once a state machine is granted, SendTaskSuccess and SendTaskFailure are scoped to the granted state machines
+	 * instead of every state machine in the account.
+	 * @param stateMachine - State machine that pauses with a task returned by pauseTask
+	 */
+	public grantResume(stateMachine: sfn.IStateMachine): void {
+		this.resumableStateMachines.push(stateMachine.stateMachineArn);
+	}
+
+	/**
+	 * Registers a pause point and returns its pause task
+	 * @param scope - Scope of the pause task, usually the caller's workflow
+	 * @param id - ID of the pause task, also the default namespace
+	 */
+	public pauseTask(
+		scope: Construct,
+		id: string,
+		props: SfnResumeHubPauseTaskProps,
+	): tasks.CallAwsService {
+		const namespace = props.namespace ?? id;
+		if (!/^[A-Za-z0-9_.:-]+$/.test(namespace)) {
+			throw new Error(
+				`SfnResumeHub namespace "${namespace}" may only contain letters, digits and _.:-`,
+			);
+		}
+		if (this.namespaces.has(namespace)) {
+			throw new Error(
+				`SfnResumeHub namespace "${namespace}" is already registered`,
+			);
+		}
+		const pathToIdPauseTask = resolveIdPaths(
+			scope,
+			"pathToIdPauseTask",
+			props.pathToIdPauseTask,
+			true,
+		);
+		const pathToIdWorkflow = resolveIdPaths(
+			scope,
+			"pathToIdWorkflow",
+			props.pathToIdWorkflow,
+		);
+		this.namespaces.add(namespace);
+
+		/**
+		 * Resources of the pause point live in the hub, under the namespace
+		 */
+		const registration = new Construct(this.registrations, namespace);
+		const bindOptions = {
+			stateMachine: this.stateMachine,
+			nameSuffix: `${this.props.nameSuffix} ${namespace}`,
+			idPrefix: namespace,
+			encryptionKey: this.props.encryptionKey,
+		};
+
+		new EventBridgeResumeTrigger({
+			eventPattern: props.eventPattern,
+			pathToId: pathToIdWorkflow,
+			eventBus: this.props.eventBus,
+			deadLetterQueue: this.props.deadLetterQueue,
+		}).bind(registration, bindOptions);
+
+		props.triggers?.forEach((trigger, index) =>
+			trigger.bind(new Construct(registration, `trigger${index}`), bindOptions),
+		);
+
+		return createPauseTask(scope, id, {
+			table: this.table,
+			pathToIdPauseTask: pathToIdPauseTask,
+			keyPrefix: namespace,
+			resultPath: props.resultPath,
+			resultSelector: props.resultSelector,
+			timeout: props.timeout,
+			heartbeat: props.heartbeat,
+			fanOut: this.props.fanOut,
+			queryLanguage: this.props.queryLanguage,
+		});
+	}
+}
+
+/**
+ * @deprecated Use SfnResumeHubProps
+ * @internal
+ */
+export interface sfnResumeHubProps extends SfnResumeHubProps {}
+
+/**
+ * @deprecated Use SfnResumeHub
+ * @internal
+ */
+export class sfnResumeHub extends SfnResumeHub {}
+
+/**
+ * @deprecated Use SfnResumeHubPauseTaskProps
+ * @internal
+ */
+export interface sfnResumeHubPauseTaskProps
+	extends SfnResumeHubPauseTaskProps {}
@@ -0,0 +1,561 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+
+import { Construct } from "constructs";
+import * as cdk from "aws-cdk-lib";
+import { NagSuppressions } from "cdk-nag";
+import { LifecycleEvent, waitRecord, withLifecycle } from "./lifecycle";
+import { CLOSED_TOKEN_FIELD } from "./resumeWorkflow";
+import { createStateMachineLogging } from "./logging";
+import { stateMachineRoleSuppressions, tableKeySuppressions } from "./nag";
+import { validateName } from "./validation";
+
+import {
+	aws_apigateway as apigateway,
+	aws_dynamodb as dynamodb,
+	aws_stepfunctions as sfn,
+	aws_stepfunctions_tasks as tasks,
+	aws_events as events,
+	aws_iam as iam,
+	aws_kms as kms,
+	aws_logs as logs,
+} from "aws-cdk-lib";
+
+export interface SfnResumeOperatorProps {
+	/**
+	 * Resume token table of the waits
+	 */
+	readonly table: dynamodb.ITable;
+	/**
+	 * Sort key attribute of the table, included in the key of resumed waits
+	 * @default - the table has no sort key
+	 */
+	readonly sortKey?: string;
+	readonly removalPolicy: cdk.RemovalPolicy;
+	readonly nameSuffix: string;
+	/**
+	 * IAM resources of SendTaskSuccess and SendTaskFailure, the paused state machines
+	 * @default - every state machine in the account
+	 */
+	readonly taskTokenResources?: string[];
+	/**
+	 * Customer-managed key of the audit table, the log group and the execution data
+	 * @default - AWS owned keys
+	 */
+	readonly encryptionKey?: kms.IKey;
+	/**
+	 * Log level of the operator state machine
+	 * @default sfn.LogLevel.ALL
+	 */
+	readonly logLevel?: sfn.LogLevel;
+	/**
+	 * Includes the execution data, which contains the task tokens, in the logs
+	 * @default false
+	 */
+	readonly logExecutionData?: boolean;
+	/**
+	 * Bus that receives a WorkflowResumed or WorkflowWaitFailed event for every wait resumed or failed through the API
+	 * @default - no lifecycle events
+	 */
+	readonly lifecycleEventBus?: events.IEventBus;
+	/**
+	 * Table that keeps a record of every wait resumed or failed through the API, keyed by ID and resumedAt
+	 * @default - no records
+	 */
+	readonly historyTable?: dynamodb.ITable;
+}
+
+/**
+ * Source of the lifecycle events and wait records of waits closed through the API
+ */
+const OPERATOR_EVENT_SOURCE = "sfnResume.operator";
+
+/**
+ * Error of the operator state machine when no wait is stored for the ID, returned as 404
+ */
+export const WAIT_NOT_FOUND_ERROR = "sfnResume.WaitNotFound";
+
+/**
+ * Error sent with SendTaskFailure when the operator gives none
+ */
+export const OPERATOR_ERROR = "sfnResume.OperatorFailure";
+
+/**
+ * Class that implements an operator interface for the waits in a resume token table
+ * An IAM authorised REST API lists pending waits, shows the waits of an ID,
+ * and resumes or fails them. Resumes and failures are recorded in an audit table.
+ *
+ * GET  /waits              - pending waits, without their tokens
+ * GET  /waits/{id}         - waits of an ID
+ * POST /waits/{id}/resume  - resumes the waits, the body is sent as their output
+ * POST /waits/{id}/fail    - fails the waits with the "error" and "cause" of the body
+ */
+export class SfnResumeOperator extends Construct {
+	/**
+	 * WAIT_NOT_FOUND_ERROR for languages without module constants
+	 */
+	public static readonly WAIT_NOT_FOUND_ERROR = WAIT_NOT_FOUND_ERROR;
+	/**
+	 * OPERATOR_ERROR for languages without module constants
+	 */
+	public static readonly OPERATOR_ERROR = OPERATOR_ERROR;
+
+	/**
+	 * The operator REST API
+	 */
+	public readonly api: apigateway.RestApi;
+	/**
+	 * The EXPRESS state machine behind the API
+	 */
+	public readonly stateMachine: sfn.StateMachine;
+	/**
+	 * The audit trail of resumes and failures, keyed by ID and time
+	 */
+	public readonly auditTable: dynamodb.Table;
+
+	constructor(scope: Construct, id: string, props: SfnResumeOperatorProps) {
+		super(scope, id);
+
+		const stack = cdk.Stack.of(this);
+		const stackName = stack.stackName;
+
+		/**
+		 * Attributes shown for a wait, the token is never returned
+		 */
+		const waitAttributes = [
+			"id",
+			...(props.sortKey ? [props.sortKey] : []),
+			"executionArn",
+			"startTime",
+			"createdAt",
+			"expiresAt",
+		];
+		const projection = {
+			ProjectionExpression: waitAttributes
+				.map((attribute) => `#${attribute}`)
+				.join(", "),
+			ExpressionAttributeNames: Object.fromEntries(
+				waitAttributes.map((attribute) => [`#${attribute}`, attribute]),
+			),
+		};
+		const toWaits = (items: string) =>
+			`[${items}.{${waitAttributes
+				.map(
+					(attribute) =>
+						`"${attribute}": ${attribute}.${attribute === "expiresAt" ? "N" : "S"}`,
+				)
+				.join(", ")}}]`;
+
+		this.auditTable = new dynamodb.Table(this, "auditTable", {
+			partitionKey: { name: "id", type: dynamodb.AttributeType.STRING },
+			sortKey: { name: "createdAt", type: dynamodb.AttributeType.STRING },
+			billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+			removalPolicy: props.removalPolicy,
+			encryption: props.encryptionKey
+				? dynamodb.TableEncryption.CUSTOMER_MANAGED
+				: undefined,
+			encryptionKey: props.encryptionKey,
+			pointInTimeRecoverySpecification: { pointInTimeRecoveryEnabled: true },
+		});
+
+		/**
+		 * Keeps the request, so the states below can read it
+		 */
+		const init = sfn.Pass.jsonata(this, "readRequest", {
+			assign: { request: "{% $states.input %}" },
+		});
+
+		/**
+		 * Lists the pending waits, a scan returns at most 1 MB
+		 * Items without a token, such as the markers of resumed IDs, are not waits
+		 */
+		const listWaits = tasks.CallAwsService.jsonata(this, "listWaits", {
+			service: "dynamodb",
+			action: "scan",
+			parameters: {
+				TableName: props.table.tableName,
+				FilterExpression: "attribute_exists(#token)",
+				ProjectionExpression: projection.ProjectionExpression,
+				ExpressionAttributeNames: {
+					...projection.ExpressionAttributeNames,
+					"#token": "token",
+				},
+			},
+			outputs: `{% {"waits": ${toWaits("$states.result.Items")}, "truncated": $exists($states.result.LastEvaluatedKey)} %}`,
+			iamResources: [props.table.tableArn],
+		});
+
+		/**
+		 * Shows the waits of an ID
+		 */
+		const getWaits = tasks.CallAwsService.jsonata(this, "getWaits", {
+			service: "dynamodb",
+			action: "query",
+			parameters: {
+				TableName: props.table.tableName,
+				KeyConditionExpression: "#id = :id",
+				ExpressionAttributeValues: { ":id": { S: "{% $request.id %}" } },
+				ConsistentRead: true,
+				...projection,
+			},
+			outputs: `{% {"waits": ${toWaits("$states.result.Items")}} %}`,
+			iamResources: [props.table.tableArn],
+		});
+		const waitNotFound = sfn.Fail.jsonata(this, "waitNotFound", {
+			error: WAIT_NOT_FOUND_ERROR,
+			cause: "{% 'No wait is stored for ' & $request.id %}",
+		});
+		getWaits.next(
+			sfn.Choice.jsonata(this, "hasWaits")
+				.when(
+					sfn.Condition.jsonata("{% $count($states.input.waits) > 0 %}"),
+					sfn.Succeed.jsonata(this, "showWaits"),
+				)
+				.otherwise(waitNotFound),
+		);
+
+		/**
+		 * Reads the waits of an ID with their tokens
+		 */
+		const findWaits = tasks.CallAwsService.jsonata(this, "findWaits", {
+			service: "dynamodb",
+			action: "query",
+			parameters: {
+				TableName: props.table.tableName,
+				KeyConditionExpression: "id = :id",
+				ExpressionAttributeValues: { ":id": { S: "{% $request.id %}" } },
+				ConsistentRead: true,
+			},
+			assign: { waits: "{% $states.result.Items %}" },
+			iamResources: [props.table.tableArn],
+		});
+
+		/**
+		 * Resumes or fails a wait with the body of the request
+		 */
+		const tokenResources = props.taskTokenResources ?? [
+			`arn:aws:states:${stack.region}:${stack.account}:*`,
+		];
+		const sendTaskSuccess = tasks.CallAwsService.jsonata(
+			this,
+			"sendTaskSuccess",
+			{
+				service: "sfn",
+				action: "sendTaskSuccess",
+				parameters: {
+					TaskToken: "{% $states.input.token.S %}",
+					Output: "{% $string($request.body) %}",
+				},
+				outputs: "{% $states.input %}",
+				iamResources: tokenResources,
+			},
+		);
+		const sendTaskFailure = tasks.CallAwsService.jsonata(
+			this,
+			"sendTaskFailure",
+			{
+				service: "sfn",
+				action: "sendTaskFailure",
+				parameters: {
+					TaskToken: "{% $states.input.token.S %}",
+					Error: `{% $exists($request.body.error) ? $request.body.error : "${OPERATOR_ERROR}" %}`,
+					Cause: `{% $exists($request.body.cause) ? $request.body.cause : "Failed by " & $request.caller %}`,
+				},
+				outputs: "{% $states.input %}",
+				iamResources: tokenResources,
+			},
+		);
+
+		/**
+		 * Deletes the token of the wait
+		 * The condition keeps a token that was stored again since it was read
+		 */
+		const deleteToken = tasks.CallAwsService.jsonata(this, "deleteToken", {
+			service: "dynamodb",
+			action: "deleteItem",
+			parameters: {
+				TableName: props.table.tableName,
+				Key: {
+					id: { S: "{% $states.input.id.S %}" },
+					...(props.sortKey && {
+						[props.sortKey]: {
+							S: `{% $states.input.${props.sortKey}.S %}`,
+						},
+					}),
+				},
+				ConditionExpression: "createdAt = :createdAt",
+				ExpressionAttributeValues: {
+					":createdAt": { S: "{% $states.input.createdAt.S %}" },
+				},
+			},
+			outputs: "{% $states.input %}",
+			iamResources: [props.table.tableArn],
+		});
+		deleteToken.addCatch(sfn.Pass.jsonata(this, "tokenAlreadyDeleted"), {
+			errors: ["DynamoDb.ConditionalCheckFailedException"],
+		});
+		const tokenAlreadyClosed = sfn.Pass.jsonata(this, "tokenAlreadyClosed", {
+			outputs: "{% $states.input %}",
+		}).next(deleteToken);
+
+		/**
+		 * Publishes the lifecycle event and records the wait with the caller once its token is deleted
+		 * @param {events.IEventBus} props.lifecycleEventBus - Bus of the lifecycle events
+		 * @param {dynamodb.ITable} props.historyTable - Table that keeps a record of the wait
+		 */
+		const afterClose = withLifecycle(
+			this,
+			props,
+			deleteToken,
+			waitRecord("$states.input", {
+				id: "$item.id.S",
+				outcome: `$request.action = "resume" ? "${LifecycleEvent.RESUMED}" : "${LifecycleEvent.WAIT_FAILED}"`,
+				eventId: undefined,
+				eventSource: `"${OPERATOR_EVENT_SOURCE}"`,
+				eventDetailType: "$request.action",
+				caller: "$request.caller",
+			}),
+		);
+		for (const sendTask of [sendTaskSuccess, sendTaskFailure]) {
+			sendTask.addCatch(tokenAlreadyClosed, {
+				errors: [
+					"Sfn.TaskTimedOutException",
+					"Sfn.InvalidTokenException",
+					"Sfn.TaskDoesNotExistException",
+				],
+				outputs: `{% $merge([$states.input, {"${CLOSED_TOKEN_FIELD}": $states.errorOutput}]) %}`,
+			});
+			sendTask.next(afterClose);
+		}
+
+		const closeWaits = sfn.Map.jsonata(this, "closeWaits", {
+			items: sfn.ProvideItems.jsonata("{% $waits %}"),
+			maxConcurrency: 10,
+		});
+		closeWaits.itemProcessor(
+			sfn.Choice.jsonata(this, "isResume")
+				.when(
+					sfn.Condition.jsonata('{% $request.action = "resume" %}'),
+					sendTaskSuccess,
+				)
+				.otherwise(sendTaskFailure),
+		);
+
+		/**
+		 * Records who resumed or failed which executions
+		 */
+		const recordAudit = tasks.CallAwsService.jsonata(this, "recordAudit", {
+			service: "dynamodb",
+			action: "putItem",
+			parameters: {
+				TableName: this.auditTable.tableName,
+				Item: {
+					id: { S: "{% $request.id %}" },
+					createdAt: { S: "{% $now() %}" },
+					action: { S: "{% $request.action %}" },
+					caller: { S: "{% $request.caller %}" },
+					executionArns: { S: "{% $string([$waits.executionArn.S]) %}" },
+					body: { S: "{% $string($request.body) %}" },
+				},
+			},
+			outputs: `{% {"id": $request.id, "action": $request.action, "executionArns": [$waits.executionArn.S]} %}`,
+			iamResources: [this.auditTable.tableArn],
+		});
+
+		findWaits.next(
+			sfn.Choice.jsonata(this, "hasWaitsToClose")
+				.when(
+					sfn.Condition.jsonata("{% $count($waits) > 0 %}"),
+					closeWaits.next(recordAudit),
+				)
+				.otherwise(waitNotFound),
+		);
+
+		const route = sfn.Choice.jsonata(this, "route")
+			.when(sfn.Condition.jsonata('{% $request.action = "list" %}'), listWaits)
+			.when(sfn.Condition.jsonata('{% $request.action = "get" %}'), getWaits)
+			.otherwise(findWaits);
+
+		/**
+		 * Dedicated IAM role for the operator state machine
+		 * with permissions to read and delete tokens, send task signals and write the audit trail
+		 */
+		const role = new iam.Role(this, "OperatorWorkflowRole", {
+			assumedBy: new iam.ServicePrincipal("states.amazonaws.com"),
+			description: "Role for the sfnResume operator workflow",
+		});
+		props.table.encryptionKey?.grantEncryptDecrypt(role);
+		props.encryptionKey?.grantEncryptDecrypt(role);
+		props.historyTable?.grantWriteData(role);
+
+		validateName(
+			props.nameSuffix,
+			`${stackName}_${props.nameSuffix}_operator`,
+			80,
+			"operator state machine",
+		);
+		this.stateMachine = new sfn.StateMachine(
+			this,
+			`${props.nameSuffix}_operator`,
+			{
+				stateMachineName: `${stackName}_${props.nameSuffix}_operator`,
+				stateMachineType: sfn.StateMachineType.EXPRESS,
+				queryLanguage: sfn.QueryLanguage.JSONATA,
+				definitionBody: sfn.DefinitionBody.fromChainable(init.next(route)),
+				removalPolicy: props.removalPolicy,
+				...createStateMachineLogging(
+					this,
+					`${stackName}_${props.nameSuffix}_operator_logs`,
+					`/aws/vendedlogs/states/${stackName}/${props.nameSuffix}-operator`,
+					{ ...props, logLevel: props.logLevel ?? sfn.LogLevel.ALL },
+				),
+				tracingEnabled: true,
+				role: role,
+			},
+		);
+
+		NagSuppressions.addResourceSuppressions(
+			role,
+			[
+				{
+					id: "AwsSolutions-IAM5",
+					reason:
+						"Task tokens can resume any state machine in the account until the paused state machines are granted with grantResume.",
+					appliesTo: [
+						"Resource::arn:aws:states:<AWS::Region>:<AWS::AccountId>:*",
+					],
+				},
+				...(props.table.encryptionKey || props.encryptionKey
+					? tableKeySuppressions
+					: []),
+				...stateMachineRoleSuppressions,
+			],
+			true,
+		);
+
+		/**
+		 * IAM authorised REST API that runs the operator state machine synchronously
+		 */
+		const apiRole = new iam.Role(this, "ApiRole", {
+			assumedBy: new iam.ServicePrincipal("apigateway.amazonaws.com"),
+			description: "Role for the sfnResume operator API",
+		});
+		this.stateMachine.grantStartSyncExecution(apiRole);
+		props.encryptionKey?.grant(apiRole, "kms:GenerateDataKey");
+
+		this.api = new apigateway.RestApi(this, "operatorApi", {
+			description: `${props.nameSuffix} sfnResume operator`,
+			cloudWatchRole: false,
+			defaultMethodOptions: {
+				authorizationType: apigateway.AuthorizationType.IAM,
+			},
+			deployOptions: {
+				accessLogDestination: new apigateway.LogGroupLogDestination(
+					new logs.LogGroup(this, "accessLogs", {
+						removalPolicy: props.removalPolicy,
+					}),
+				),
+				accessLogFormat: apigateway.AccessLogFormat.jsonWithStandardFields(),
+			},
+		});
+
+		/**
+		 * StartSyncExecution takes the input as a string, so the request is escaped into it
+		 * escapeJavaScript also escapes single quotes, which is not valid JSON and is reverted
+		 * Failed executions are returned as 404 for unknown IDs and 500 otherwise
+		 */
+		const operation = (action: string, body: boolean) =>
+			new apigateway.AwsIntegration({
+				service: "states",
+				action: "StartSyncExecution",
+				options: {
+					credentialsRole: apiRole,
+					requestTemplates: {
+						"application/json": [
+							`#set($id = $util.escapeJavaScript($input.params('id')).replaceAll("\\\\'", "'"))`,
+							`#set($caller = $util.escapeJavaScript($context.identity.userArn))`,
+							body
+								? `#set($body = $util.escapeJavaScript($input.json('$')).replaceAll("\\\\'", "'"))`
+								: `#set($body = "{}")`,
+							`{"stateMachineArn": "${this.stateMachine.stateMachineArn}", "input": "{\\"action\\": \\"${action}\\", \\"id\\": \\"$id\\", \\"caller\\": \\"$caller\\", \\"body\\": $body}"}`,
+						].join("\n"),
+					},
+					integrationResponses: [
+						{
+							statusCode: "200",
+							responseTemplates: {
+								"application/json": [
+									`#if($input.path('$.status') == "SUCCEEDED")`,
+									`$input.path('$.output')`,
+									"#else",
+									`#if($input.path('$.error') == "${WAIT_NOT_FOUND_ERROR}")`,
+									"#set($context.responseOverride.status = 404)",
+									"#else",
+									"#set($context.responseOverride.status = 500)",
+									"#end",
+									`{"error": "$util.escapeJavaScript($input.path('$.error'))", "cause": "$util.escapeJavaScript($input.path('$.cause'))"}`,
+									"#end",
+								].join("\n"),
+							},
+						},
+					],
+				},
+			});
+		const methodOptions = {
+			methodResponses: [
+				{ statusCode: "200" },
+				{ statusCode: "404" },
+				{ statusCode: "500" },
+			],
+		};
+
+		const waits = this.api.root.addResource("waits");
+		waits.addMethod("GET", operation("list", false), methodOptions);
+		const wait = waits.addResource("{id}");
+		wait.addMethod("GET", operation("get", false), methodOptions);
+		wait
+			.addResource("resume")
+			.addMethod("POST", operation("resume", true), methodOptions);
+		wait
+			.addResource("fail")
+			.addMethod("POST", operation("fail", true), methodOptions);
+
+		NagSuppressions.addResourceSuppressions(
+			this.api,
+			[
+				{
+					id: "AwsSolutions-COG4",
+					reason: "The operator API uses IAM authorisation instead of Cognito.",
+				},
+				{
+					id: "AwsSolutions-APIG2",
+					reason:
+						"The request is validated by the operator state machine, which fails unknown IDs.",
+				},
+				{
+					id: "AwsSolutions-APIG3",
+					reason:
+						"IAM authorised operator API, WAF is left to the application.",
+				},
+				{
+					id: "AwsSolutions-APIG6",
+					reason:
+						"Access logging is enabled, execution logging requires an account level role.",
+				},
+			],
+			true,
+		);
+	}
+}
+
+/**
+ * @deprecated Use SfnResumeOperatorProps
+ * @internal
+ */
+export interface sfnResumeOperatorProps extends SfnResumeOperatorProps {}
+
+/**
+ * @deprecated Use SfnResumeOperator
+ * @internal
+ */
+export class sfnResumeOperator extends SfnResumeOperator {}
@@ -0,0 +1,406 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+
+import { Construct } from "constructs";
+import * as cdk from "aws-cdk-lib";
+import { NagSuppressions } from "cdk-nag";
+import { LifecycleEvent, waitRecord, withLifecycle } from "./lifecycle";
+import {
+	CLOSED_TOKEN_ERRORS,
+	CLOSED_TOKEN_FIELD,
+	DEFAULT_RESUME_RETRY,
+} from "./resumeWorkflow";
+import { createStateMachineLogging } from "./logging";
+import { stateMachineRoleSuppressions, tableKeySuppressions } from "./nag";
+import { validateName } from "./validation";
+
+import {
+	aws_dynamodb as dynamodb,
+	aws_stepfunctions as sfn,
+	aws_stepfunctions_tasks as tasks,
+	aws_events as events,
+	aws_events_targets as targets,
+	aws_iam as iam,
+	aws_kms as kms,
+} from "aws-cdk-lib";
+
+export interface SfnResumeReaperProps {
+	/**
+	 * Resume token table to sweep
+	 */
+	readonly table: dynamodb.ITable;
+	/**
+	 * Sort key attribute of the table, included in the key of deleted tokens
+	 * @default - the table has no sort key
+	 */
+	readonly sortKey?: string;
+	/**
+	 * Tokens stored longer ago than this are failed and deleted
+	 */
+	readonly maxAge: cdk.Duration;
+	/**
+	 * How often the sweep runs
+	 * @default events.Schedule.rate(cdk.Duration.hours(1))
+	 */
+	readonly schedule?: events.Schedule;
+	readonly removalPolicy: cdk.RemovalPolicy;
+	readonly nameSuffix: string;
+	/**
+	 * IAM resources of SendTaskFailure, the paused state machines
+	 * @default - every state machine in the account
+	 */
+	readonly taskTokenResources?: string[];
+	/**
+	 * Customer-managed key of the log group and the execution data of the reaper
+	 * @default - AWS owned keys
+	 */
+	readonly encryptionKey?: kms.IKey;
+	/**
+	 * Log level of the reaper
+	 * @default sfn.LogLevel.ALL
+	 */
+	readonly logLevel?: sfn.LogLevel;
+	/**
+	 * Includes the execution data, which contains the task tokens, in the logs
+	 * @default false
+	 */
+	readonly logExecutionData?: boolean;
+	/**
+	 * Bus that receives a WorkflowWaitFailed event for every reaped wait
+	 * @default - no lifecycle events
+	 */
+	readonly lifecycleEventBus?: events.IEventBus;
+	/**
+	 * Table that keeps a record of every reaped wait, keyed by ID and resumedAt
+	 * @default - no records
+	 */
+	readonly historyTable?: dynamodb.ITable;
+}
+
+/**
+ * Source of the lifecycle events and wait records of reaped waits
+ */
+const REAPER_EVENT_SOURCE = "sfnResume.reaper";
+
+/**
+ * Error sent with SendTaskFailure to executions whose resume event never arrived
+ */
+export const REAPER_ERROR = "sfnResume.Timeout";
+
+/**
+ * Namespace of the metrics published by the reaper, the resume workflow and the resume function
+ */
+export const METRIC_NAMESPACE = "sfnResume";
+
+/**
+ * @deprecated Use METRIC_NAMESPACE
+ */
+export const REAPER_METRIC_NAMESPACE = METRIC_NAMESPACE;
+
+/**
+ * Class that implements a scheduled sweep of a resume token table
+ * Tokens older than maxAge are resumed with SendTaskFailure and deleted,
+ * and the number of reaped tokens is published as a CloudWatch metric
+ */
+export class SfnResumeReaper extends Construct {
+	/**
+	 * REAPER_ERROR for languages without module constants
+	 */
+	public static readonly REAPER_ERROR = REAPER_ERROR;
+
+	/**
+	 * The state machine that sweeps the table
+	 */
+	public readonly stateMachine: sfn.StateMachine;
+
+	constructor(scope: Construct, id: string, props: SfnResumeReaperProps) {
+		super(scope, id);
+
+		const stack = cdk.Stack.of(this);
+		const stackName = stack.stackName;
+
+		/**
+		 * Computes the cutoff timestamp from the execution time
+		 * Tokens store their creation time as an ISO 8601 string, which sorts chronologically
+		 */
+		const init = sfn.Pass.jsonata(this, "computeCutoff", {
+			assign: {
+				cutoff: `{% $fromMillis($millis() - ${props.maxAge.toMilliseconds()}) %}`,
+				reaped: 0,
+			},
+		});
+
+		/**
+		 * Scans the table for tokens created before the cutoff
+		 * The second state continues the scan from the last evaluated key
+		 */
+		const scanParameters = {
+			TableName: props.table.tableName,
+			FilterExpression: "createdAt < :cutoff",
+			ExpressionAttributeValues: {
+				":cutoff": { S: "{% $cutoff %}" },
+			},
+		};
+		const scanAssign = {
+			lastKey:
+				"{% $exists($states.result.LastEvaluatedKey) ? $states.result.LastEvaluatedKey : null %}",
+		};
+		const scanStaleTokens = tasks.CallAwsService.jsonata(
+			this,
+			"scanStaleTokens",
+			{
+				service: "dynamodb",
+				action: "scan",
+				parameters: scanParameters,
+				assign: scanAssign,
+				outputs: "{% $states.result.Items %}",
+				iamResources: [props.table.tableArn],
+			},
+		);
+		const scanNextPage = tasks.CallAwsService.jsonata(this, "scanNextPage", {
+			service: "dynamodb",
+			action: "scan",
+			parameters: {
+				...scanParameters,
+				ExclusiveStartKey: "{% $lastKey %}",
+			},
+			assign: scanAssign,
+			outputs: "{% $states.result.Items %}",
+			iamResources: [props.table.tableArn],
+		});
+
+		/**
+		 * Fails the paused execution of a stale token
+		 * Tokens of executions that already finished or timed out are skipped
+		 */
+		const sendTaskFailure = tasks.CallAwsService.jsonata(
+			this,
+			"sendTaskFailure",
+			{
+				service: "sfn",
+				action: "sendTaskFailure",
+				parameters: {
+					TaskToken: "{% $states.input.token.S %}",
+					Error: REAPER_ERROR,
+					Cause: `No resume event received within ${props.maxAge.toHumanString()}`,
+				},
+				outputs: "{% $states.input %}",
+				iamResources: props.taskTokenResources ?? [
+					`arn:aws:states:${stack.region}:${stack.account}:*`,
+				],
+			},
+		);
+
+		/**
+		 * Deletes the stale token
+		 * The condition keeps a token that was stored again since the scan
+		 */
+		const deleteStaleToken = tasks.CallAwsService.jsonata(
+			this,
+			"deleteStaleToken",
+			{
+				service: "dynamodb",
+				action: "deleteItem",
+				parameters: {
+					TableName: props.table.tableName,
+					Key: {
+						id: { S: "{% $states.input.id.S %}" },
+						...(props.sortKey && {
+							[props.sortKey]: {
+								S: `{% $states.input.${props.sortKey}.S %}`,
+							},
+						}),
+					},
+					ConditionExpression: "createdAt = :createdAt",
+					ExpressionAttributeValues: {
+						":createdAt": { S: "{% $states.input.createdAt.S %}" },
+					},
+				},
+				outputs: "{% $states.input %}",
+				iamResources: [props.table.tableArn],
+			},
+		);
+		/**
+		 * Retries both tasks on throttling and transient errors, as the resume workflow does,
+		 * so one failed call does not stop the sweep. Closed and replaced tokens are not retried.
+		 */
+		deleteStaleToken
+			.addRetry({
+				errors: ["DynamoDb.ConditionalCheckFailedException"],
+				maxAttempts: 0,
+			})
+			.addRetry(DEFAULT_RESUME_RETRY)
+			.addCatch(sfn.Pass.jsonata(this, "tokenAlreadyDeleted"), {
+				errors: ["DynamoDb.ConditionalCheckFailedException"],
+				outputs: "{% $states.input %}",
+			});
+
+		sendTaskFailure
+			.addRetry({ errors: CLOSED_TOKEN_ERRORS, maxAttempts: 0 })
+			.addRetry(DEFAULT_RESUME_RETRY)
+			.addCatch(
+				sfn.Pass.jsonata(this, "tokenAlreadyClosed").next(deleteStaleToken),
+				{
+					errors: CLOSED_TOKEN_ERRORS,
+					outputs: `{% $merge([$states.input, {"${CLOSED_TOKEN_FIELD}": $states.errorOutput}]) %}`,
+				},
+			);
+
+		/**
+		 * Reaps every stale token of a scanned page and counts the executions it failed,
+		 * tokens that were already closed keep their error and are not counted
+		 */
+		const reapPage = sfn.Map.jsonata(this, "reapPage", {
+			items: sfn.ProvideItems.jsonata("{% $states.input %}"),
+			maxConcurrency: 10,
+			assign: {
+				reaped: `{% $reaped + $count($states.result[$not($exists(${CLOSED_TOKEN_FIELD}))]) %}`,
+			},
+		});
+		/**
+		 * Publishes the WorkflowWaitFailed event and records the reaped wait once its token is deleted
+		 * @param {events.IEventBus} props.lifecycleEventBus - Bus of the lifecycle events
+		 * @param {dynamodb.ITable} props.historyTable - Table that keeps a record of the wait
+		 */
+		reapPage.itemProcessor(
+			sendTaskFailure.next(
+				withLifecycle(
+					this,
+					props,
+					deleteStaleToken,
+					waitRecord("$states.input", {
+						id: "$item.id.S",
+						outcome: `"${LifecycleEvent.WAIT_FAILED}"`,
+						eventId: undefined,
+						eventSource: `"${REAPER_EVENT_SOURCE}"`,
+						eventDetailType: undefined,
+					}),
+				),
+			),
+		);
+
+		/**
+		 * Publishes the number of reaped tokens for this table
+		 */
+		const publishReapedCount = tasks.CallAwsService.jsonata(
+			this,
+			"publishReapedCount",
+			{
+				service: "cloudwatch",
+				action: "putMetricData",
+				parameters: {
+					Namespace: METRIC_NAMESPACE,
+					MetricData: [
+						{
+							MetricName: "ReapedTokens",
+							Value: "{% $reaped %}",
+							Unit: "Count",
+							Dimensions: [{ Name: "TableName", Value: props.table.tableName }],
+						},
+					],
+				},
+				iamResources: ["*"],
+			},
+		);
+
+		const hasNextPage = sfn.Choice.jsonata(this, "hasNextPage")
+			.when(sfn.Condition.jsonata("{% $lastKey != null %}"), scanNextPage)
+			.otherwise(publishReapedCount);
+
+		scanNextPage.next(reapPage);
+
+		/**
+		 * Dedicated IAM role for the reaper
+		 * with permissions to scan and delete tokens and send task failure signals
+		 */
+		const role = new iam.Role(this, "ReaperWorkflowRole", {
+			assumedBy: new iam.ServicePrincipal("states.amazonaws.com"),
+			description: "Role for the Step Functions Resume Reaper Workflow",
+		});
+		props.table.encryptionKey?.grantEncryptDecrypt(role);
+		props.historyTable?.grantWriteData(role);
+
+		validateName(
+			props.nameSuffix,
+			`${stackName}_${props.nameSuffix}_reaper`,
+			80,
+			"reaper state machine",
+		);
+		this.stateMachine = new sfn.StateMachine(
+			this,
+			`${props.nameSuffix}_reaper`,
+			{
+				stateMachineName: `${stackName}_${props.nameSuffix}_reaper`,
+				queryLanguage: sfn.QueryLanguage.JSONATA,
+				definitionBody: sfn.DefinitionBody.fromChainable(
+					init.next(scanStaleTokens).next(reapPage).next(hasNextPage),
+				),
+				removalPolicy: props.removalPolicy,
+				...createStateMachineLogging(
+					this,
+					`${stackName}_${props.nameSuffix}_reaper_logs`,
+					`/aws/vendedlogs/states/${stackName}/${props.nameSuffix}-reaper`,
+					props,
+				),
+				tracingEnabled: true,
+				role: role,
+			},
+		);
+
+		NagSuppressions.addResourceSuppressions(
+			role,
+			[
+				{
+					id: "AwsSolutions-IAM5",
+					reason:
+						"Task tokens can resume any state machine in the account until the paused state machines are granted with grantResume.",
+					appliesTo: [
+						"Resource::arn:aws:states:<AWS::Region>:<AWS::AccountId>:*",
+					],
+				},
+				{
+					id: "AwsSolutions-IAM5",
+					reason: "PutMetricData does not support resource-level permissions.",
+					appliesTo: ["Resource::*"],
+				},
+				...(props.table.encryptionKey ? tableKeySuppressions : []),
+				...stateMachineRoleSuppressions,
+			],
+			true,
+		);
+
+		/**
+		 * Runs the sweep on the configured schedule
+		 * An encrypted state machine is started with a role that may use the key
+		 */
+		const scheduleRole =
+			props.encryptionKey &&
+			new iam.Role(this, "reaperScheduleRole", {
+				assumedBy: new iam.ServicePrincipal("events.amazonaws.com"),
+				description: "Role for the sfnResume reaper schedule",
+			});
+		if (scheduleRole) {
+			props.encryptionKey?.grant(scheduleRole, "kms:GenerateDataKey");
+		}
+
+		new events.Rule(this, "reaperSchedule", {
+			description: `${props.nameSuffix} sfnResume reaper`,
+			schedule: props.schedule ?? events.Schedule.rate(cdk.Duration.hours(1)),
+			targets: [
+				new targets.SfnStateMachine(this.stateMachine, { role: scheduleRole }),
+			],
+		});
+	}
+}
+
+/**
+ * @deprecated Use SfnResumeReaperProps
+ * @internal
+ */
+export interface sfnResumeReaperProps extends SfnResumeReaperProps {}
+
+/**
+ * @deprecated Use SfnResumeReaper
+ * @internal
+ */
+export class sfnResumeReaper extends SfnResumeReaper {}
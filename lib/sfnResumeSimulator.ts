@@ -0,0 +1,600 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+
+import * as cdk from "aws-cdk-lib";
+import { randomUUID } from "crypto";
+import {
+	StatesError,
+	runStateMachine,
+	taskOutput,
+	taskParameters,
+} from "./aslInterpreter";
+import { parseJsonPath } from "./jsonata";
+import { RESUMED_MARKER_PREFIX } from "./resumeWorkflow";
+import { SfnResume } from "./sfnResume";
+import { SimulatedTable } from "./simulatedTable";
+
+import {
+	aws_dynamodb as dynamodb,
+	aws_events as events,
+	aws_stepfunctions as sfn,
+} from "aws-cdk-lib";
+
+/**
+ * Status of a simulated execution
+ */
+export enum SimulatedStatus {
+	/**
+	 * Paused at the pause task until its token is sent
+	 */
+	WAITING = "WAITING",
+	SUCCEEDED = "SUCCEEDED",
+	FAILED = "FAILED",
+}
+
+/**
+ * A paused workflow or resume workflow execution of the simulator
+ */
+export interface SimulatedExecution {
+	readonly executionArn: string;
+	readonly status: SimulatedStatus;
+	/**
+	 * Output of a succeeded execution
+	 * @default - the execution did not succeed
+	 */
+	readonly output?: any;
+	/**
+	 * @default - the execution did not fail
+	 */
+	readonly error?: string;
+	/**
+	 * @default - the execution did not fail
+	 */
+	readonly cause?: string;
+	/**
+	 * Task token of a waiting execution
+	 * @default - the execution is not waiting
+	 */
+	readonly token?: string;
+}
+
+/**
+ * Simulated account and region of the execution ARNs
+ */
+const ARN_PREFIX = "arn:aws:states:us-east-1:123456789012";
+
+/**
+ * Stands in for the tokens of the definition, e.g. the partition of an ARN
+ */
+const TOKEN_PLACEHOLDER = "SIMULATED";
+
+/**
+ * Resolves a token of the definition, references to resources such as table names
+ * resolve to the logical ID of the resource so the tables can be told apart
+ */
+function placeholderOf(part: any): string {
+	const ref = part?.Ref;
+	return typeof ref === "string" && !ref.startsWith("AWS::")
+		? ref
+		: TOKEN_PLACEHOLDER;
+}
+
+/**
+ * Resolves a definition string that may be a Fn::Join of tokens
+ */
+function parseDefinition(stack: cdk.Stack, definition: any): any {
+	const resolved = stack.resolve(definition);
+	if (typeof resolved === "string") {
+		return JSON.parse(resolved);
+	}
+	const [separator, parts] = resolved["Fn::Join"];
+	return JSON.parse(
+		parts
+			.map((part: any) =>
+				typeof part === "string" ? part : placeholderOf(part),
+			)
+			.join(separator),
+	);
+}
+
+/**
+ * Name of a table in the parsed definitions
+ */
+function tableNameOf(table: dynamodb.ITable): string {
+	const name = cdk.Stack.of(table).resolve(table.tableName);
+	return typeof name === "string" ? name : placeholderOf(name);
+}
+
+/**
+ * Reads a path of a pattern or input transformer, e.g. "$.detail.id"
+ */
+function readEventPath(event: any, path: string): any {
+	return parseJsonPath(path).reduce(
+		(value, segment) => (value === undefined ? undefined : value?.[segment]),
+		event,
+	);
+}
+
+/**
+ * Matches a value against the values of an event pattern field
+ */
+function matchesValue(expected: any[], value: any, present: boolean): boolean {
+	const values = Array.isArray(value) ? value : [value];
+	return expected.some((rule) => {
+		if (rule === null || typeof rule !== "object") {
+			return present && values.includes(rule);
+		}
+		if ("exists" in rule) {
+			return present === rule.exists;
+		}
+		if (!present) {
+			return false;
+		}
+		if ("prefix" in rule) {
+			return values.some(
+				(item) => typeof item === "string" && item.startsWith(rule.prefix),
+			);
+		}
+		if ("suffix" in rule) {
+			return values.some(
+				(item) => typeof item === "string" && item.endsWith(rule.suffix),
+			);
+		}
+		if ("equals-ignore-case" in rule) {
+			return values.some(
+				(item) =>
+					typeof item === "string" &&
+					item.toLowerCase() === rule["equals-ignore-case"].toLowerCase(),
+			);
+		}
+		if ("anything-but" in rule) {
+			const excluded = ([] as any[]).concat(rule["anything-but"]);
+			return values.every((item) => !excluded.includes(item));
+		}
+		if ("numeric" in rule) {
+			const conditions: any[] = rule.numeric;
+			return values.some((item) => {
+				if (typeof item !== "number") {
+					return false;
+				}
+				for (let index = 0; index < conditions.length; index += 2) {
+					const bound = conditions[index + 1];
+					const holds = {
+						"=": item === bound,
+						"<": item < bound,
+						"<=": item <= bound,
+						">": item > bound,
+						">=": item >= bound,
+					}[conditions[index] as string];
+					if (!holds) {
+						return false;
+					}
+				}
+				return true;
+			});
+		}
+		throw new Error(
+			`The simulator does not support the event pattern ${JSON.stringify(rule)}`,
+		);
+	});
+}
+
+/**
+ * Matches an event against an EventBridge event pattern
+ */
+function matchesPattern(pattern: any, event: any): boolean {
+	return Object.entries(pattern).every(([field, expected]) => {
+		const value = event?.[field];
+		if (Array.isArray(expected)) {
+			return matchesValue(expected, value, value !== undefined);
+		}
+		return (
+			value !== null &&
+			typeof value === "object" &&
+			matchesPattern(expected, value)
+		);
+	});
+}
+
+/**
+ * Applies the input of a rule target to a matched event
+ */
+function targetInput(target: any, event: any): any {
+	if (target.input !== undefined) {
+		return JSON.parse(target.input);
+	}
+	if (target.inputPath !== undefined) {
+		return readEventPath(event, target.inputPath);
+	}
+	if (target.inputTransformer === undefined) {
+		return event;
+	}
+	const { inputPathsMap = {}, inputTemplate } = target.inputTransformer;
+	const values: { [name: string]: any } = Object.fromEntries(
+		Object.entries(inputPathsMap).map(([name, path]) => [
+			name,
+			readEventPath(event, path as string),
+		]),
+	);
+	// Placeholders inside a string are substituted as text, others as JSON
+	const rendered = (inputTemplate as string).replace(
+		/("[^"]*")|<([A-Za-z0-9_.-]+)>/g,
+		(match, quoted: string | undefined, name: string | undefined) => {
+			if (quoted !== undefined) {
+				return quoted.replace(/<([A-Za-z0-9_.-]+)>/g, (placeholder, inner) =>
+					inner in values
+						? JSON.stringify(String(values[inner])).slice(1, -1)
+						: placeholder,
+				);
+			}
+			return name !== undefined && name in values
+				? JSON.stringify(values[name] ?? null)
+				: match;
+		},
+	);
+	return JSON.parse(rendered);
+}
+
+/**
+ * An EventBridge rule of the simulated SfnResume and the state machine it starts
+ */
+interface SimulatedRule {
+	readonly name: string;
+	readonly eventPattern: any;
+	readonly target: any;
+	readonly definition: any;
+}
+
+/**
+ * A task token of the pause task and the execution waiting for it
+ */
+interface PausedWait {
+	readonly executionArn: string;
+	readonly input: any;
+	readonly context: any;
+}
+
+/**
+ * Reads the definition of a state machine, and the pattern and target input of the rule that starts it
+ */
+function simulatedRule(
+	name: string,
+	stateMachine: sfn.StateMachine,
+	rule: events.Rule,
+): SimulatedRule {
+	const stack = cdk.Stack.of(stateMachine);
+	const cfnRule = rule.node.defaultChild as events.CfnRule;
+	return {
+		name,
+		eventPattern: stack.resolve(cfnRule.eventPattern),
+		target: stack.resolve(cfnRule.targets)[0],
+		definition: parseDefinition(
+			stack,
+			(stateMachine.node.defaultChild as sfn.CfnStateMachine).definitionString,
+		),
+	};
+}
+
+/**
+ * Simulates the pause and resume flow of an SfnResume in memory, without AWS.
+ * The pause task, the resume workflow and the progress workflow are interpreted from the synthesized definitions
+ * against an in-memory resume token table and task token registry, so tests can check that
+ * an event really resumes the execution paused under its ID.
+ * Waits, retries and timeouts do not take time, and the LAMBDA resume mode is not supported.
+ * Lifecycle events of the resume workflow are recorded, the WorkflowPaused events of the pipe are not.
+ */
+export class SfnResumeSimulator {
+	private readonly pauseState: any;
+	private readonly definition: any;
+	private readonly rules: SimulatedRule[] = [];
+	private readonly table = new SimulatedTable();
+	private readonly historyTable = new SimulatedTable("resumedAt");
+	private readonly tables = new Map<string, SimulatedTable>();
+	private readonly events: any[] = [];
+	private readonly executions = new Map<string, SimulatedExecution>();
+	private readonly waits = new Map<string, PausedWait>();
+	private readonly failures = new Map<string, string>();
+
+	constructor(resume: SfnResume) {
+		if (!resume.stateMachine) {
+			throw new Error(
+				"SfnResumeSimulator requires the resume state machine, the LAMBDA resume mode is not supported",
+			);
+		}
+		const stack = cdk.Stack.of(resume);
+		if (resume.historyTable) {
+			this.tables.set(tableNameOf(resume.historyTable), this.historyTable);
+		}
+		this.pauseState = parseDefinition(
+			stack,
+			stack.toJsonString(resume.task.toStateJson()),
+		);
+		this.definition = parseDefinition(
+			stack,
+			(resume.stateMachine.node.defaultChild as sfn.CfnStateMachine)
+				.definitionString,
+		);
+		if (resume.rule) {
+			this.rules.push(
+				simulatedRule("resume", resume.stateMachine, resume.rule),
+			);
+		}
+		if (resume.progressStateMachine && resume.progressRule) {
+			this.rules.push(
+				simulatedRule(
+					"progress",
+					resume.progressStateMachine,
+					resume.progressRule,
+				),
+			);
+		}
+	}
+
+	/**
+	 * Runs the pause task of a new execution of the paused workflow, that waits for its token
+	 * @param input input of the pause task
+	 * @param executionName name of the execution, its ARN is returned in the execution
+	 */
+	public async pause(
+		input: any,
+		executionName?: string,
+	): Promise<SimulatedExecution> {
+		const name = executionName ?? randomUUID();
+		const executionArn = `${ARN_PREFIX}:execution:paused:${name}`;
+		const token = randomUUID();
+		const context = {
+			Execution: {
+				Id: executionArn,
+				Name: name,
+				StartTime: new Date().toISOString(),
+				Input: input,
+			},
+			StateMachine: { Id: `${ARN_PREFIX}:stateMachine:paused`, Name: "paused" },
+			Task: { Token: token },
+		};
+		const options = { context, invoke: this.invoke.bind(this) };
+		try {
+			const parameters = await taskParameters(this.pauseState, input, options);
+			await this.invoke(this.pauseAction(), parameters);
+		} catch (error) {
+			if (!(error instanceof StatesError)) {
+				throw error;
+			}
+			return this.record({
+				executionArn,
+				status: SimulatedStatus.FAILED,
+				error: error.error,
+				cause: error.cause,
+			});
+		}
+		this.waits.set(token, { executionArn, input, context });
+		return this.record({
+			executionArn,
+			status: SimulatedStatus.WAITING,
+			token,
+		});
+	}
+
+	/**
+	 * Sends an event to the resume rule and the progress rule, that start their workflows when the event matches
+	 * @returns the resume and progress workflow executions the event started, none when it matches no rule
+	 */
+	public async sendEvent(event: any): Promise<SimulatedExecution[]> {
+		if (!this.rules.length) {
+			throw new Error("The SfnResume has no EventBridge rule");
+		}
+		const executions: SimulatedExecution[] = [];
+		for (const rule of this.rules) {
+			if (matchesPattern(rule.eventPattern, event)) {
+				executions.push(
+					await this.startExecution(
+						rule.name,
+						rule.definition,
+						targetInput(rule.target, event),
+					),
+				);
+			}
+		}
+		return executions;
+	}
+
+	/**
+	 * Starts the resume workflow with an input, as a trigger other than the rule does
+	 */
+	public async startResume(input: any): Promise<SimulatedExecution> {
+		return this.startExecution("resume", this.definition, input);
+	}
+
+	private async startExecution(
+		stateMachineName: string,
+		definition: any,
+		input: any,
+	): Promise<SimulatedExecution> {
+		const name = randomUUID();
+		const executionArn = `${ARN_PREFIX}:execution:${stateMachineName}:${name}`;
+		const context = {
+			Execution: {
+				Id: executionArn,
+				Name: name,
+				StartTime: new Date().toISOString(),
+				Input: input,
+			},
+			StateMachine: {
+				Id: `${ARN_PREFIX}:stateMachine:${stateMachineName}`,
+				Name: stateMachineName,
+			},
+		};
+		try {
+			const output = await runStateMachine(definition, input, {
+				context,
+				invoke: this.invoke.bind(this),
+			});
+			return this.record({
+				executionArn,
+				status: SimulatedStatus.SUCCEEDED,
+				output,
+			});
+		} catch (error) {
+			if (!(error instanceof StatesError)) {
+				throw error;
+			}
+			return this.record({
+				executionArn,
+				status: SimulatedStatus.FAILED,
+				error: error.error,
+				cause: error.cause,
+			});
+		}
+	}
+
+	/**
+	 * Current state of a paused workflow or resume workflow execution
+	 */
+	public execution(executionArn: string): SimulatedExecution {
+		const execution = this.executions.get(executionArn);
+		if (!execution) {
+			throw new Error(`Unknown execution ${executionArn}`);
+		}
+		return execution;
+	}
+
+	/**
+	 * Items of the resume token table, in DynamoDB JSON, without the markers of resumed IDs
+	 */
+	public storedItems(): any[] {
+		return this.table
+			.all()
+			.filter((item) => !item.id.S.startsWith(RESUMED_MARKER_PREFIX));
+	}
+
+	/**
+	 * Items of the history table, in DynamoDB JSON
+	 */
+	public historyItems(): any[] {
+		return this.historyTable.all();
+	}
+
+	/**
+	 * Events the resume workflow published on the lifecycle event bus, as EventBridge delivers them
+	 */
+	public publishedEvents(): any[] {
+		return [...this.events];
+	}
+
+	/**
+	 * Makes every later call of a task action fail with the error, e.g. "events:putEvents"
+	 * @param action service and API of the task, as in its resource
+	 * @param error error name the task fails with, after its retries
+	 */
+	public failAction(action: string, error: string = "States.TaskFailed"): void {
+		this.failures.set(action, error);
+	}
+
+	/**
+	 * Action of the pause task, e.g. "dynamodb:putItem", or "dynamodb:transactWriteItems" for a barrier
+	 */
+	private pauseAction(): string {
+		const action = /:::aws-sdk:(\w+:\w+)/.exec(
+			JSON.stringify(this.pauseState.Resource),
+		);
+		if (!action) {
+			throw new Error("The simulator does not support the pause task");
+		}
+		return action[1];
+	}
+
+	private record(execution: SimulatedExecution): SimulatedExecution {
+		this.executions.set(execution.executionArn, execution);
+		return execution;
+	}
+
+	private async invoke(action: string, parameters: any): Promise<any> {
+		const failure = this.failures.get(action);
+		if (failure !== undefined) {
+			throw new StatesError(failure, `The simulated ${action} call failed`);
+		}
+		const [service, api] = action.split(":");
+		if (service === "dynamodb") {
+			return (this.tables.get(parameters.TableName) ?? this.table).invoke(
+				api,
+				parameters,
+			);
+		}
+		switch (action) {
+			case "events:putEvents":
+				return {
+					Entries: parameters.Entries.map((entry: any) => {
+						const id = randomUUID();
+						this.events.push({
+							id,
+							source: entry.Source,
+							"detail-type": entry.DetailType,
+							detail:
+								typeof entry.Detail === "string"
+									? JSON.parse(entry.Detail)
+									: entry.Detail,
+						});
+						return { EventId: id };
+					}),
+					FailedEntryCount: 0,
+				};
+			case "sfn:sendTaskSuccess":
+				return this.closeWait(parameters.TaskToken, async (wait) => ({
+					status: SimulatedStatus.SUCCEEDED,
+					output: await taskOutput(
+						this.pauseState,
+						wait.input,
+						typeof parameters.Output === "string"
+							? JSON.parse(parameters.Output)
+							: parameters.Output,
+						{ context: wait.context, invoke: this.invoke.bind(this) },
+					),
+				}));
+			case "sfn:sendTaskHeartbeat":
+				this.openWait(parameters.TaskToken);
+				return {};
+			case "sfn:sendTaskFailure":
+				return this.closeWait(parameters.TaskToken, async () => ({
+					status: SimulatedStatus.FAILED,
+					error: parameters.Error,
+					cause: parameters.Cause,
+				}));
+			default:
+				throw new Error(`The simulator does not support the ${action} task`);
+		}
+	}
+
+	/**
+	 * Returns the wait of a task token, which must still be waiting
+	 */
+	private openWait(token: string): PausedWait {
+		const wait = this.waits.get(token);
+		if (!wait) {
+			throw new StatesError(
+				"Sfn.InvalidTokenException",
+				"Invalid Token: 'Invalid token'",
+			);
+		}
+		if (this.execution(wait.executionArn).status !== SimulatedStatus.WAITING) {
+			throw new StatesError(
+				"Sfn.TaskTimedOutException",
+				"Task Timed Out: 'Provided task does not exist anymore'",
+			);
+		}
+		return wait;
+	}
+
+	/**
+	 * Closes the wait of a task token like SendTaskSuccess and SendTaskFailure do
+	 */
+	private async closeWait(
+		token: string,
+		close: (
+			wait: PausedWait,
+		) => Promise<Omit<SimulatedExecution, "executionArn">>,
+	): Promise<any> {
+		const wait = this.openWait(token);
+		this.record({ executionArn: wait.executionArn, ...(await close(wait)) });
+		return {};
+	}
+}
@@ -0,0 +1,119 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+
+import { Construct } from "constructs";
+import * as cdk from "aws-cdk-lib";
+import { ResumePath } from "./resumePath";
+import { SfnResume } from "./sfnResume";
+import { resolveIdPaths } from "./validation";
+
+import {
+	aws_stepfunctions as sfn,
+	aws_stepfunctions_tasks as tasks,
+} from "aws-cdk-lib";
+
+export interface SfnResumeStartAndWaitOptions {
+	/**
+	 * Task that starts the job, e.g. a CallAwsService of translate:startTextTranslationJob.
+	 * It must not have a next state yet.
+	 */
+	readonly startTask: sfn.TaskStateBase;
+	/**
+	 * JSON path to the job ID in the result of the start task, e.g. "$.JobId",
+	 * or several paths for a composite ID in the same order as pathToIdWorkflow
+	 */
+	readonly idSelector: string | ResumePath | (string | ResumePath)[];
+	/**
+	 * Where the state keeps the result of the start task after it ran
+	 * @default - the resultPath of a JSONPath start task, or the whole state for a JSONata start task without outputs
+	 */
+	readonly startResultPath?: string;
+}
+
+export interface SfnResumeStartAndWaitProps
+	extends SfnResumeStartAndWaitOptions {
+	/**
+	 * The SfnResume whose resume workflow resumes the pause task
+	 */
+	readonly resume: SfnResume;
+}
+
+/**
+ * Fragment that starts a job and pauses until the resume event of the job arrives
+ * The pause task is keyed by the job ID at idSelector in the start task's result,
+ * so it cannot get out of step with the start task's resultPath.
+ * Otherwise it behaves like SfnResume.task, with its resultPath, timeout and heartbeat.
+ */
+export class SfnResumeStartAndWait extends sfn.StateMachineFragment {
+	public readonly startState: sfn.State;
+	public readonly endStates: sfn.INextable[];
+	/**
+	 * The pause task that follows the start task
+	 */
+	public readonly pauseTask: tasks.CallAwsService;
+
+	private readonly startTask: sfn.TaskStateBase;
+
+	constructor(scope: Construct, id: string, props: SfnResumeStartAndWaitProps) {
+		super(scope, id);
+
+		const startResultPath =
+			props.startResultPath ?? resultPathOf(this, props.startTask);
+		const idSelector = ([] as string[]).concat(
+			resolveIdPaths(this, "idSelector", props.idSelector),
+		);
+		const pathToIdPauseTask = idSelector.map((path) =>
+			startResultPath === "$" ? path : `${startResultPath}${path.slice(1)}`,
+		);
+
+		this.startTask = props.startTask;
+		this.pauseTask = props.resume._createPauseTask(
+			this,
+			`${id}Pause`,
+			pathToIdPauseTask.length === 1 ? pathToIdPauseTask[0] : pathToIdPauseTask,
+		);
+		this.startState = props.startTask;
+		this.endStates = this.pauseTask.endStates;
+		props.startTask.next(this.pauseTask);
+	}
+
+	/**
+	 * Retries the start task. The pause task is not retried,
+	 * a retried pause would wait on a job that already finished.
+	 */
+	public addRetry(props?: sfn.RetryProps): SfnResumeStartAndWait {
+		this.startTask.addRetry(props);
+		return this;
+	}
+
+	/**
+	 * Catches the errors of the start task and of the pause task, e.g. the failureError of a failed job
+	 */
+	public addCatch(
+		handler: sfn.IChainable,
+		props?: sfn.CatchProps,
+	): SfnResumeStartAndWait {
+		this.startTask.addCatch(handler, props);
+		this.pauseTask.addCatch(handler, props);
+		return this;
+	}
+}
+
+/**
+ * Reads where a task keeps its result in the state
+ * Throws when the result is discarded or reshaped by an OutputPath or JSONata outputs
+ */
+function resultPathOf(scope: Construct, task: sfn.TaskStateBase): string {
+	const state = cdk.Stack.of(scope).resolve(task.toStateJson());
+	if (state.ResultPath === null) {
+		throw new Error(
+			`startAndWait cannot find the job ID, ${task.stateId} discards its result. Set its resultPath.`,
+		);
+	}
+	if (state.OutputPath !== undefined || state.Output !== undefined) {
+		throw new Error(
+			`startAndWait cannot find the job ID in the reshaped output of ${task.stateId}. Set startResultPath.`,
+		);
+	}
+	return state.ResultPath ?? "$";
+}
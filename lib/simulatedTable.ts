@@ -0,0 +1,552 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+
+import { StatesError } from "./aslInterpreter";
+import { FANOUT_SORT_KEY } from "./resumeWorkflow";
+
+/**
+ * An attribute value in DynamoDB JSON, e.g. {"S": "job-1"}
+ */
+type AttributeValue = { [type: string]: any };
+
+type Item = { [name: string]: AttributeValue };
+
+/**
+ * Names and placeholder values of an expression
+ */
+interface ExpressionAttributes {
+	readonly names: { [placeholder: string]: string };
+	readonly values: { [placeholder: string]: AttributeValue };
+}
+
+/**
+ * A parsed condition, evaluated against an item
+ */
+type Condition = (item: Item | undefined) => boolean;
+
+const CONDITIONAL_CHECK_FAILED = "DynamoDb.ConditionalCheckFailedException";
+
+/**
+ * Splits an expression into names, placeholders, keywords, numbers and operators
+ */
+function tokenize(expression: string): string[] {
+	const tokens = expression.match(
+		/[#:]?[A-Za-z0-9_]+|<>|<=|>=|[()=<>,.[\]+-]/g,
+	);
+	const rest = expression.replace(
+		/[#:]?[A-Za-z0-9_]+|<>|<=|>=|[()=<>,.[\]+-]|\s+/g,
+		"",
+	);
+	if (rest) {
+		throw new Error(`The simulator cannot parse the expression ${expression}`);
+	}
+	return tokens ?? [];
+}
+
+/**
+ * Reads tokens of an expression in order
+ */
+class TokenReader {
+	private index = 0;
+
+	constructor(
+		private readonly tokens: string[],
+		private readonly expression: string,
+	) {}
+
+	public peek(): string | undefined {
+		return this.tokens[this.index];
+	}
+
+	public next(): string {
+		const token = this.tokens[this.index++];
+		if (token === undefined) {
+			throw this.error();
+		}
+		return token;
+	}
+
+	public accept(token: string): boolean {
+		if (this.peek()?.toUpperCase() !== token) {
+			return false;
+		}
+		this.index++;
+		return true;
+	}
+
+	public expect(token: string): void {
+		if (!this.accept(token)) {
+			throw this.error();
+		}
+	}
+
+	public done(): boolean {
+		return this.index >= this.tokens.length;
+	}
+
+	public error(): Error {
+		return new Error(
+			`The simulator cannot parse the expression ${this.expression}`,
+		);
+	}
+}
+
+/**
+ * Reads a document path, e.g. "#results.#job" or "jobs[0]", as a list of names and indexes
+ */
+function readPath(
+	reader: TokenReader,
+	attributes: ExpressionAttributes,
+): (string | number)[] {
+	const name = (token: string) => {
+		if (token.startsWith(":")) {
+			throw reader.error();
+		}
+		return token.startsWith("#") ? attributes.names[token] : token;
+	};
+	const path: (string | number)[] = [name(reader.next())];
+	for (;;) {
+		if (reader.accept(".")) {
+			path.push(name(reader.next()));
+		} else if (reader.accept("[")) {
+			path.push(Number(reader.next()));
+			reader.expect("]");
+		} else {
+			return path;
+		}
+	}
+}
+
+/**
+ * Reads the value at a document path of an item
+ */
+function getPath(
+	item: Item | undefined,
+	path: (string | number)[],
+): AttributeValue | undefined {
+	let value: AttributeValue | undefined = item && { M: item };
+	for (const segment of path) {
+		value =
+			typeof segment === "number" ? value?.L?.[segment] : value?.M?.[segment];
+	}
+	return value;
+}
+
+/**
+ * Sets or, without a value, removes the value at a document path of an item
+ */
+function setPath(
+	item: Item,
+	path: (string | number)[],
+	value: AttributeValue | undefined,
+): void {
+	const parent = getPath(item, path.slice(0, -1));
+	const container = parent?.M ?? parent?.L;
+	if (!container) {
+		throw new StatesError(
+			"DynamoDb.DynamoDbException",
+			"The document path provided in the update expression is invalid for update",
+		);
+	}
+	const last = path[path.length - 1];
+	if (value === undefined) {
+		if (Array.isArray(container)) {
+			container.splice(last as number, 1);
+		} else {
+			delete container[last];
+		}
+	} else {
+		container[last] = value;
+	}
+}
+
+/**
+ * Reads an operand, a placeholder value or a document path
+ */
+function readOperand(
+	reader: TokenReader,
+	attributes: ExpressionAttributes,
+): (item: Item | undefined) => AttributeValue | undefined {
+	const token = reader.peek();
+	if (token?.startsWith(":")) {
+		reader.next();
+		const value = attributes.values[token];
+		return () => value;
+	}
+	const path = readPath(reader, attributes);
+	return (item) => getPath(item, path);
+}
+
+/**
+ * Compares two attribute values of the same type, numbers by value
+ */
+function compare(
+	left: AttributeValue | undefined,
+	right: AttributeValue | undefined,
+): number | undefined {
+	if (left === undefined || right === undefined) {
+		return undefined;
+	}
+	if (left.N !== undefined && right.N !== undefined) {
+		return Number(left.N) - Number(right.N);
+	}
+	if (left.S !== undefined && right.S !== undefined) {
+		return left.S < right.S ? -1 : left.S > right.S ? 1 : 0;
+	}
+	return JSON.stringify(left) === JSON.stringify(right) ? 0 : undefined;
+}
+
+const COMPARATORS: { [operator: string]: (order: number) => boolean } = {
+	"=": (order) => order === 0,
+	"<>": (order) => order !== 0,
+	"<": (order) => order < 0,
+	"<=": (order) => order <= 0,
+	">": (order) => order > 0,
+	">=": (order) => order >= 0,
+};
+
+/**
+ * Parses a condition with attribute_exists, attribute_not_exists, contains, begins_with,
+ * comparisons, NOT, AND, OR and parentheses
+ */
+function parseCondition(
+	expression: string,
+	attributes: ExpressionAttributes,
+): Condition {
+	const reader = new TokenReader(tokenize(expression), expression);
+
+	const primary = (): Condition => {
+		if (reader.accept("(")) {
+			const condition = or();
+			reader.expect(")");
+			return condition;
+		}
+		const name = reader.peek()?.toLowerCase();
+		if (
+			name === "attribute_exists" ||
+			name === "attribute_not_exists" ||
+			name === "contains" ||
+			name === "begins_with"
+		) {
+			reader.next();
+			reader.expect("(");
+			const path = readPath(reader, attributes);
+			const operand = name === "contains" || name === "begins_with";
+			if (operand) {
+				reader.expect(",");
+			}
+			const value = operand ? readOperand(reader, attributes) : undefined;
+			reader.expect(")");
+			return (item) => {
+				const current = getPath(item, path);
+				const expected = value?.(item);
+				switch (name) {
+					case "attribute_exists":
+						return current !== undefined;
+					case "attribute_not_exists":
+						return current === undefined;
+					case "begins_with":
+						return (
+							current?.S !== undefined &&
+							expected?.S !== undefined &&
+							current.S.startsWith(expected.S)
+						);
+					default: {
+						const scalar = expected && Object.values(expected)[0];
+						if (current?.S !== undefined) {
+							return typeof scalar === "string" && current.S.includes(scalar);
+						}
+						const members: any[] | undefined =
+							current?.SS ?? current?.NS ?? current?.L;
+						return (
+							members?.some(
+								(member) =>
+									JSON.stringify(member) ===
+									JSON.stringify(current?.L ? expected : scalar),
+							) ?? false
+						);
+					}
+				}
+			};
+		}
+		const left = readOperand(reader, attributes);
+		const operator = reader.next();
+		const holds = COMPARATORS[operator];
+		if (!holds) {
+			throw reader.error();
+		}
+		const right = readOperand(reader, attributes);
+		return (item) => {
+			const order = compare(left(item), right(item));
+			return order === undefined ? operator === "<>" : holds(order);
+		};
+	};
+	const not = (): Condition => {
+		if (reader.accept("NOT")) {
+			const condition = not();
+			return (item) => !condition(item);
+		}
+		return primary();
+	};
+	const and = (): Condition => {
+		let condition = not();
+		while (reader.accept("AND")) {
+			const left = condition;
+			const right = not();
+			condition = (item) => left(item) && right(item);
+		}
+		return condition;
+	};
+	const or = (): Condition => {
+		let condition = and();
+		while (reader.accept("OR")) {
+			const left = condition;
+			const right = and();
+			condition = (item) => left(item) || right(item);
+		}
+		return condition;
+	};
+
+	const condition = or();
+	if (!reader.done()) {
+		throw reader.error();
+	}
+	return condition;
+}
+
+/**
+ * Applies an update expression with SET, ADD, DELETE and REMOVE clauses to a copy of an item
+ * SET supports values, paths, "+", "-" and if_not_exists, ADD adds to numbers and sets
+ */
+function applyUpdate(
+	item: Item,
+	expression: string,
+	attributes: ExpressionAttributes,
+): Item {
+	const updated: Item = JSON.parse(JSON.stringify(item));
+	const reader = new TokenReader(tokenize(expression), expression);
+	const clauses = ["SET", "ADD", "DELETE", "REMOVE"];
+	const value = (): AttributeValue | undefined => {
+		if (reader.peek()?.toLowerCase() === "if_not_exists") {
+			reader.next();
+			reader.expect("(");
+			const path = readPath(reader, attributes);
+			reader.expect(",");
+			const fallback = readOperand(reader, attributes)(item);
+			reader.expect(")");
+			return getPath(item, path) ?? fallback;
+		}
+		return readOperand(reader, attributes)(item);
+	};
+
+	while (!reader.done()) {
+		const clause = reader.next().toUpperCase();
+		if (!clauses.includes(clause)) {
+			throw reader.error();
+		}
+		do {
+			const path = readPath(reader, attributes);
+			if (clause === "REMOVE") {
+				setPath(updated, path, undefined);
+				continue;
+			}
+			if (clause === "SET") {
+				reader.expect("=");
+				let result = value();
+				const operator = reader.peek();
+				if (operator === "+" || operator === "-") {
+					reader.next();
+					const operand = value();
+					const sum =
+						Number(result?.N) +
+						Number(operand?.N) * (operator === "+" ? 1 : -1);
+					if (Number.isNaN(sum)) {
+						throw new StatesError(
+							"DynamoDb.DynamoDbException",
+							"An operand in the update expression has an incorrect data type",
+						);
+					}
+					result = { N: String(sum) };
+				}
+				setPath(updated, path, result);
+				continue;
+			}
+			const operand = readOperand(reader, attributes)(item) ?? {};
+			const current = getPath(updated, path);
+			const [type] = Object.keys(operand);
+			if (type === "N" && clause === "ADD") {
+				setPath(updated, path, {
+					N: String(Number(current?.N ?? 0) + Number(operand.N)),
+				});
+			} else if (type === "SS" || type === "NS") {
+				const members: any[] = current?.[type] ?? [];
+				const changed =
+					clause === "ADD"
+						? [...new Set([...members, ...operand[type]])]
+						: members.filter((member) => !operand[type].includes(member));
+				setPath(
+					updated,
+					path,
+					changed.length ? { [type]: changed } : undefined,
+				);
+			} else {
+				throw new StatesError(
+					"DynamoDb.DynamoDbException",
+					`An operand in the ${clause} clause has an incorrect data type`,
+				);
+			}
+		} while (reader.accept(","));
+	}
+	return updated;
+}
+
+/**
+ * An in-memory DynamoDB table with the actions of the resume workflows,
+ * keyed by "id" and, in fan-out mode, the execution ID.
+ * Failed conditions throw the StatesError the AWS SDK integration of Step Functions throws.
+ */
+export class SimulatedTable {
+	private items = new Map<string, Item>();
+	private readonly sortKey: string;
+
+	/**
+	 * @param sortKey sort key of the table, the execution ID of fan-out mode by default
+	 */
+	constructor(sortKey: string = FANOUT_SORT_KEY) {
+		this.sortKey = sortKey;
+	}
+
+	/**
+	 * Items of the table, in DynamoDB JSON
+	 */
+	public all(): Item[] {
+		return [...this.items.values()];
+	}
+
+	/**
+	 * Runs a DynamoDB action of the AWS SDK integration
+	 */
+	public invoke(action: string, parameters: any): any {
+		switch (action) {
+			case "putItem":
+				return this.write({ Put: parameters });
+			case "getItem": {
+				const item = this.items.get(this.itemKey(parameters.Key));
+				return item ? { Item: item } : {};
+			}
+			case "query":
+				return this.query(parameters);
+			case "updateItem":
+				return this.write({ Update: parameters });
+			case "deleteItem":
+				return this.write({ Delete: parameters });
+			case "transactWriteItems":
+				return this.transactWriteItems(parameters);
+			default:
+				throw new Error(
+					`The simulator does not support the dynamodb:${action} task`,
+				);
+		}
+	}
+
+	/**
+	 * Key of an item, the partition key and the sort key when present
+	 */
+	private itemKey(item: Item): string {
+		return JSON.stringify([item.id, item[this.sortKey]]);
+	}
+
+	/**
+	 * Applies a Put, Update, Delete or ConditionCheck after checking its condition
+	 */
+	private write(request: any): any {
+		const [[type, parameters]] = Object.entries<any>(request);
+		const key = this.itemKey(parameters.Item ?? parameters.Key);
+		const item = this.items.get(key);
+		const attributes = {
+			names: parameters.ExpressionAttributeNames ?? {},
+			values: parameters.ExpressionAttributeValues ?? {},
+		};
+		if (
+			parameters.ConditionExpression &&
+			!parseCondition(parameters.ConditionExpression, attributes)(item)
+		) {
+			throw new StatesError(
+				CONDITIONAL_CHECK_FAILED,
+				"The conditional request failed",
+			);
+		}
+		let updated: Item | undefined;
+		switch (type) {
+			case "Put":
+				updated = parameters.Item;
+				break;
+			case "Update":
+				updated = applyUpdate(
+					{ ...parameters.Key, ...item },
+					parameters.UpdateExpression,
+					attributes,
+				);
+				break;
+			case "Delete":
+				updated = undefined;
+				break;
+			case "ConditionCheck":
+				return {};
+			default:
+				throw new Error(`The simulator does not support the ${type} request`);
+		}
+		if (updated) {
+			this.items.set(key, updated);
+		} else {
+			this.items.delete(key);
+		}
+		const returned = {
+			ALL_OLD: item,
+			ALL_NEW: updated,
+		}[parameters.ReturnValues as string];
+		return returned ? { Attributes: returned } : {};
+	}
+
+	/**
+	 * Applies all requests or, when a condition fails, none
+	 */
+	private transactWriteItems(parameters: any): any {
+		const snapshot = new Map(this.items);
+		const reasons = (parameters.TransactItems as any[]).map((request) => {
+			try {
+				this.write(request);
+				return "None";
+			} catch (error) {
+				if (
+					!(error instanceof StatesError) ||
+					error.error !== CONDITIONAL_CHECK_FAILED
+				) {
+					throw error;
+				}
+				return "ConditionalCheckFailed";
+			}
+		});
+		if (reasons.some((reason) => reason !== "None")) {
+			this.items = snapshot;
+			throw new StatesError(
+				"DynamoDb.TransactionCanceledException",
+				`Transaction cancelled, please refer cancellation reasons for specific reasons [${reasons.join(", ")}]`,
+			);
+		}
+		return {};
+	}
+
+	private query(parameters: any): any {
+		if (!/^\s*id\s*=\s*:\w+\s*$/.test(parameters.KeyConditionExpression)) {
+			throw new Error(
+				`The simulator does not support the key condition ${parameters.KeyConditionExpression}`,
+			);
+		}
+		const [value] = Object.values(parameters.ExpressionAttributeValues);
+		const items = [...this.items.values()].filter(
+			(item) => JSON.stringify(item.id) === JSON.stringify(value),
+		);
+		return { Items: items, Count: items.length, ScannedCount: items.length };
+	}
+}
@@ -0,0 +1,542 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+
+import { Construct } from "constructs";
+import * as cdk from "aws-cdk-lib";
+import { NagSuppressions } from "cdk-nag";
+import { parseJsonPath } from "./jsonata";
+import { validateEventPattern } from "./validation";
+
+import {
+	aws_apigateway as apigateway,
+	aws_stepfunctions as sfn,
+	aws_events as events,
+	aws_events_targets as targets,
+	aws_iam as iam,
+	aws_kms as kms,
+	aws_lambda as lambda,
+	aws_logs as logs,
+	aws_pipes as pipes,
+	aws_sns as sns,
+	aws_sns_subscriptions as subscriptions,
+	aws_sqs as sqs,
+} from "aws-cdk-lib";
+
+/**
+ * Field of the resume state machine input that carries the correlation ID
+ * extracted by a trigger. Inputs without it are EventBridge events, whose
+ * ID is read from pathToIdWorkflow.
+ */
+export const RESUME_ID_FIELD = "sfnResumeId";
+
+export interface ResumeTriggerBindOptions {
+	/**
+	 * The resume state machine the trigger starts
+	 * @default - the trigger invokes resumeFunction
+	 */
+	readonly stateMachine?: sfn.IStateMachine;
+	/**
+	 * The resume function the trigger invokes asynchronously in the LAMBDA resume mode
+	 * @default - the trigger starts stateMachine
+	 */
+	readonly resumeFunction?: lambda.IFunction;
+	/**
+	 * Suffix of the sfnResume instance, used in resource descriptions
+	 */
+	readonly nameSuffix: string;
+	/**
+	 * Prepended to the extracted correlation ID as "<idPrefix>#<id>",
+	 * for pause points that share a SfnResumeHub table
+	 * @default - the ID is passed as is
+	 */
+	readonly idPrefix?: string;
+	/**
+	 * Customer-managed key of the resume state machine,
+	 * principals that start an encrypted state machine need to generate data keys with it
+	 * @default - the state machine uses an AWS owned key
+	 */
+	readonly encryptionKey?: kms.IKey;
+}
+
+/**
+ * Renders the correlation ID with the prefix of the bind options
+ */
+function prefixedId(id: string, options: ResumeTriggerBindOptions): string {
+	return options.idPrefix ? `${options.idPrefix}#${id}` : id;
+}
+
+/**
+ * Returns the resume state machine or function the trigger delivers to
+ */
+function resumeTarget(
+	options: ResumeTriggerBindOptions,
+): { stateMachine: sfn.IStateMachine } | { resumeFunction: lambda.IFunction } {
+	if (options.resumeFunction) {
+		return { resumeFunction: options.resumeFunction };
+	}
+	if (!options.stateMachine) {
+		throw new Error(
+			"Resume triggers require a stateMachine or a resumeFunction",
+		);
+	}
+	return { stateMachine: options.stateMachine };
+}
+
+/**
+ * Allows a role to start the resume state machine, and to use its key when it is encrypted,
+ * or to invoke the resume function
+ */
+function grantStartResume(
+	role: iam.IGrantable,
+	options: ResumeTriggerBindOptions,
+): void {
+	const target = resumeTarget(options);
+	if ("resumeFunction" in target) {
+		iam.Grant.addToPrincipal({
+			grantee: role,
+			actions: ["lambda:InvokeFunction"],
+			resourceArns: [target.resumeFunction.functionArn],
+		});
+		return;
+	}
+	target.stateMachine.grantStartExecution(role);
+	options.encryptionKey?.grant(role, "kms:GenerateDataKey");
+}
+
+/**
+ * A source of completion signals that starts the resume state machine
+ *
+ * Triggers either deliver an EventBridge event as is, or an envelope of the form
+ * { "sfnResumeId": <correlation ID>, "id": <event ID>, "source": ..., "detail-type": ..., "detail": <payload> }
+ * so JSON paths into $.detail work the same for every trigger. The event ID stays the same when the
+ * event or message is redelivered, and is missing for sources without one, such as HTTP callbacks.
+ */
+export interface IResumeTrigger {
+	/**
+	 * Connects the trigger source to the resume state machine, or to the resume function
+	 * @param scope - Scope for the resources of this trigger
+	 */
+	bind(scope: Construct, options: ResumeTriggerBindOptions): void;
+}
+
+/**
+ * Renders the envelope as an input template, with the placeholders of the target service
+ */
+function envelopeTemplate(
+	id: string,
+	source: string,
+	detailType: string,
+	detail: string,
+	eventId?: string,
+): string {
+	const eventIdField = eventId ? `"id": "${eventId}", ` : "";
+	return `{"${RESUME_ID_FIELD}": "${id}", ${eventIdField}"source": "${source}", "detail-type": "${detailType}", "detail": ${detail}}`;
+}
+
+export interface EventBridgeResumeTriggerProps {
+	/**
+	 * Pattern that matches the completion events
+	 */
+	readonly eventPattern: events.EventPattern;
+	/**
+	 * JSON path to the correlation ID in the event,
+	 * or several paths whose values are joined with "#" into a composite ID
+	 * @default - pathToIdWorkflow of the sfnResume instance
+	 */
+	readonly pathToId?: string | string[];
+	/**
+	 * Event bus the rule is created on
+	 * @default - the account's default event bus
+	 */
+	readonly eventBus?: events.IEventBus;
+	/**
+	 * Accounts allowed to put events on the event bus
+	 * @default - no cross-account access
+	 */
+	readonly sourceAccounts?: string[];
+	/**
+	 * Archive the matched events so they can be replayed
+	 * @default false
+	 */
+	readonly archive?: boolean;
+	/**
+	 * How long archived events are kept
+	 * @default - indefinitely
+	 */
+	readonly archiveRetention?: cdk.Duration;
+	/**
+	 * Queue that receives events the rule could not deliver to the resume state machine
+	 * @default - no dead-letter queue
+	 */
+	readonly deadLetterQueue?: sqs.IQueue;
+	/**
+	 * How often the rule retries delivering an event
+	 * @default 185
+	 */
+	readonly retryAttempts?: number;
+	/**
+	 * How long the rule retries delivering an event
+	 * @default cdk.Duration.hours(24)
+	 */
+	readonly maxEventAge?: cdk.Duration;
+}
+
+/**
+ * Resumes from EventBridge events matching a pattern
+ */
+export class EventBridgeResumeTrigger implements IResumeTrigger {
+	/**
+	 * The resume rule, available once the trigger is bound
+	 */
+	public rule?: events.Rule;
+
+	constructor(private readonly props: EventBridgeResumeTriggerProps) {}
+
+	public bind(scope: Construct, options: ResumeTriggerBindOptions): void {
+		const props = this.props;
+
+		validateEventPattern(props.eventPattern);
+		if (options.idPrefix && !props.pathToId) {
+			throw new Error(
+				"EventBridgeResumeTrigger requires pathToId when the ID is prefixed",
+			);
+		}
+
+		/**
+		 * Creates an EventBridge rule that triggers the resume workflow
+		 * Events are delivered as is, or as an envelope when the trigger has its own ID path
+		 */
+		const eventRule = new events.Rule(scope, "resumeRule", {
+			description: `${options.nameSuffix} sfnResume`,
+			eventPattern: props.eventPattern,
+			eventBus: props.eventBus,
+		});
+
+		const input = props.pathToId
+			? events.RuleTargetInput.fromObject({
+					[RESUME_ID_FIELD]: prefixedId(
+						([] as string[])
+							.concat(props.pathToId)
+							.map((path) => events.EventField.fromPath(path))
+							.join("#"),
+						options,
+					),
+					id: events.EventField.eventId,
+					source: events.EventField.source,
+					"detail-type": events.EventField.detailType,
+					detail: events.EventField.fromPath("$.detail"),
+				})
+			: undefined;
+		const target = resumeTarget(options);
+
+		/**
+		 * The target creates a shared role unless the state machine is encrypted,
+		 * then the rule gets its own role that may use the key
+		 * Functions are invoked through their resource policy
+		 */
+		if ("resumeFunction" in target) {
+			eventRule.addTarget(
+				new targets.LambdaFunction(target.resumeFunction, {
+					event: input,
+					deadLetterQueue: props.deadLetterQueue,
+					retryAttempts: props.retryAttempts,
+					maxEventAge: props.maxEventAge,
+				}),
+			);
+		} else {
+			const role =
+				options.encryptionKey &&
+				new iam.Role(scope, "resumeRuleRole", {
+					assumedBy: new iam.ServicePrincipal("events.amazonaws.com"),
+					description: "Role for the sfnResume rule",
+				});
+			if (role) {
+				grantStartResume(role, options);
+			}
+
+			eventRule.addTarget(
+				new targets.SfnStateMachine(target.stateMachine, {
+					role: role,
+					input: input,
+					deadLetterQueue: props.deadLetterQueue,
+					retryAttempts: props.retryAttempts,
+					maxEventAge: props.maxEventAge,
+				}),
+			);
+		}
+		this.rule = eventRule;
+
+		const eventBus =
+			props.eventBus ??
+			events.EventBus.fromEventBusName(scope, "defaultEventBus", "default");
+
+		/**
+		 * Allows other accounts to forward completion events to the event bus
+		 */
+		for (const account of props.sourceAccounts ?? []) {
+			new events.CfnEventBusPolicy(scope, `sourceAccountPolicy${account}`, {
+				eventBusName: eventBus.eventBusName,
+				statementId: `sfnResume-${options.nameSuffix}-${account}`,
+				action: "events:PutEvents",
+				principal: account,
+			});
+		}
+
+		/**
+		 * Archives the matched events so they can be replayed after an outage
+		 */
+		if (props.archive) {
+			new events.Archive(scope, "resumeArchive", {
+				sourceEventBus: eventBus,
+				description: `${options.nameSuffix} sfnResume`,
+				eventPattern: props.eventPattern,
+				retention: props.archiveRetention,
+			});
+		}
+	}
+}
+
+export interface SqsResumeTriggerProps {
+	/**
+	 * Queue that receives the completion messages
+	 */
+	readonly queue: sqs.IQueue;
+	/**
+	 * JSON path to the correlation ID in the JSON message body
+	 */
+	readonly pathToId: string;
+}
+
+/**
+ * Resumes from JSON messages on an SQS queue, through an EventBridge pipe
+ * The message body is delivered as the detail of the envelope. Bodies that are not JSON cannot be
+ * placed in the envelope and never resume, so give the queue a dead-letter queue to keep them.
+ */
+export class SqsResumeTrigger implements IResumeTrigger {
+	constructor(private readonly props: SqsResumeTriggerProps) {
+		parseJsonPath(props.pathToId);
+	}
+
+	public bind(scope: Construct, options: ResumeTriggerBindOptions): void {
+		const role = new iam.Role(scope, "PipeRole", {
+			assumedBy: new iam.ServicePrincipal("pipes.amazonaws.com"),
+			description: "Role for the sfnResume SQS pipe",
+		});
+		this.props.queue.grantConsumeMessages(role);
+		grantStartResume(role, options);
+
+		/**
+		 * Pipes parses JSON message bodies, so the ID is read below $.body
+		 * Standard workflows only support fire and forget invocations,
+		 * and the resume function is invoked asynchronously as well
+		 */
+		const target = resumeTarget(options);
+		new pipes.CfnPipe(scope, "resumePipe", {
+			description: `${options.nameSuffix} sfnResume`,
+			roleArn: role.roleArn,
+			source: this.props.queue.queueArn,
+			sourceParameters: {
+				sqsQueueParameters: { batchSize: 1 },
+			},
+			target:
+				"resumeFunction" in target
+					? target.resumeFunction.functionArn
+					: target.stateMachine.stateMachineArn,
+			targetParameters: {
+				...("resumeFunction" in target
+					? { lambdaFunctionParameters: { invocationType: "FIRE_AND_FORGET" } }
+					: {
+							stepFunctionStateMachineParameters: {
+								invocationType: "FIRE_AND_FORGET",
+							},
+						}),
+				inputTemplate: envelopeTemplate(
+					prefixedId(`<$.body${this.props.pathToId.slice(1)}>`, options),
+					"sfnResume.sqs",
+					"SQS Message",
+					"<$.body>",
+					"<$.messageId>",
+				),
+			},
+		});
+	}
+}
+
+export interface SnsResumeTriggerProps {
+	/**
+	 * Topic that receives the completion messages
+	 */
+	readonly topic: sns.ITopic;
+	/**
+	 * JSON path to the correlation ID in the JSON message
+	 */
+	readonly pathToId: string;
+}
+
+/**
+ * Resumes from JSON messages published to an SNS topic
+ * Messages are buffered in a queue subscribed to the topic and delivered like the SQS trigger
+ */
+export class SnsResumeTrigger implements IResumeTrigger {
+	constructor(private readonly props: SnsResumeTriggerProps) {
+		parseJsonPath(props.pathToId);
+	}
+
+	public bind(scope: Construct, options: ResumeTriggerBindOptions): void {
+		const deadLetterQueue = new sqs.Queue(scope, "deadLetterQueue", {
+			enforceSSL: true,
+		});
+		const queue = new sqs.Queue(scope, "queue", {
+			enforceSSL: true,
+			deadLetterQueue: { queue: deadLetterQueue, maxReceiveCount: 3 },
+		});
+
+		this.props.topic.addSubscription(
+			new subscriptions.SqsSubscription(queue, { rawMessageDelivery: true }),
+		);
+
+		new SqsResumeTrigger({
+			queue: queue,
+			pathToId: this.props.pathToId,
+		}).bind(scope, options);
+	}
+}
+
+export interface HttpResumeTriggerProps {
+	/**
+	 * JSON path to the correlation ID in the JSON request body
+	 */
+	readonly pathToId: string;
+	/**
+	 * Name of the REST API
+	 * @default - generated by CloudFormation
+	 */
+	readonly restApiName?: string;
+}
+
+/**
+ * Resumes from HTTP callbacks to an IAM authorised API Gateway REST API
+ * POST /resume starts the resume state machine with the request body as the detail of the envelope
+ */
+export class HttpResumeTrigger implements IResumeTrigger {
+	/**
+	 * The REST API, available once the trigger is bound
+	 */
+	public api?: apigateway.RestApi;
+
+	constructor(private readonly props: HttpResumeTriggerProps) {
+		parseJsonPath(props.pathToId);
+	}
+
+	public bind(scope: Construct, options: ResumeTriggerBindOptions): void {
+		const role = new iam.Role(scope, "ApiRole", {
+			assumedBy: new iam.ServicePrincipal("apigateway.amazonaws.com"),
+			description: "Role for the sfnResume HTTP callback API",
+		});
+		grantStartResume(role, options);
+
+		this.api = new apigateway.RestApi(scope, "resumeApi", {
+			restApiName: this.props.restApiName,
+			description: `${options.nameSuffix} sfnResume`,
+			cloudWatchRole: false,
+			defaultMethodOptions: {
+				authorizationType: apigateway.AuthorizationType.IAM,
+			},
+			deployOptions: {
+				accessLogDestination: new apigateway.LogGroupLogDestination(
+					new logs.LogGroup(scope, "accessLogs"),
+				),
+				accessLogFormat: apigateway.AccessLogFormat.jsonWithStandardFields(),
+			},
+		});
+
+		/**
+		 * StartExecution takes the input as a string, so the envelope is escaped into it
+		 * escapeJavaScript also escapes single quotes, which is not valid JSON and is reverted
+		 * The resume function takes the envelope as the body of an asynchronous invocation
+		 */
+		const target = resumeTarget(options);
+		const escapedId = `#set($id = $util.escapeJavaScript($input.path('${this.props.pathToId}')).replaceAll("\\\\'", "'"))`;
+		const integration =
+			"resumeFunction" in target
+				? new apigateway.AwsIntegration({
+						service: "lambda",
+						path: `2015-03-31/functions/${target.resumeFunction.functionArn}/invocations`,
+						integrationHttpMethod: "POST",
+						options: {
+							credentialsRole: role,
+							requestParameters: {
+								"integration.request.header.X-Amz-Invocation-Type": "'Event'",
+							},
+							requestTemplates: {
+								"application/json": [
+									escapedId,
+									envelopeTemplate(
+										prefixedId("$id", options),
+										"sfnResume.http",
+										"HTTP Callback",
+										"$input.json('$')",
+									),
+								].join("\n"),
+							},
+							integrationResponses: [{ statusCode: "202" }],
+						},
+					})
+				: new apigateway.AwsIntegration({
+						service: "states",
+						action: "StartExecution",
+						options: {
+							credentialsRole: role,
+							requestTemplates: {
+								"application/json": [
+									escapedId,
+									`#set($detail = $util.escapeJavaScript($input.json('$')).replaceAll("\\\\'", "'"))`,
+									`{"stateMachineArn": "${target.stateMachine.stateMachineArn}", "input": "{\\"${RESUME_ID_FIELD}\\": \\"${prefixedId("$id", options)}\\", \\"source\\": \\"sfnResume.http\\", \\"detail-type\\": \\"HTTP Callback\\", \\"detail\\": $detail}"}`,
+								].join("\n"),
+							},
+							integrationResponses: [{ statusCode: "202" }],
+						},
+					});
+
+		this.api.root.addResource("resume").addMethod("POST", integration, {
+			methodResponses: [{ statusCode: "202" }],
+			requestModels: {
+				"application/json": new apigateway.Model(scope, "callbackModel", {
+					restApi: this.api,
+					contentType: "application/json",
+					schema: { type: apigateway.JsonSchemaType.OBJECT },
+				}),
+			},
+			requestValidator: new apigateway.RequestValidator(
+				scope,
+				"requestValidator",
+				{
+					restApi: this.api,
+					validateRequestBody: true,
+					validateRequestParameters: true,
+				},
+			),
+		});
+
+		NagSuppressions.addResourceSuppressions(
+			this.api,
+			[
+				{
+					id: "AwsSolutions-COG4",
+					reason: "The callback API uses IAM authorisation instead of Cognito.",
+				},
+				{
+					id: "AwsSolutions-APIG3",
+					reason:
+						"IAM authorised callback API, WAF is left to the application.",
+				},
+				{
+					id: "AwsSolutions-APIG6",
+					reason:
+						"Access logging is enabled, execution logging requires an account level role.",
+				},
+			],
+			true,
+		);
+	}
+}
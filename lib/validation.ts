@@ -0,0 +1,166 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+
+import { Construct } from "constructs";
+import * as cdk from "aws-cdk-lib";
+import { parseJsonPath } from "./jsonata";
+import { ResumePath } from "./resumePath";
+import { BarrierOptions } from "./resumeWorkflow";
+import { SfnResumeProps } from "./sfnResume";
+
+import { aws_events as events, aws_stepfunctions as sfn } from "aws-cdk-lib";
+
+/**
+ * Resolves ID paths given as strings, sfn.JsonPath expressions or ResumePath objects into JSON path strings.
+ * Throws at synth time when a path is not a plain field or index reference.
+ * Paths into the context object, e.g. "$$.Execution.Name", are only accepted with allowContext.
+ */
+export function resolveIdPaths(
+	scope: Construct,
+	prop: string,
+	value: string | ResumePath | (string | ResumePath)[],
+	allowContext: boolean = false,
+): string | string[] {
+	const resolve = (path: string | ResumePath): string => {
+		const raw = path instanceof ResumePath ? path.path : path;
+		const resolved: string = sfn.JsonPath.isEncodedJsonPath(raw)
+			? cdk.Stack.of(scope).resolve(raw)
+			: raw;
+		try {
+			parseJsonPath(
+				allowContext && resolved.startsWith("$$")
+					? resolved.slice(1)
+					: resolved,
+			);
+		} catch (error) {
+			throw new Error(`Invalid ${prop}: ${(error as Error).message}`);
+		}
+		return resolved;
+	};
+	return Array.isArray(value) ? value.map(resolve) : resolve(value);
+}
+
+/**
+ * Throws when a name derived from nameSuffix is longer than the service allows
+ * or contains characters other than letters, digits, "-" and "_"
+ * @param resource - Kind of the named resource, used in the error message
+ */
+export function validateName(
+	nameSuffix: string,
+	name: string,
+	maxLength: number,
+	resource: string,
+): void {
+	if (cdk.Token.isUnresolved(name)) {
+		return;
+	}
+	if (!/^[A-Za-z0-9_-]+$/.test(name)) {
+		throw new Error(
+			`Invalid nameSuffix "${nameSuffix}": the ${resource} name "${name}" may only contain letters, digits, "-" and "_"`,
+		);
+	}
+	if (name.length > maxLength) {
+		throw new Error(
+			`Invalid nameSuffix "${nameSuffix}": the ${resource} name "${name}" is longer than ${maxLength} characters, shorten nameSuffix or the stack name`,
+		);
+	}
+}
+
+/**
+ * Throws when an event pattern matches no field, which would match every event on the bus
+ */
+export function validateEventPattern(eventPattern: events.EventPattern): void {
+	const isEmpty = (value: any): boolean =>
+		value === undefined ||
+		(Array.isArray(value)
+			? !value.length
+			: typeof value === "object" &&
+				value !== null &&
+				Object.values(value).every(isEmpty));
+	if (isEmpty(eventPattern)) {
+		throw new Error(
+			"The eventPattern must match at least one field of the event",
+		);
+	}
+}
+
+/**
+ * Throws when the barrier sets neither or both of pathToJobIds and expectedCount,
+ * when the counts are not positive integers, or when it is combined with fanOut, resumeOutput
+ * or the props that treat every stored item as a wait
+ * @returns The barrier with pathToJobIds resolved to a JSON path string
+ */
+export function validateBarrier(
+	scope: Construct,
+	props: SfnResumeProps,
+): BarrierOptions | undefined {
+	const barrier = props.barrier;
+	if (!barrier) {
+		return undefined;
+	}
+	if (
+		(barrier.pathToJobIds === undefined) ===
+		(barrier.expectedCount === undefined)
+	) {
+		throw new Error(
+			"barrier requires exactly one of pathToJobIds and expectedCount",
+		);
+	}
+	for (const [name, count] of Object.entries({
+		expectedCount: barrier.expectedCount,
+		quorum: barrier.quorum,
+	})) {
+		if (count !== undefined && !(Number.isInteger(count) && count >= 1)) {
+			throw new Error(
+				`barrier ${name} must be a positive integer, got ${count}`,
+			);
+		}
+	}
+	if (
+		barrier.quorum !== undefined &&
+		barrier.expectedCount !== undefined &&
+		barrier.quorum > barrier.expectedCount
+	) {
+		throw new Error(
+			`barrier quorum ${barrier.quorum} is larger than expectedCount ${barrier.expectedCount}`,
+		);
+	}
+	if (props.fanOut) {
+		throw new Error("barrier cannot be combined with fanOut");
+	}
+	if (props.resumeOutput) {
+		throw new Error(
+			"barrier cannot be combined with resumeOutput, the workflow is resumed with the job results",
+		);
+	}
+	if (props.lifecycleEventBus || props.history) {
+		throw new Error(
+			"barrier cannot be combined with lifecycleEventBus or history, which describe single waits",
+		);
+	}
+	const waitProps = Object.entries({
+		progressEventPattern: props.progressEventPattern,
+		operatorApi: props.operatorApi,
+		reaperMaxAge: props.reaperMaxAge,
+	})
+		.filter(([, value]) => value)
+		.map(([name]) => name);
+	if (waitProps.length) {
+		throw new Error(
+			`barrier cannot be combined with ${waitProps.join(", ")}, which treat the job entries of a barrier as waits`,
+		);
+	}
+	return {
+		pathToJobIds:
+			barrier.pathToJobIds === undefined
+				? undefined
+				: (resolveIdPaths(
+						scope,
+						"pathToJobIds",
+						barrier.pathToJobIds,
+						true,
+					) as string),
+		expectedCount: barrier.expectedCount,
+		quorum: barrier.quorum,
+	};
+}
@@ -0,0 +1,92 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+
+import * as cdk from "aws-cdk-lib";
+import { Template, Match } from "aws-cdk-lib/assertions";
+import { SfnResume } from "../lib/sfnResume";
+import * as events from "aws-cdk-lib/aws-events";
+
+describe("SfnResume Construct - CloudWatch Resources", () => {
+	test("Creates alarms, a dashboard and the TimeToResume metric when monitoring is enabled", () => {
+		// GIVEN
+		const app = new cdk.App();
+		const stack = new cdk.Stack(app, "TestStack");
+
+		// WHEN
+		const resume = new SfnResume(stack, "TestSfnResume", {
+			pathToIdPauseTask: "$.id",
+			pathToIdWorkflow: "$.id",
+			removalPolicy: cdk.RemovalPolicy.DESTROY,
+			nameSuffix: "test-resume",
+			eventPattern: {
+				source: ["test.source"],
+			} as events.EventPattern,
+			monitoring: true,
+		});
+
+		// THEN
+		const template = Template.fromStack(stack);
+
+		template.resourceCountIs("AWS::CloudWatch::Alarm", 2);
+		template.resourceCountIs("AWS::CloudWatch::Dashboard", 1);
+		expect(resume.alarms).toHaveLength(2);
+
+		template.hasResourceProperties("AWS::CloudWatch::Alarm", {
+			Namespace: "AWS/States",
+			MetricName: "ExecutionsFailed",
+			Threshold: 1,
+			TreatMissingData: "notBreaching",
+		});
+		template.hasResourceProperties("AWS::CloudWatch::Alarm", {
+			Namespace: "AWS/Events",
+			MetricName: "FailedInvocations",
+			Dimensions: [
+				{
+					Name: "RuleName",
+					Value: { Ref: Match.stringLikeRegexp("resumeRule") },
+				},
+			],
+		});
+
+		// Verify the resume workflow publishes the time since the token was stored
+		const stateMachines = template.findResources(
+			"AWS::StepFunctions::StateMachine",
+		);
+		const definition = JSON.stringify(stateMachines);
+		expect(definition).toContain("publishTimeToResume");
+		expect(definition).toContain("TimeToResume");
+		expect(definition).toContain("createdAt");
+	});
+
+	test("Exposes the resume resources without creating monitoring by default", () => {
+		// GIVEN
+		const app = new cdk.App();
+		const stack = new cdk.Stack(app, "TestStack");
+
+		// WHEN
+		const resume = new SfnResume(stack, "TestSfnResume", {
+			pathToIdPauseTask: "$.id",
+			pathToIdWorkflow: "$.id",
+			removalPolicy: cdk.RemovalPolicy.DESTROY,
+			nameSuffix: "test-resume",
+			eventPattern: {
+				source: ["test.source"],
+			} as events.EventPattern,
+		});
+
+		// THEN
+		const template = Template.fromStack(stack);
+
+		expect(resume.stateMachine).toBeDefined();
+		expect(resume.table).toBeDefined();
+		expect(resume.rule).toBeDefined();
+		expect(resume.alarms).toHaveLength(0);
+		template.resourceCountIs("AWS::CloudWatch::Alarm", 0);
+		template.resourceCountIs("AWS::CloudWatch::Dashboard", 0);
+		expect(
+			JSON.stringify(
+				template.findResources("AWS::StepFunctions::StateMachine"),
+			),
+		).not.toContain("publishTimeToResume");
+	});
+});
@@ -2,8 +2,10 @@
 // SPDX-License-Identifier: MIT-0
 
 import * as cdk from "aws-cdk-lib";
-import { Template } from "aws-cdk-lib/assertions";
-import { sfnResume } from "../lib/sfnResume";
+import { Template, Match } from "aws-cdk-lib/assertions";
+import { SfnResume } from "../lib/sfnResume";
+import * as backup from "aws-cdk-lib/aws-backup";
+import * as dynamodb from "aws-cdk-lib/aws-dynamodb";
 import * as events from "aws-cdk-lib/aws-events";
 
 describe("SfnResume Construct - DynamoDB Resources", () => {
@@ -13,7 +15,7 @@ describe("SfnResume Construct - DynamoDB Resources", () => {
 		const stack = new cdk.Stack(app, "TestStack");
 
 		// WHEN
-		new sfnResume(stack, "TestSfnResume", {
+		new SfnResume(stack, "TestSfnResume", {
 			pathToIdPauseTask: "$.id",
 			pathToIdWorkflow: "$.id",
 			removalPolicy: cdk.RemovalPolicy.DESTROY,
@@ -50,4 +52,220 @@ describe("SfnResume Construct - DynamoDB Resources", () => {
 			UpdateReplacePolicy: "Delete",
 		});
 	});
+
+	test("Enables TTL on the table when the pause task has a timeout", () => {
+		// GIVEN
+		const app = new cdk.App();
+		const stack = new cdk.Stack(app, "TestStack");
+
+		// WHEN
+		new SfnResume(stack, "TestSfnResume", {
+			pathToIdPauseTask: "$.id",
+			pathToIdWorkflow: "$.id",
+			removalPolicy: cdk.RemovalPolicy.DESTROY,
+			nameSuffix: "test-resume",
+			eventPattern: {
+				source: ["test.source"],
+				detailType: ["test.event"],
+			} as events.EventPattern,
+			timeout: cdk.Duration.days(7),
+		});
+
+		// THEN
+		const template = Template.fromStack(stack);
+
+		template.hasResourceProperties("AWS::DynamoDB::Table", {
+			TimeToLiveSpecification: {
+				AttributeName: "expiresAt",
+				Enabled: true,
+			},
+		});
+	});
+
+	test("Enables TTL for the resumed markers without a timeout", () => {
+		// GIVEN
+		const app = new cdk.App();
+		const stack = new cdk.Stack(app, "TestStack");
+
+		// WHEN
+		new SfnResume(stack, "TestSfnResume", {
+			pathToIdPauseTask: "$.id",
+			pathToIdWorkflow: "$.id",
+			removalPolicy: cdk.RemovalPolicy.DESTROY,
+			nameSuffix: "test-resume",
+			eventPattern: {
+				source: ["test.source"],
+				detailType: ["test.event"],
+			} as events.EventPattern,
+		});
+
+		// THEN
+		const template = Template.fromStack(stack);
+
+		template.hasResourceProperties("AWS::DynamoDB::Table", {
+			TimeToLiveSpecification: {
+				AttributeName: "expiresAt",
+				Enabled: true,
+			},
+		});
+	});
+
+	test("Names the timeout when the result mapping has no JSONata equivalent", () => {
+		// GIVEN
+		const app = new cdk.App();
+		const stack = new cdk.Stack(app, "TestStack");
+		const props = {
+			pathToIdPauseTask: "$.id",
+			pathToIdWorkflow: "$.id",
+			removalPolicy: cdk.RemovalPolicy.DESTROY,
+			nameSuffix: "test-resume",
+			eventPattern: { source: ["test.source"] },
+			timeout: cdk.Duration.days(7),
+		};
+
+		// THEN
+		for (const [id, mapping] of [
+			[
+				"Intrinsic",
+				{
+					resultPath: "$.result",
+					resultSelector: { "a.$": "States.JsonToString($.b)" },
+				},
+			],
+			[
+				"Wildcard",
+				{
+					resultPath: "$.result",
+					resultSelector: { "ids.$": "$.items[*].id" },
+				},
+			],
+			["Index", { resultPath: "$.a[0]" }],
+		] as const) {
+			expect(
+				() =>
+					new SfnResume(stack, id, { ...props, ...mapping, nameSuffix: id }),
+			).toThrow("timeout renders the pause task as a JSONata state");
+		}
+		expect(
+			() =>
+				new SfnResume(stack, "NoTimeout", {
+					...props,
+					timeout: undefined,
+					nameSuffix: "no-timeout",
+					resultPath: "$.result",
+					resultSelector: { "ids.$": "$.items[*].id" },
+				}),
+		).not.toThrow();
+	});
+
+	test("Adds the execution ID as sort key in fan-out mode", () => {
+		// GIVEN
+		const app = new cdk.App();
+		const stack = new cdk.Stack(app, "TestStack");
+
+		// WHEN
+		new SfnResume(stack, "TestSfnResume", {
+			pathToIdPauseTask: "$.id",
+			pathToIdWorkflow: "$.id",
+			removalPolicy: cdk.RemovalPolicy.DESTROY,
+			nameSuffix: "test-resume",
+			eventPattern: {
+				source: ["test.source"],
+				detailType: ["test.event"],
+			} as events.EventPattern,
+			fanOut: true,
+		});
+
+		// THEN
+		const template = Template.fromStack(stack);
+
+		template.hasResourceProperties("AWS::DynamoDB::Table", {
+			KeySchema: [
+				{ AttributeName: "id", KeyType: "HASH" },
+				{ AttributeName: "executionId", KeyType: "RANGE" },
+			],
+		});
+	});
+
+	test("Protects the table and scales provisioned capacity", () => {
+		// GIVEN
+		const app = new cdk.App();
+		const stack = new cdk.Stack(app, "TestStack");
+		const plan = backup.BackupPlan.daily35DayRetention(stack, "Plan");
+
+		// WHEN
+		new SfnResume(stack, "TestSfnResume", {
+			pathToIdPauseTask: "$.id",
+			pathToIdWorkflow: "$.id",
+			removalPolicy: cdk.RemovalPolicy.RETAIN,
+			nameSuffix: "test-resume",
+			eventPattern: {
+				source: ["test.source"],
+			} as events.EventPattern,
+			pointInTimeRecovery: true,
+			deletionProtection: true,
+			provisionedCapacity: { minCapacity: 5, maxCapacity: 50 },
+			backupPlan: plan,
+		});
+
+		// THEN
+		const template = Template.fromStack(stack);
+
+		template.hasResourceProperties("AWS::DynamoDB::Table", {
+			BillingMode: Match.absent(),
+			ProvisionedThroughput: { ReadCapacityUnits: 5, WriteCapacityUnits: 5 },
+			PointInTimeRecoverySpecification: { PointInTimeRecoveryEnabled: true },
+			DeletionProtectionEnabled: true,
+		});
+		template.resourceCountIs("AWS::ApplicationAutoScaling::ScalableTarget", 2);
+		template.hasResourceProperties(
+			"AWS::ApplicationAutoScaling::ScalableTarget",
+			{ MinCapacity: 5, MaxCapacity: 50 },
+		);
+		template.hasResourceProperties("AWS::Backup::BackupSelection", {
+			BackupSelection: {
+				Resources: [{ "Fn::GetAtt": [Match.stringLikeRegexp("table"), "Arn"] }],
+			},
+		});
+	});
+
+	test("Uses an existing table instead of creating one", () => {
+		// GIVEN
+		const app = new cdk.App();
+		const stack = new cdk.Stack(app, "TestStack");
+		const table = dynamodb.Table.fromTableName(stack, "Existing", "tokens");
+
+		// WHEN
+		const resume = new SfnResume(stack, "TestSfnResume", {
+			pathToIdPauseTask: "$.id",
+			pathToIdWorkflow: "$.id",
+			removalPolicy: cdk.RemovalPolicy.RETAIN,
+			nameSuffix: "test-resume",
+			eventPattern: {
+				source: ["test.source"],
+			} as events.EventPattern,
+			table: table,
+		});
+
+		// THEN
+		const template = Template.fromStack(stack);
+
+		template.resourceCountIs("AWS::DynamoDB::Table", 0);
+		expect(resume.table).toBe(table);
+		expect(JSON.stringify(stack.resolve(resume.task.toStateJson()))).toContain(
+			"tokens",
+		);
+		expect(
+			() =>
+				new SfnResume(stack, "Protected", {
+					pathToIdPauseTask: "$.id",
+					removalPolicy: cdk.RemovalPolicy.RETAIN,
+					pathToIdWorkflow: "$.id",
+					nameSuffix: "protected",
+					eventPattern: { source: ["test.source"] },
+					table: table,
+					pointInTimeRecovery: true,
+				}),
+		).toThrow(/cannot be set with an existing table/);
+	});
 });
@@ -3,8 +3,9 @@
 
 import * as cdk from "aws-cdk-lib";
 import { Template, Match } from "aws-cdk-lib/assertions";
-import { sfnResume } from "../lib/sfnResume";
+import { SfnResume } from "../lib/sfnResume";
 import * as events from "aws-cdk-lib/aws-events";
+import * as sqs from "aws-cdk-lib/aws-sqs";
 
 describe("SfnResume Construct - EventBridge Resources", () => {
 	test("Creates EventBridge rule with correct configuration", () => {
@@ -13,7 +14,7 @@ describe("SfnResume Construct - EventBridge Resources", () => {
 		const stack = new cdk.Stack(app, "TestStack");
 
 		// WHEN
-		new sfnResume(stack, "TestSfnResume", {
+		new SfnResume(stack, "TestSfnResume", {
 			pathToIdPauseTask: "$.id",
 			pathToIdWorkflow: "$.id",
 			removalPolicy: cdk.RemovalPolicy.DESTROY,
@@ -53,7 +54,7 @@ describe("SfnResume Construct - EventBridge Resources", () => {
 		const stack = new cdk.Stack(app, "TestStack");
 
 		// WHEN
-		new sfnResume(stack, "TestSfnResume", {
+		new SfnResume(stack, "TestSfnResume", {
 			pathToIdPauseTask: "$.id",
 			pathToIdWorkflow: "$.id",
 			removalPolicy: cdk.RemovalPolicy.DESTROY,
@@ -81,4 +82,141 @@ describe("SfnResume Construct - EventBridge Resources", () => {
 			},
 		});
 	});
+
+	test("Creates the rule on a custom event bus with an archive", () => {
+		// GIVEN
+		const app = new cdk.App();
+		const stack = new cdk.Stack(app, "TestStack");
+		const eventBus = new events.EventBus(stack, "CompletionBus");
+
+		// WHEN
+		new SfnResume(stack, "TestSfnResume", {
+			pathToIdPauseTask: "$.id",
+			pathToIdWorkflow: "$.id",
+			removalPolicy: cdk.RemovalPolicy.DESTROY,
+			nameSuffix: "test-resume",
+			eventPattern: {
+				source: ["test.source"],
+				detailType: ["test.event"],
+			} as events.EventPattern,
+			eventBus: eventBus,
+			sourceAccounts: ["111111111111"],
+			archive: true,
+			archiveRetention: cdk.Duration.days(14),
+		});
+
+		// THEN
+		const template = Template.fromStack(stack);
+
+		// Verify the rule is created on the custom bus
+		template.hasResourceProperties("AWS::Events::Rule", {
+			EventBusName: {
+				Ref: Match.stringLikeRegexp("CompletionBus"),
+			},
+		});
+
+		// Verify the matched events are archived from the custom bus
+		template.hasResourceProperties("AWS::Events::Archive", {
+			SourceArn: {
+				"Fn::GetAtt": [Match.stringLikeRegexp("CompletionBus"), "Arn"],
+			},
+			EventPattern: {
+				source: ["test.source"],
+				"detail-type": ["test.event"],
+			},
+			RetentionDays: 14,
+		});
+
+		// Verify the other account may forward events to the bus
+		template.hasResourceProperties("AWS::Events::EventBusPolicy", {
+			StatementId: "sfnResume-test-resume-111111111111",
+			Action: "events:PutEvents",
+			Principal: "111111111111",
+		});
+	});
+
+	test("Uses the default event bus without an archive by default", () => {
+		// GIVEN
+		const app = new cdk.App();
+		const stack = new cdk.Stack(app, "TestStack");
+
+		// WHEN
+		new SfnResume(stack, "TestSfnResume", {
+			pathToIdPauseTask: "$.id",
+			pathToIdWorkflow: "$.id",
+			removalPolicy: cdk.RemovalPolicy.DESTROY,
+			nameSuffix: "test-resume",
+			eventPattern: {
+				source: ["test.source"],
+			} as events.EventPattern,
+		});
+
+		// THEN
+		const template = Template.fromStack(stack);
+
+		template.hasResourceProperties("AWS::Events::Rule", {
+			EventBusName: Match.absent(),
+		});
+		template.resourceCountIs("AWS::Events::Archive", 0);
+	});
+
+	test("Sends undeliverable events and failed resumes to the dead-letter queue", () => {
+		// GIVEN
+		const app = new cdk.App();
+		const stack = new cdk.Stack(app, "TestStack");
+		const deadLetterQueue = new sqs.Queue(stack, "DeadLetterQueue");
+
+		// WHEN
+		new SfnResume(stack, "TestSfnResume", {
+			pathToIdPauseTask: "$.id",
+			pathToIdWorkflow: "$.detail.jobId",
+			removalPolicy: cdk.RemovalPolicy.DESTROY,
+			nameSuffix: "test-resume",
+			eventPattern: {
+				source: ["test.source"],
+			} as events.EventPattern,
+			deadLetterQueue: deadLetterQueue,
+			eventRetryAttempts: 5,
+			maxEventAge: cdk.Duration.hours(2),
+		});
+
+		// THEN
+		const template = Template.fromStack(stack);
+
+		// Verify the resume target retries and dead-letters undeliverable events
+		template.hasResourceProperties("AWS::Events::Rule", {
+			EventPattern: { source: ["test.source"] },
+			Targets: [
+				Match.objectLike({
+					DeadLetterConfig: {
+						Arn: {
+							"Fn::GetAtt": [Match.stringLikeRegexp("DeadLetterQueue"), "Arn"],
+						},
+					},
+					RetryPolicy: {
+						MaximumRetryAttempts: 5,
+						MaximumEventAgeInSeconds: 7200,
+					},
+				}),
+			],
+		});
+
+		// Verify failed resume executions are sent to the same queue
+		template.hasResourceProperties("AWS::Events::Rule", {
+			EventPattern: {
+				source: ["aws.states"],
+				"detail-type": ["Step Functions Execution Status Change"],
+				detail: {
+					status: ["FAILED", "TIMED_OUT", "ABORTED"],
+				},
+			},
+			Targets: [
+				Match.objectLike({
+					Arn: {
+						"Fn::GetAtt": [Match.stringLikeRegexp("DeadLetterQueue"), "Arn"],
+					},
+				}),
+			],
+		});
+	});
 });
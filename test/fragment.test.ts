@@ -0,0 +1,152 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+
+import * as cdk from "aws-cdk-lib";
+import * as sfn from "aws-cdk-lib/aws-stepfunctions";
+import * as tasks from "aws-cdk-lib/aws-stepfunctions-tasks";
+import { SfnResume, SfnResumeProps } from "../lib/sfnResume";
+
+describe("SfnResume Construct - Start and Wait Fragment", () => {
+	const resumeProps: SfnResumeProps = {
+		pathToIdPauseTask: "$.id",
+		pathToIdWorkflow: "$.detail.jobId",
+		removalPolicy: cdk.RemovalPolicy.DESTROY,
+		nameSuffix: "test-resume",
+		eventPattern: { source: ["aws.translate"] },
+	};
+
+	const startJob = (
+		stack: cdk.Stack,
+		props: Partial<tasks.CallAwsServiceProps> = {},
+		id: string = "startJob",
+	) =>
+		new tasks.CallAwsService(stack, id, {
+			service: "translate",
+			action: "startTextTranslationJob",
+			parameters: { JobName: "job" },
+			iamResources: ["*"],
+			...props,
+		});
+
+	const definitionOf = (stack: cdk.Stack, chain: sfn.IChainable) => {
+		const stateMachine = new sfn.StateMachine(stack, "Workflow", {
+			definitionBody: sfn.DefinitionBody.fromChainable(chain),
+		});
+		const definition = stack.resolve(
+			(stateMachine.node.defaultChild as sfn.CfnStateMachine).definitionString,
+		);
+		return JSON.parse(
+			definition["Fn::Join"][1]
+				.map((part: any) => (typeof part === "string" ? part : "TOKEN"))
+				.join(""),
+		);
+	};
+
+	test("Keys the pause task by the job ID at the start task's resultPath", () => {
+		// GIVEN
+		const app = new cdk.App();
+		const stack = new cdk.Stack(app, "TestStack");
+		const resume = new SfnResume(stack, "TestSfnResume", resumeProps);
+
+		// WHEN
+		const fragment = resume.startAndWait(stack, "translate", {
+			startTask: startJob(stack, { resultPath: "$.startJob" }),
+			idSelector: "$.JobId",
+		});
+		const definition = definitionOf(
+			stack,
+			fragment.next(new sfn.Pass(stack, "done")),
+		);
+
+		// THEN
+		expect(definition.StartAt).toBe("startJob");
+		expect(definition.States.startJob.Next).toBe("translatePause");
+		expect(definition.States.translatePause.Next).toBe("done");
+		expect(definition.States.translatePause.Parameters.Item.id).toEqual({
+			"S.$": "$.startJob.JobId",
+		});
+	});
+
+	test("Reads the job ID from the result of a JSONata start task", () => {
+		// GIVEN
+		const app = new cdk.App();
+		const stack = new cdk.Stack(app, "TestStack");
+		const resume = new SfnResume(stack, "TestSfnResume", {
+			...resumeProps,
+			queryLanguage: sfn.QueryLanguage.JSONATA,
+		});
+
+		// WHEN
+		const fragment = resume.startAndWait(stack, "translate", {
+			startTask: tasks.CallAwsService.jsonata(stack, "startJob", {
+				service: "translate",
+				action: "startTextTranslationJob",
+				parameters: { JobName: "job" },
+				iamResources: ["*"],
+			}),
+			idSelector: ["$.JobId", "$.JobStatus"],
+		});
+
+		// THEN
+		expect(
+			stack.resolve(fragment.pauseTask.toStateJson()).Arguments.Item.id,
+		).toEqual({
+			S: "{% $states.input.JobId & '#' & $states.input.JobStatus %}",
+		});
+	});
+
+	test("Catches errors of both tasks and retries the start task", () => {
+		// GIVEN
+		const app = new cdk.App();
+		const stack = new cdk.Stack(app, "TestStack");
+		const resume = new SfnResume(stack, "TestSfnResume", resumeProps);
+		const fragment = resume.startAndWait(stack, "translate", {
+			startTask: startJob(stack),
+			idSelector: "$.JobId",
+		});
+
+		// WHEN
+		fragment
+			.addRetry({ errors: ["Translate.ThrottlingException"] })
+			.addCatch(new sfn.Pass(stack, "failed"), { resultPath: "$.error" });
+		const definition = definitionOf(stack, fragment);
+
+		// THEN
+		expect(definition.States.translatePause.Parameters.Item.id).toEqual({
+			"S.$": "$.JobId",
+		});
+		for (const state of ["startJob", "translatePause"]) {
+			expect(definition.States[state].Catch).toEqual([
+				{ ErrorEquals: ["States.ALL"], ResultPath: "$.error", Next: "failed" },
+			]);
+		}
+		expect(definition.States.startJob.Retry).toHaveLength(1);
+		expect(definition.States.translatePause.Retry).toBeUndefined();
+	});
+
+	test("Rejects start tasks that discard their result and barriers", () => {
+		// GIVEN
+		const app = new cdk.App();
+		const stack = new cdk.Stack(app, "TestStack");
+		const resume = new SfnResume(stack, "TestSfnResume", resumeProps);
+		const barrier = new SfnResume(stack, "Barrier", {
+			...resumeProps,
+			nameSuffix: "test-barrier",
+			barrier: { expectedCount: 2 },
+		});
+
+		// THEN
+		expect(() =>
+			resume.startAndWait(stack, "discarded", {
+				startTask: startJob(stack, { resultPath: sfn.JsonPath.DISCARD }),
+				idSelector: "$.JobId",
+			}),
+		).toThrow("startJob discards its result");
+		expect(() =>
+			barrier.startAndWait(stack, "barrier", {
+				startTask: startJob(stack, {}, "startBarrierJob"),
+				idSelector: "$.JobId",
+			}),
+		).toThrow("startAndWait does not support barriers");
+	});
+});
@@ -0,0 +1,109 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+
+import * as cdk from "aws-cdk-lib";
+import { Template, Match } from "aws-cdk-lib/assertions";
+import { SfnResumeHub } from "../lib/sfnResumeHub";
+import * as events from "aws-cdk-lib/aws-events";
+
+describe("SfnResume Construct - Hub", () => {
+	test("Shares one table and state machine across pause points", () => {
+		// GIVEN
+		const app = new cdk.App();
+		const stack = new cdk.Stack(app, "TestStack");
+		const hub = new SfnResumeHub(stack, "TestHub", {
+			removalPolicy: cdk.RemovalPolicy.DESTROY,
+			nameSuffix: "test-hub",
+		});
+
+		// WHEN
+		const translate = hub.pauseTask(stack, "translate", {
+			pathToIdPauseTask: "$.job.JobId",
+			pathToIdWorkflow: "$.detail.jobId",
+			eventPattern: {
+				source: ["aws.translate"],
+			} as events.EventPattern,
+		});
+		hub.pauseTask(stack, "transcribe", {
+			pathToIdPauseTask: "$.job.JobId",
+			pathToIdWorkflow: "$.detail.jobId",
+			eventPattern: {
+				source: ["aws.transcribe"],
+			} as events.EventPattern,
+		});
+
+		// THEN
+		const template = Template.fromStack(stack);
+
+		template.resourceCountIs("AWS::DynamoDB::Table", 1);
+		template.resourceCountIs("AWS::StepFunctions::StateMachine", 1);
+		template.resourceCountIs("AWS::Events::Rule", 2);
+
+		// Verify the stored ID is namespaced by the pause point
+		const state = stack.resolve(translate.toStateJson());
+		expect(state.Parameters.Item.id).toEqual({
+			"S.$": "States.Format('translate#{}', $.job.JobId)",
+		});
+
+		// Verify each rule passes the ID with the same namespace
+		template.hasResourceProperties("AWS::Events::Rule", {
+			EventPattern: { source: ["aws.transcribe"] },
+			Targets: [
+				{
+					InputTransformer: {
+						InputTemplate: Match.stringLikeRegexp(
+							'"sfnResumeId":"transcribe#<detail-jobId>"',
+						),
+					},
+				},
+			],
+		});
+	});
+
+	test("Rejects a namespace that is already registered", () => {
+		// GIVEN
+		const app = new cdk.App();
+		const stack = new cdk.Stack(app, "TestStack");
+		const hub = new SfnResumeHub(stack, "TestHub", {
+			removalPolicy: cdk.RemovalPolicy.DESTROY,
+			nameSuffix: "test-hub",
+		});
+		const pauseTaskProps = {
+			pathToIdPauseTask: "$.job.JobId",
+			pathToIdWorkflow: "$.detail.jobId",
+			eventPattern: {
+				source: ["aws.translate"],
+			} as events.EventPattern,
+			namespace: "translate",
+		};
+		hub.pauseTask(stack, "first", pauseTaskProps);
+
+		// THEN
+		expect(() => hub.pauseTask(stack, "second", pauseTaskProps)).toThrow(
+			/already registered/,
+		);
+	});
+
+	test("Accepts namespaces named like the resources of the hub", () => {
+		// GIVEN
+		const app = new cdk.App();
+		const stack = new cdk.Stack(app, "TestStack");
+		const hub = new SfnResumeHub(stack, "TestHub", {
+			removalPolicy: cdk.RemovalPolicy.DESTROY,
+			nameSuffix: "test-hub",
+			operatorApi: true,
+		});
+
+		// WHEN
+		for (const namespace of ["table", "operator", "registrations"]) {
+			hub.pauseTask(stack, namespace, {
+				pathToIdPauseTask: "$.job.JobId",
+				pathToIdWorkflow: "$.detail.jobId",
+				eventPattern: { source: [`aws.${namespace}`] },
+			});
+		}
+
+		// THEN
+		Template.fromStack(stack).resourceCountIs("AWS::Events::Rule", 3);
+	});
+});
@@ -0,0 +1,118 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+
+import * as cdk from "aws-cdk-lib";
+import { Annotations, Template, Match } from "aws-cdk-lib/assertions";
+import { SfnResume } from "../lib/sfnResume";
+import * as events from "aws-cdk-lib/aws-events";
+import * as iam from "aws-cdk-lib/aws-iam";
+import * as sfn from "aws-cdk-lib/aws-stepfunctions";
+
+describe("SfnResume Construct - IAM Resources", () => {
+	const resumeProps = {
+		pathToIdPauseTask: "$.id",
+		pathToIdWorkflow: "$.id",
+		removalPolicy: cdk.RemovalPolicy.DESTROY,
+		nameSuffix: "test-resume",
+		eventPattern: {
+			source: ["test.source"],
+		} as events.EventPattern,
+	};
+
+	test("Scopes the task token permissions to the granted state machines", () => {
+		// GIVEN
+		const app = new cdk.App();
+		const stack = new cdk.Stack(app, "TestStack");
+		const resume = new SfnResume(stack, "TestSfnResume", {
+			...resumeProps,
+			failureCondition: sfn.Condition.stringEquals("$.detail.status", "FAILED"),
+		});
+		const caller = new sfn.StateMachine(stack, "Caller", {
+			definitionBody: sfn.DefinitionBody.fromChainable(resume.task),
+		});
+
+		// WHEN
+		resume.grantResume(caller);
+
+		// THEN
+		const template = Template.fromStack(stack);
+		const callerRef = stack.resolve(caller.stateMachineArn);
+
+		template.hasResourceProperties("AWS::IAM::Policy", {
+			PolicyDocument: {
+				Statement: Match.arrayWith([
+					Match.objectLike({
+						Action: "states:sendTaskSuccess",
+						Resource: [callerRef],
+					}),
+					Match.objectLike({
+						Action: "states:sendTaskFailure",
+						Resource: [callerRef],
+					}),
+				]),
+			},
+		});
+
+		// Verify no policy allows the task token APIs on every state machine
+		const policies = JSON.stringify(
+			Object.values(template.findResources("AWS::IAM::Policy")).map(
+				(policy) => policy.Properties,
+			),
+		);
+		expect(policies).not.toContain(':*"');
+	});
+
+	test("Grants the table to a supplied role", () => {
+		// GIVEN
+		const app = new cdk.App();
+		const stack = new cdk.Stack(app, "TestStack");
+		const role = new iam.Role(stack, "CustomRole", {
+			assumedBy: new iam.ServicePrincipal("states.amazonaws.com"),
+		});
+
+		// WHEN
+		new SfnResume(stack, "TestSfnResume", { ...resumeProps, role: role });
+
+		// THEN
+		const template = Template.fromStack(stack);
+
+		template.hasResourceProperties("AWS::IAM::Policy", {
+			Roles: [stack.resolve(role.roleName)],
+			PolicyDocument: {
+				Statement: Match.arrayWith([
+					Match.objectLike({
+						Action: Match.arrayWith([
+							"dynamodb:GetItem",
+							"dynamodb:DeleteItem",
+						]),
+					}),
+				]),
+			},
+		});
+		Annotations.fromStack(stack).hasNoWarning(
+			"*",
+			Match.stringLikeRegexp("may not receive the grants"),
+		);
+	});
+
+	test("Warns when the supplied role was not created in the app", () => {
+		// GIVEN
+		const app = new cdk.App();
+		const stack = new cdk.Stack(app, "TestStack");
+		const role = iam.Role.fromRoleArn(
+			stack,
+			"ImportedRole",
+			"arn:aws:iam::123456789012:role/resume-role",
+			{ mutable: false },
+		);
+
+		// WHEN
+		new SfnResume(stack, "TestSfnResume", { ...resumeProps, role: role });
+
+		// THEN
+		Annotations.fromStack(stack).hasWarning(
+			"/TestStack/TestSfnResume",
+			Match.stringLikeRegexp("resume-role was not created in this app"),
+		);
+	});
+});
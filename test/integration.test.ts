@@ -3,7 +3,7 @@
 
 import * as cdk from "aws-cdk-lib";
 import { Template, Match } from "aws-cdk-lib/assertions";
-import { sfnResume } from "../lib/sfnResume";
+import { SfnResume } from "../lib/sfnResume";
 import * as events from "aws-cdk-lib/aws-events";
 import * as sfn from "aws-cdk-lib/aws-stepfunctions";
 
@@ -14,7 +14,7 @@ describe("SfnResume Construct - Integration Tests", () => {
 		const stack = new cdk.Stack(app, "TestStack");
 
 		// WHEN
-		const resumeConstruct = new sfnResume(stack, "TestSfnResume", {
+		const resumeConstruct = new SfnResume(stack, "TestSfnResume", {
 			pathToIdPauseTask: "$.id",
 			pathToIdWorkflow: "$.id",
 			removalPolicy: cdk.RemovalPolicy.DESTROY,
@@ -63,7 +63,7 @@ describe("SfnResume Construct - Integration Tests", () => {
 		const stack = new cdk.Stack(app, "TestStack");
 
 		// WHEN
-		new sfnResume(stack, "TestSfnResume", {
+		new SfnResume(stack, "TestSfnResume", {
 			pathToIdPauseTask: "$.data.requestId",
 			pathToIdWorkflow: "$.detail.requestId",
 			removalPolicy: cdk.RemovalPolicy.DESTROY,
@@ -93,4 +93,117 @@ describe("SfnResume Construct - Integration Tests", () => {
 			JSON.stringify(resumeStateMachine?.Properties?.DefinitionString),
 		).toContain("$.detail.requestId");
 	});
+
+	test("Places the resume output at the configured result path", () => {
+		// GIVEN
+		const app = new cdk.App();
+		const stack = new cdk.Stack(app, "TestStack");
+
+		// WHEN
+		const resumeConstruct = new SfnResume(stack, "TestSfnResume", {
+			pathToIdPauseTask: "$.id",
+			pathToIdWorkflow: "$.detail.jobId",
+			removalPolicy: cdk.RemovalPolicy.DESTROY,
+			nameSuffix: "test-resume",
+			eventPattern: {
+				source: ["test.source"],
+			} as events.EventPattern,
+			resumeOutput: sfn.TaskInput.fromJsonPathAt("$.detail"),
+			resultPath: "$.translation",
+			resultSelector: {
+				"outputUri.$": "$.outputDataConfig.s3Uri",
+			},
+		});
+
+		new sfn.StateMachine(stack, "TestStateMachine", {
+			definition: new sfn.Pass(stack, "Start").next(resumeConstruct.task),
+		});
+
+		// THEN
+		const template = Template.fromStack(stack);
+		const resources = template.findResources(
+			"AWS::StepFunctions::StateMachine",
+		);
+		const testStateMachine = Object.values(resources).find(
+			(resource) => !resource.Properties.StateMachineName,
+		);
+
+		const definition = JSON.stringify(
+			testStateMachine?.Properties?.DefinitionString,
+		);
+		expect(definition).toContain('\\"ResultPath\\":\\"$.translation\\"');
+		expect(definition).toContain("$.outputDataConfig.s3Uri");
+	});
+
+	test("Writes the token TTL and task timeouts in the pause task", () => {
+		// GIVEN
+		const app = new cdk.App();
+		const stack = new cdk.Stack(app, "TestStack");
+
+		// WHEN
+		const resumeConstruct = new SfnResume(stack, "TestSfnResume", {
+			pathToIdPauseTask: "$.createJob.JobId",
+			pathToIdWorkflow: "$.detail.jobId",
+			removalPolicy: cdk.RemovalPolicy.DESTROY,
+			nameSuffix: "test-resume",
+			eventPattern: {
+				source: ["test.source"],
+			} as events.EventPattern,
+			timeout: cdk.Duration.hours(2),
+			heartbeat: cdk.Duration.minutes(10),
+		});
+
+		// THEN
+		const state = stack.resolve(resumeConstruct.task.toStateJson());
+
+		expect(state.TimeoutSeconds).toBe(7200);
+		expect(state.HeartbeatSeconds).toBe(600);
+		expect(state.QueryLanguage).toBe("JSONata");
+		expect(state.Arguments.Item.id.S).toBe(
+			"{% $states.input.createJob.JobId %}",
+		);
+		expect(state.Arguments.Item.expiresAt.N).toBe(
+			"{% $string($floor($millis() / 1000) + 7200) %}",
+		);
+		// The default result path discards the resume output
+		expect(state.Output).toBe("{% $states.input %}");
+	});
+
+	test("Builds a composite key from several JSON paths", () => {
+		// GIVEN
+		const app = new cdk.App();
+		const stack = new cdk.Stack(app, "TestStack");
+
+		// WHEN
+		const resumeConstruct = new SfnResume(stack, "TestSfnResume", {
+			pathToIdPauseTask: ["$.tenant", "$.createJob.JobId"],
+			pathToIdWorkflow: ["$.detail.tenant", "$.detail.jobId"],
+			removalPolicy: cdk.RemovalPolicy.DESTROY,
+			nameSuffix: "test-resume",
+			eventPattern: {
+				source: ["test.source"],
+			} as events.EventPattern,
+		});
+
+		// THEN
+		const template = Template.fromStack(stack);
+		const state = stack.resolve(resumeConstruct.task.toStateJson());
+
+		expect(state.Parameters.Item.id).toEqual({
+			"S.$": "States.Format('{}#{}', $.tenant, $.createJob.JobId)",
+		});
+
+		// Verify the rule joins the event fields in the same order
+		template.hasResourceProperties("AWS::Events::Rule", {
+			Targets: [
+				{
+					InputTransformer: {
+						InputTemplate: Match.stringLikeRegexp(
+							'"sfnResumeId":"<detail-tenant>#<detail-jobId>"',
+						),
+					},
+				},
+			],
+		});
+	});
 });
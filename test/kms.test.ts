@@ -0,0 +1,180 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+
+import * as cdk from "aws-cdk-lib";
+import { Template, Match } from "aws-cdk-lib/assertions";
+import { ResumeMode, SfnResume } from "../lib/sfnResume";
+import * as events from "aws-cdk-lib/aws-events";
+import * as kms from "aws-cdk-lib/aws-kms";
+import * as sfn from "aws-cdk-lib/aws-stepfunctions";
+
+describe("SfnResume Construct - KMS Resources", () => {
+	test("Encrypts the table, the log groups and the state machines with the customer-managed key", () => {
+		// GIVEN
+		const app = new cdk.App();
+		const stack = new cdk.Stack(app, "TestStack");
+		const key = new kms.Key(stack, "Key", { enableKeyRotation: true });
+
+		// WHEN
+		const resume = new SfnResume(stack, "TestSfnResume", {
+			pathToIdPauseTask: "$.id",
+			pathToIdWorkflow: "$.id",
+			removalPolicy: cdk.RemovalPolicy.DESTROY,
+			nameSuffix: "test-resume",
+			eventPattern: {
+				source: ["test.source"],
+			} as events.EventPattern,
+			reaperMaxAge: cdk.Duration.days(7),
+			encryptionKey: key,
+		});
+		new sfn.StateMachine(stack, "Caller", {
+			definitionBody: sfn.DefinitionBody.fromChainable(resume.task),
+		});
+
+		// THEN
+		const template = Template.fromStack(stack);
+		const keyArn = stack.resolve(key.keyArn);
+
+		template.hasResourceProperties("AWS::DynamoDB::Table", {
+			SSESpecification: {
+				SSEEnabled: true,
+				SSEType: "KMS",
+				KMSMasterKeyId: keyArn,
+			},
+		});
+		template.allResourcesProperties("AWS::Logs::LogGroup", {
+			KmsKeyId: keyArn,
+		});
+		for (const name of [
+			"TestStack_test-resume",
+			"TestStack_test-resume_reaper",
+		]) {
+			template.hasResourceProperties("AWS::StepFunctions::StateMachine", {
+				StateMachineName: name,
+				EncryptionConfiguration: {
+					Type: "CUSTOMER_MANAGED_KMS_KEY",
+					KmsKeyId: keyArn,
+				},
+			});
+		}
+
+		// Verify CloudWatch Logs may use the key for the log groups
+		template.hasResourceProperties("AWS::KMS::Key", {
+			KeyPolicy: {
+				Statement: Match.arrayWith([
+					Match.objectLike({
+						Principal: {
+							Service: {
+								"Fn::Join": [
+									"",
+									["logs.", { Ref: "AWS::Region" }, ".amazonaws.com"],
+								],
+							},
+						},
+					}),
+				]),
+			},
+		});
+
+		// Verify the caller's role may encrypt the token and the rules may start the encrypted state machines
+		template.hasResourceProperties("AWS::IAM::Policy", {
+			Roles: [{ Ref: Match.stringLikeRegexp("CallerRole") }],
+			PolicyDocument: {
+				Statement: Match.arrayWith([
+					Match.objectLike({
+						Action: Match.arrayWith(["kms:Encrypt"]),
+						Resource: keyArn,
+					}),
+				]),
+			},
+		});
+		for (const role of ["resumeRuleRole", "reaperScheduleRole"]) {
+			template.hasResourceProperties("AWS::IAM::Policy", {
+				Roles: [{ Ref: Match.stringLikeRegexp(role) }],
+				PolicyDocument: {
+					Statement: Match.arrayWith([
+						Match.objectLike({
+							Action: "kms:GenerateDataKey",
+							Resource: keyArn,
+						}),
+					]),
+				},
+			});
+		}
+	});
+
+	test("Encrypts the log group of the resume function with the customer-managed key", () => {
+		// GIVEN
+		const app = new cdk.App();
+		const stack = new cdk.Stack(app, "TestStack");
+		const key = new kms.Key(stack, "Key", { enableKeyRotation: true });
+
+		// WHEN
+		new SfnResume(stack, "TestSfnResume", {
+			pathToIdPauseTask: "$.id",
+			pathToIdWorkflow: "$.id",
+			removalPolicy: cdk.RemovalPolicy.DESTROY,
+			nameSuffix: "test-resume",
+			eventPattern: {
+				source: ["test.source"],
+			} as events.EventPattern,
+			resumeMode: ResumeMode.LAMBDA,
+			encryptionKey: key,
+		});
+
+		// THEN
+		const template = Template.fromStack(stack);
+		template.hasResourceProperties("AWS::Logs::LogGroup", {
+			LogGroupName: "/aws/lambda/TestStack-test-resume-resume",
+			KmsKeyId: stack.resolve(key.keyArn),
+		});
+		template.hasResourceProperties("AWS::KMS::Key", {
+			KeyPolicy: {
+				Statement: Match.arrayWith([
+					Match.objectLike({
+						Principal: {
+							Service: {
+								"Fn::Join": [
+									"",
+									["logs.", { Ref: "AWS::Region" }, ".amazonaws.com"],
+								],
+							},
+						},
+					}),
+				]),
+			},
+		});
+	});
+
+	test("Configures the log level and excludes execution data by default", () => {
+		// GIVEN
+		const app = new cdk.App();
+		const stack = new cdk.Stack(app, "TestStack");
+
+		// WHEN
+		new SfnResume(stack, "TestSfnResume", {
+			pathToIdPauseTask: "$.id",
+			pathToIdWorkflow: "$.id",
+			removalPolicy: cdk.RemovalPolicy.DESTROY,
+			nameSuffix: "test-resume",
+			eventPattern: {
+				source: ["test.source"],
+			} as events.EventPattern,
+			logLevel: sfn.LogLevel.ERROR,
+		});
+
+		// THEN
+		const template = Template.fromStack(stack);
+
+		template.hasResourceProperties("AWS::StepFunctions::StateMachine", {
+			LoggingConfiguration: {
+				Level: "ERROR",
+				IncludeExecutionData: Match.absent(),
+			},
+			EncryptionConfiguration: Match.absent(),
+		});
+		template.hasResourceProperties("AWS::DynamoDB::Table", {
+			SSESpecification: Match.absent(),
+		});
+	});
+});
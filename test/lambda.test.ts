@@ -0,0 +1,266 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+
+import * as cdk from "aws-cdk-lib";
+import { Template, Match } from "aws-cdk-lib/assertions";
+import { ResumeMode, SfnResume } from "../lib/sfnResume";
+import { SqsResumeTrigger } from "../lib/triggers";
+import * as events from "aws-cdk-lib/aws-events";
+import * as sfn from "aws-cdk-lib/aws-stepfunctions";
+import * as sqs from "aws-cdk-lib/aws-sqs";
+
+describe("SfnResume Construct - Lambda Resume Mode", () => {
+	test("Resumes with a function instead of a state machine", () => {
+		// GIVEN
+		const app = new cdk.App();
+		const stack = new cdk.Stack(app, "TestStack");
+
+		// WHEN
+		const resume = new SfnResume(stack, "TestSfnResume", {
+			pathToIdPauseTask: "$.id",
+			pathToIdWorkflow: "$.detail.jobId",
+			removalPolicy: cdk.RemovalPolicy.DESTROY,
+			nameSuffix: "test-resume",
+			eventPattern: {
+				source: ["test.source"],
+			} as events.EventPattern,
+			resumeMode: ResumeMode.LAMBDA,
+		});
+
+		// THEN
+		const template = Template.fromStack(stack);
+		expect(resume.stateMachine).toBeUndefined();
+		expect(resume.resumeFunction).toBeDefined();
+		template.resourceCountIs("AWS::StepFunctions::StateMachine", 0);
+
+		// Verify the function reads the ID from the event and knows the table
+		template.hasResourceProperties("AWS::Lambda::Function", {
+			FunctionName: "TestStack-test-resume-resume",
+			Environment: {
+				Variables: {
+					TABLE_NAME: Match.anyValue(),
+					ID_PATH: '["detail","jobId"]',
+				},
+			},
+		});
+
+		// Verify the rule invokes the function
+		template.hasResourceProperties("AWS::Events::Rule", {
+			Targets: [
+				Match.objectLike({
+					Arn: {
+						"Fn::GetAtt": [
+							Match.stringLikeRegexp("TestSfnResumeresumeFunction"),
+							"Arn",
+						],
+					},
+				}),
+			],
+		});
+
+		// Verify the function deletes tokens and sends task success signals
+		template.hasResourceProperties("AWS::IAM::Policy", {
+			Roles: [
+				{ Ref: Match.stringLikeRegexp("TestSfnResumeResumeFunctionRole") },
+			],
+			PolicyDocument: {
+				Statement: Match.arrayWith([
+					Match.objectLike({
+						Action: Match.arrayWith(["dynamodb:DeleteItem"]),
+					}),
+					Match.objectLike({ Action: "states:SendTaskSuccess" }),
+				]),
+			},
+		});
+	});
+
+	test("Triggers invoke the resume function", () => {
+		// GIVEN
+		const app = new cdk.App();
+		const stack = new cdk.Stack(app, "TestStack");
+		const queue = new sqs.Queue(stack, "CallbackQueue");
+
+		// WHEN
+		new SfnResume(stack, "TestSfnResume", {
+			pathToIdPauseTask: "$.id",
+			removalPolicy: cdk.RemovalPolicy.DESTROY,
+			nameSuffix: "test-resume",
+			resumeMode: ResumeMode.LAMBDA,
+			triggers: [new SqsResumeTrigger({ queue: queue, pathToId: "$.jobId" })],
+		});
+
+		// THEN
+		const template = Template.fromStack(stack);
+		template.hasResourceProperties("AWS::Pipes::Pipe", {
+			Target: {
+				"Fn::GetAtt": [
+					Match.stringLikeRegexp("TestSfnResumeresumeFunction"),
+					"Arn",
+				],
+			},
+			TargetParameters: Match.objectLike({
+				LambdaFunctionParameters: { InvocationType: "FIRE_AND_FORGET" },
+			}),
+		});
+		template.hasResourceProperties("AWS::IAM::Policy", {
+			PolicyDocument: {
+				Statement: Match.arrayWith([
+					Match.objectLike({
+						Action: "lambda:InvokeFunction",
+						Resource: {
+							"Fn::GetAtt": [
+								Match.stringLikeRegexp("TestSfnResumeresumeFunction"),
+								"Arn",
+							],
+						},
+					}),
+				]),
+			},
+		});
+	});
+
+	/**
+	 * Runs the inline handler of the resume function against an in-memory table and task tokens
+	 */
+	const simulateHandler = (stack: cdk.Stack) => {
+		const [resumeFunction] = Object.values(
+			Template.fromStack(stack).findResources("AWS::Lambda::Function", {
+				Properties: { FunctionName: "TestStack-test-resume-resume" },
+			}),
+		);
+		const items = new Map<string, any>();
+		const calls: string[] = [];
+		const closedTokens = new Set<string>();
+		const command = (name: string) =>
+			class {
+				name = name;
+				constructor(public input: any) {}
+			};
+		const dynamodb = {
+			send: async ({ name, input }: any) => {
+				const key = input.Key && JSON.stringify(input.Key.id);
+				calls.push(name);
+				if (name === "GetItemCommand") return { Item: items.get(key) };
+				if (name === "PutItemCommand") {
+					items.set(JSON.stringify(input.Item.id), input.Item);
+				} else if (name === "DeleteItemCommand") {
+					if (
+						items.get(key)?.token.S !==
+						input.ExpressionAttributeValues[":token"].S
+					) {
+						throw Object.assign(new Error(), {
+							name: "ConditionalCheckFailedException",
+						});
+					}
+					items.delete(key);
+				}
+				return {};
+			},
+		};
+		const sfnClient = {
+			send: async ({ name, input }: any) => {
+				calls.push(name);
+				if (closedTokens.has(input.taskToken)) {
+					throw Object.assign(new Error(), { name: "InvalidToken" });
+				}
+				closedTokens.add(input.taskToken);
+				return {};
+			},
+		};
+		const handler: { handler?: (event: any) => Promise<void> } = {};
+		new Function(
+			"require",
+			"exports",
+			"process",
+			resumeFunction.Properties.Code.ZipFile,
+		)(
+			(module: string) =>
+				module === "@aws-sdk/client-sfn"
+					? {
+							SFNClient: class {
+								send = sfnClient.send;
+							},
+							SendTaskSuccessCommand: command("SendTaskSuccessCommand"),
+						}
+					: {
+							DynamoDBClient: class {
+								send = dynamodb.send;
+							},
+							DeleteItemCommand: command("DeleteItemCommand"),
+							GetItemCommand: command("GetItemCommand"),
+							PutItemCommand: command("PutItemCommand"),
+							QueryCommand: command("QueryCommand"),
+						},
+			handler,
+			{ env: { ID_PATH: '["detail","jobId"]' } },
+		);
+		return { items, calls, invoke: (event: any) => handler.handler?.(event) };
+	};
+
+	test("Succeeds for an event redelivered after the token was deleted", async () => {
+		// GIVEN
+		const app = new cdk.App();
+		const stack = new cdk.Stack(app, "TestStack");
+		new SfnResume(stack, "TestSfnResume", {
+			pathToIdPauseTask: "$.id",
+			pathToIdWorkflow: "$.detail.jobId",
+			removalPolicy: cdk.RemovalPolicy.DESTROY,
+			nameSuffix: "test-resume",
+			eventPattern: { source: ["test.source"] },
+			resumeMode: ResumeMode.LAMBDA,
+		});
+		const { items, calls, invoke } = simulateHandler(stack);
+		items.set(JSON.stringify({ S: "job-1" }), {
+			id: { S: "job-1" },
+			token: { S: "token-1" },
+		});
+		const event = { detail: { jobId: "job-1" } };
+
+		// WHEN
+		await invoke(event);
+		const redelivered = invoke(event);
+
+		// THEN
+		await expect(redelivered).resolves.toBeUndefined();
+		// Verify the token is sent before the ID is marked and the token deleted
+		expect(calls.slice(0, 4)).toEqual([
+			"GetItemCommand",
+			"SendTaskSuccessCommand",
+			"PutItemCommand",
+			"DeleteItemCommand",
+		]);
+		expect([...items.values()]).toEqual([
+			{
+				id: { S: "#resumed#job-1" },
+				resumedAt: { S: expect.any(String) },
+				expiresAt: { N: expect.any(String) },
+			},
+		]);
+		await expect(invoke({ detail: { jobId: "job-2" } })).rejects.toMatchObject({
+			name: "sfnResume.TokenNotFound",
+		});
+	});
+
+	test("Rejects state machine options in the Lambda resume mode", () => {
+		// GIVEN
+		const app = new cdk.App();
+		const stack = new cdk.Stack(app, "TestStack");
+
+		// THEN
+		expect(
+			() =>
+				new SfnResume(stack, "TestSfnResume", {
+					pathToIdPauseTask: "$.id",
+					pathToIdWorkflow: "$.detail.jobId",
+					removalPolicy: cdk.RemovalPolicy.DESTROY,
+					nameSuffix: "test-resume",
+					eventPattern: { source: ["test.source"] },
+					resumeMode: ResumeMode.LAMBDA,
+					failureCondition: sfn.Condition.stringEquals(
+						"$.detail.status",
+						"FAILED",
+					),
+				}),
+		).toThrow(/failureCondition cannot be set in the LAMBDA resume mode/);
+	});
+});
@@ -0,0 +1,277 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+
+import * as cdk from "aws-cdk-lib";
+import { Match, Template } from "aws-cdk-lib/assertions";
+import * as dynamodb from "aws-cdk-lib/aws-dynamodb";
+import * as events from "aws-cdk-lib/aws-events";
+import * as sfn from "aws-cdk-lib/aws-stepfunctions";
+import { LifecycleEvent } from "../lib/lifecycle";
+import { ResumeMode, SfnResume, SfnResumeProps } from "../lib/sfnResume";
+import { SfnResumeSimulator, SimulatedStatus } from "../lib/sfnResumeSimulator";
+
+describe("SfnResume Construct - Lifecycle Events and History", () => {
+	const resumeProps: SfnResumeProps = {
+		pathToIdPauseTask: "$.id",
+		pathToIdWorkflow: "$.detail.jobId",
+		removalPolicy: cdk.RemovalPolicy.DESTROY,
+		nameSuffix: "test-resume",
+		eventPattern: { source: ["test.source"] },
+	};
+
+	const create = (props: Partial<SfnResumeProps> = {}) => {
+		const app = new cdk.App();
+		const stack = new cdk.Stack(app, "TestStack");
+		const bus = new events.EventBus(stack, "LifecycleBus");
+		const resume = new SfnResume(stack, "TestSfnResume", {
+			...resumeProps,
+			lifecycleEventBus: bus,
+			history: true,
+			...props,
+		});
+		return { stack, bus, resume };
+	};
+
+	test("Publishes a WorkflowResumed event and records the wait", async () => {
+		// GIVEN
+		const simulator = new SfnResumeSimulator(create().resume);
+		const paused = await simulator.pause({ id: "job-1" });
+
+		// WHEN
+		const [resume] = await simulator.sendEvent({
+			id: "event-1",
+			source: "test.source",
+			"detail-type": "Job State Change",
+			detail: { jobId: "job-1" },
+		});
+
+		// THEN
+		expect(simulator.execution(paused.executionArn).status).toBe(
+			SimulatedStatus.SUCCEEDED,
+		);
+		const [event] = simulator.publishedEvents();
+		expect(event).toMatchObject({
+			source: SfnResume.LIFECYCLE_EVENT_SOURCE,
+			"detail-type": LifecycleEvent.RESUMED,
+			detail: {
+				id: "job-1",
+				executionArn: paused.executionArn,
+				outcome: LifecycleEvent.RESUMED,
+				resumeExecutionArn: resume.executionArn,
+				eventId: "event-1",
+				eventSource: "test.source",
+				eventDetailType: "Job State Change",
+			},
+		});
+		expect(event.detail.waitSeconds).toBeGreaterThanOrEqual(0);
+		expect(JSON.stringify(event)).not.toContain(paused.token);
+		expect(simulator.historyItems()).toEqual([
+			{
+				id: { S: "job-1" },
+				resumedAt: { S: event.detail.resumedAt },
+				executionArn: { S: paused.executionArn },
+				outcome: { S: LifecycleEvent.RESUMED },
+				record: { S: JSON.stringify(event.detail) },
+			},
+		]);
+		expect(simulator.storedItems()).toEqual([]);
+	});
+
+	test("Publishes a WorkflowWaitFailed event for a failed wait in JSONata", async () => {
+		// GIVEN
+		const simulator = new SfnResumeSimulator(
+			create({
+				queryLanguage: sfn.QueryLanguage.JSONATA,
+				failureCondition: sfn.Condition.jsonata(
+					"{% $states.input.detail.status = 'FAILED' %}",
+				),
+			}).resume,
+		);
+		const paused = await simulator.pause({ id: "job-1" });
+
+		// WHEN
+		await simulator.sendEvent({
+			source: "test.source",
+			detail: { jobId: "job-1", status: "FAILED" },
+		});
+
+		// THEN
+		expect(simulator.execution(paused.executionArn).status).toBe(
+			SimulatedStatus.FAILED,
+		);
+		expect(simulator.publishedEvents()).toEqual([
+			expect.objectContaining({
+				"detail-type": LifecycleEvent.WAIT_FAILED,
+				detail: expect.objectContaining({
+					outcome: LifecycleEvent.WAIT_FAILED,
+				}),
+			}),
+		]);
+		expect(simulator.historyItems()).toHaveLength(1);
+	});
+
+	test("Deletes the token before a failed publish fails the resume execution", async () => {
+		// GIVEN
+		const simulator = new SfnResumeSimulator(create().resume);
+		const paused = await simulator.pause({ id: "job-1" });
+		simulator.failAction("events:putEvents", "EventBridge.InternalException");
+		const event = { source: "test.source", detail: { jobId: "job-1" } };
+
+		// WHEN
+		const [failed] = await simulator.sendEvent(event);
+		const [redelivered] = await simulator.sendEvent(event);
+
+		// THEN
+		expect(simulator.execution(paused.executionArn).status).toBe(
+			SimulatedStatus.SUCCEEDED,
+		);
+		expect(failed).toMatchObject({
+			status: SimulatedStatus.FAILED,
+			error: "EventBridge.InternalException",
+		});
+		expect(simulator.storedItems()).toEqual([]);
+		expect(redelivered.status).toBe(SimulatedStatus.SUCCEEDED);
+		expect(simulator.publishedEvents()).toEqual([]);
+		expect(simulator.historyItems()).toEqual([]);
+	});
+
+	test("Publishes WorkflowPaused events from the stream of the table", () => {
+		// GIVEN
+		const { stack, bus } = create();
+
+		// WHEN
+		const template = Template.fromStack(stack);
+
+		// THEN
+		template.hasResourceProperties("AWS::DynamoDB::Table", {
+			KeySchema: [{ AttributeName: "id", KeyType: "HASH" }],
+			StreamSpecification: { StreamViewType: "NEW_IMAGE" },
+		});
+		template.hasResourceProperties("AWS::DynamoDB::Table", {
+			KeySchema: [
+				{ AttributeName: "id", KeyType: "HASH" },
+				{ AttributeName: "resumedAt", KeyType: "RANGE" },
+			],
+			PointInTimeRecoverySpecification: { PointInTimeRecoveryEnabled: true },
+		});
+		template.hasResourceProperties("AWS::Pipes::Pipe", {
+			Target: stack.resolve(bus.eventBusArn),
+			SourceParameters: {
+				DynamoDBStreamParameters: { StartingPosition: "LATEST" },
+				FilterCriteria: {
+					Filters: [
+						{
+							Pattern: JSON.stringify({
+								eventName: ["INSERT"],
+								dynamodb: { NewImage: { token: { S: [{ exists: true }] } } },
+							}),
+						},
+					],
+				},
+			},
+			TargetParameters: {
+				InputTemplate: Match.stringLikeRegexp("<\\$.dynamodb.NewImage.id.S>"),
+				EventBridgeEventBusParameters: {
+					Source: "sfnResume",
+					DetailType: LifecycleEvent.PAUSED,
+				},
+			},
+		});
+		const [pipe] = Object.values(template.findResources("AWS::Pipes::Pipe"));
+		expect(pipe.Properties.TargetParameters.InputTemplate).not.toContain(
+			"token",
+		);
+	});
+
+	test("Publishes and records the waits closed by the reaper and the operator API", () => {
+		// GIVEN
+		const { stack, bus, resume } = create({
+			reaperMaxAge: cdk.Duration.days(7),
+			operatorApi: true,
+		});
+
+		// WHEN
+		const template = Template.fromStack(stack);
+
+		// THEN
+		const statesOf = (name: string, map: string) => {
+			const [stateMachine] = Object.values(
+				template.findResources("AWS::StepFunctions::StateMachine", {
+					Properties: { StateMachineName: `TestStack_test-resume_${name}` },
+				}),
+			);
+			const definition = stateMachine.Properties.DefinitionString["Fn::Join"][1]
+				.filter((part: any) => typeof part === "string")
+				.join("");
+			return JSON.parse(definition).States[map].ItemProcessor.States;
+		};
+		const reaper = statesOf("reaper", "reapPage");
+		expect(reaper.sendTaskFailure.Next).toBe("deleteStaleToken");
+		expect(reaper.deleteStaleToken.Next).toBe("isTokenAlreadyClosed");
+		expect(reaper.isTokenAlreadyClosed.Default).toBe("describeWait");
+		expect(reaper.describeWait.Output).toContain(
+			`"outcome": "${LifecycleEvent.WAIT_FAILED}"`,
+		);
+		expect(reaper.describeWait.Output).toContain(
+			'"eventSource": "sfnResume.reaper"',
+		);
+		const operator = statesOf("operator", "closeWaits");
+		expect(operator.describeWait.Output).toContain(
+			`"outcome": $request.action = "resume" ? "${LifecycleEvent.RESUMED}" : "${LifecycleEvent.WAIT_FAILED}"`,
+		);
+		expect(operator.describeWait.Output).toContain(
+			'"eventSource": "sfnResume.operator"',
+		);
+		for (const states of [reaper, operator]) {
+			expect(states.describeWait.Output).not.toContain("eventId");
+			expect(states.publishWaitEvent.Next).toBe("recordWaitHistory");
+			expect(states.publishWaitEvent.Arguments.Entries[0].Source).toBe(
+				SfnResume.LIFECYCLE_EVENT_SOURCE,
+			);
+		}
+		// Verify the resume workflow, the reaper and the operator may publish, as the pipe does, and record
+		for (const [statement, count] of [
+			[
+				{
+					Action: "events:PutEvents",
+					Resource: stack.resolve(bus.eventBusArn),
+				},
+				4,
+			],
+			[
+				{
+					Action: Match.arrayWith(["dynamodb:PutItem"]),
+					Resource: Match.arrayWith([
+						stack.resolve(resume.historyTable?.tableArn),
+					]),
+				},
+				3,
+			],
+		] as const) {
+			template.resourcePropertiesCountIs(
+				"AWS::IAM::Policy",
+				{
+					PolicyDocument: {
+						Statement: Match.arrayWith([Match.objectLike(statement)]),
+					},
+				},
+				count,
+			);
+		}
+	});
+
+	test("Rejects tables without a stream, barriers and the LAMBDA resume mode", () => {
+		// THEN
+		expect(() =>
+			create({
+				table: dynamodb.Table.fromTableName(new cdk.Stack(), "Table", "tokens"),
+			}),
+		).toThrow("lifecycleEventBus requires a stream of new images");
+		expect(() => create({ barrier: { expectedCount: 2 } })).toThrow(
+			"barrier cannot be combined with lifecycleEventBus or history",
+		);
+		expect(() => create({ resumeMode: ResumeMode.LAMBDA })).toThrow(
+			"lifecycleEventBus, history cannot be set in the LAMBDA resume mode",
+		);
+	});
+});
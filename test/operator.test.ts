@@ -0,0 +1,120 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+
+import * as cdk from "aws-cdk-lib";
+import { Template, Match } from "aws-cdk-lib/assertions";
+import { SfnResume } from "../lib/sfnResume";
+import * as events from "aws-cdk-lib/aws-events";
+
+describe("SfnResume Construct - Operator API", () => {
+	test("Creates an IAM authorised operator API backed by an EXPRESS state machine", () => {
+		// GIVEN
+		const app = new cdk.App();
+		const stack = new cdk.Stack(app, "TestStack");
+
+		// WHEN
+		const resume = new SfnResume(stack, "TestSfnResume", {
+			pathToIdPauseTask: "$.id",
+			pathToIdWorkflow: "$.detail.jobId",
+			removalPolicy: cdk.RemovalPolicy.DESTROY,
+			nameSuffix: "test-resume",
+			eventPattern: {
+				source: ["test.source"],
+			} as events.EventPattern,
+			operatorApi: true,
+		});
+
+		// THEN
+		const template = Template.fromStack(stack);
+		expect(resume.operator).toBeDefined();
+
+		template.hasResourceProperties("AWS::StepFunctions::StateMachine", {
+			StateMachineName: "TestStack_test-resume_operator",
+			StateMachineType: "EXPRESS",
+		});
+
+		// Verify every route uses IAM authorisation and runs the state machine synchronously
+		const methods = template.findResources("AWS::ApiGateway::Method");
+		expect(
+			Object.values(methods).map(
+				(method) =>
+					`${method.Properties.HttpMethod} ${method.Properties.AuthorizationType}`,
+			),
+		).toEqual(["GET AWS_IAM", "GET AWS_IAM", "POST AWS_IAM", "POST AWS_IAM"]);
+		template.hasResourceProperties("AWS::ApiGateway::Method", {
+			HttpMethod: "POST",
+			Integration: Match.objectLike({
+				Uri: {
+					"Fn::Join": [
+						"",
+						Match.arrayWith([":states:action/StartSyncExecution"]),
+					],
+				},
+			}),
+		});
+
+		// Verify the audit table is keyed by ID and time
+		template.hasResourceProperties("AWS::DynamoDB::Table", {
+			KeySchema: [
+				{ AttributeName: "id", KeyType: "HASH" },
+				{ AttributeName: "createdAt", KeyType: "RANGE" },
+			],
+		});
+	});
+
+	test("Never returns the stored tokens", () => {
+		// GIVEN
+		const app = new cdk.App();
+		const stack = new cdk.Stack(app, "TestStack");
+
+		// WHEN
+		new SfnResume(stack, "TestSfnResume", {
+			pathToIdPauseTask: "$.id",
+			pathToIdWorkflow: "$.detail.jobId",
+			removalPolicy: cdk.RemovalPolicy.DESTROY,
+			nameSuffix: "test-resume",
+			eventPattern: { source: ["test.source"] },
+			operatorApi: true,
+		});
+
+		// THEN
+		const operator = Object.values(
+			Template.fromStack(stack).findResources(
+				"AWS::StepFunctions::StateMachine",
+				{ Properties: { StateMachineName: "TestStack_test-resume_operator" } },
+			),
+		)[0];
+		const definition = operator.Properties.DefinitionString["Fn::Join"][1]
+			.filter((part: any) => typeof part === "string")
+			.join("");
+		const states = JSON.parse(definition).States;
+
+		// Verify listing and showing waits project the attributes without the token
+		for (const state of [states.listWaits, states.getWaits]) {
+			expect(state.Arguments.ProjectionExpression).toBe(
+				"#id, #executionArn, #startTime, #createdAt, #expiresAt",
+			);
+			expect(state.Output).not.toMatch(/token/);
+		}
+	});
+
+	test("Pause task stores the execution ARN and start time with the token", () => {
+		// GIVEN
+		const app = new cdk.App();
+		const stack = new cdk.Stack(app, "TestStack");
+
+		// WHEN
+		const resume = new SfnResume(stack, "TestSfnResume", {
+			pathToIdPauseTask: "$.id",
+			pathToIdWorkflow: "$.detail.jobId",
+			removalPolicy: cdk.RemovalPolicy.DESTROY,
+			nameSuffix: "test-resume",
+			eventPattern: { source: ["test.source"] },
+		});
+
+		// THEN
+		const item = (resume.task.toStateJson() as any).Parameters.Item;
+		expect(item.executionArn).toEqual({ "S.$": "$$.Execution.Id" });
+		expect(item.startTime).toEqual({ "S.$": "$$.Execution.StartTime" });
+	});
+});
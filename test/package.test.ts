@@ -0,0 +1,104 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+
+import * as cdk from "aws-cdk-lib";
+import { execFileSync } from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { SfnResume, sfnResume } from "../lib";
+
+const root = path.join(__dirname, "..");
+
+/**
+ * Files the jsii build and npm pack read, copied so the build output stays out of the sources
+ */
+const PACKAGE_FILES = [
+	"package.json",
+	"tsconfig.jsii.json",
+	"README.md",
+	"LICENSE",
+	".npmignore",
+];
+
+describe("SfnResume Package", () => {
+	test("Builds a jsii construct library with the compiled entry point", () => {
+		// GIVEN
+		const dir = fs.mkdtempSync(path.join(os.tmpdir(), "sfn-resume-"));
+		try {
+			for (const file of PACKAGE_FILES) {
+				fs.copyFileSync(path.join(root, file), path.join(dir, file));
+			}
+			fs.cpSync(path.join(root, "lib"), path.join(dir, "lib"), {
+				recursive: true,
+				filter: (source) =>
+					fs.statSync(source).isDirectory() ||
+					(source.endsWith(".ts") && !source.endsWith(".d.ts")),
+			});
+			fs.symlinkSync(
+				path.join(root, "node_modules"),
+				path.join(dir, "node_modules"),
+				"dir",
+			);
+
+			// WHEN
+			execFileSync("npm", ["run", "build"], { cwd: dir, stdio: "pipe" });
+			const [pack] = JSON.parse(
+				execFileSync("npm", ["pack", "--dry-run", "--json"], {
+					cwd: dir,
+					encoding: "utf-8",
+				}),
+			);
+
+			// THEN
+			const assembly = JSON.parse(
+				fs.readFileSync(path.join(dir, ".jsii"), "utf-8"),
+			);
+			expect(Object.keys(assembly.types)).toEqual(
+				expect.arrayContaining([
+					"sfn-resume.SfnResume",
+					"sfn-resume.SfnResumeProps",
+					"sfn-resume.SfnResumeHub",
+					"sfn-resume.ResumePath",
+					"sfn-resume.SqsResumeTrigger",
+					"sfn-resume.SfnResumeSimulator",
+					"sfn-resume.SfnResumeStartAndWait",
+					"sfn-resume.LifecycleEvent",
+				]),
+			);
+			expect(assembly.types["sfn-resume.sfnResume"]).toBeUndefined();
+			expect(assembly.targets.python.module).toBe("sfn_resume");
+
+			// Verify the package ships the compiled code, declarations and assembly without sources
+			const files: string[] = pack.files.map(
+				(file: { path: string }) => file.path,
+			);
+			expect(files).toEqual(
+				expect.arrayContaining(["lib/index.js", "lib/index.d.ts", ".jsii"]),
+			);
+			expect(
+				files.filter((file) => file.endsWith(".ts") && !file.endsWith(".d.ts")),
+			).toEqual([]);
+		} finally {
+			fs.rmSync(dir, { recursive: true, force: true });
+		}
+	}, 900_000);
+
+	test("Keeps the old class name as a deprecated alias", () => {
+		// GIVEN
+		const app = new cdk.App();
+		const stack = new cdk.Stack(app, "TestStack");
+
+		// WHEN
+		const resume = new sfnResume(stack, "TestSfnResume", {
+			pathToIdPauseTask: "$.id",
+			pathToIdWorkflow: "$.detail.jobId",
+			removalPolicy: cdk.RemovalPolicy.DESTROY,
+			nameSuffix: "test-resume",
+			eventPattern: { source: ["test.source"] },
+		});
+
+		// THEN
+		expect(resume).toBeInstanceOf(SfnResume);
+	});
+});
@@ -0,0 +1,262 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+
+import * as cdk from "aws-cdk-lib";
+import * as events from "aws-cdk-lib/aws-events";
+import * as sfn from "aws-cdk-lib/aws-stepfunctions";
+import { Construct } from "constructs";
+import { ResumeMode, SfnResume, SfnResumePresetProps } from "../lib/sfnResume";
+import { SfnResumeSimulator, SimulatedStatus } from "../lib/sfnResumeSimulator";
+
+describe("SfnResume Construct - Service Presets", () => {
+	const preset = (
+		factory: (
+			scope: Construct,
+			id: string,
+			props: SfnResumePresetProps,
+		) => SfnResume,
+		props: Partial<SfnResumePresetProps> = {},
+	) => {
+		const app = new cdk.App();
+		const stack = new cdk.Stack(app, "TestStack");
+		const resume = factory(stack, "TestSfnResume", {
+			removalPolicy: cdk.RemovalPolicy.DESTROY,
+			nameSuffix: "test-resume",
+			...props,
+		});
+		const rule = resume.rule?.node.defaultChild as events.CfnRule;
+		return {
+			pattern: stack.resolve(rule.eventPattern),
+			simulator: new SfnResumeSimulator(resume),
+		};
+	};
+
+	test("Resumes Amazon Translate text translation jobs", async () => {
+		// GIVEN
+		const { pattern, simulator } = preset(SfnResume.forTranslateTextJob);
+		const paused = await simulator.pause({ JobId: "job-1" });
+
+		// WHEN
+		await simulator.sendEvent({
+			source: "aws.translate",
+			"detail-type": "Translate TextTranslationJob State Change",
+			detail: { jobId: "job-1", jobStatus: "COMPLETED" },
+		});
+
+		// THEN
+		expect(pattern).toEqual({
+			source: ["aws.translate"],
+			"detail-type": ["Translate TextTranslationJob State Change"],
+			detail: {
+				jobStatus: ["COMPLETED", "COMPLETED_WITH_ERROR", "FAILED", "STOPPED"],
+			},
+		});
+		expect(simulator.execution(paused.executionArn).status).toBe(
+			SimulatedStatus.SUCCEEDED,
+		);
+	});
+
+	test("Fails on failed Amazon Transcribe jobs", async () => {
+		// GIVEN
+		const { pattern, simulator } = preset(SfnResume.forTranscribeJob);
+		const paused = await simulator.pause({
+			TranscriptionJob: { TranscriptionJobName: "job-1" },
+		});
+
+		// WHEN
+		await simulator.sendEvent({
+			source: "aws.transcribe",
+			"detail-type": "Transcribe Job State Change",
+			detail: {
+				TranscriptionJobName: "job-1",
+				TranscriptionJobStatus: "FAILED",
+			},
+		});
+
+		// THEN
+		expect(pattern).toEqual({
+			source: ["aws.transcribe"],
+			"detail-type": ["Transcribe Job State Change"],
+			detail: { TranscriptionJobStatus: ["COMPLETED", "FAILED"] },
+		});
+		expect(simulator.execution(paused.executionArn).status).toBe(
+			SimulatedStatus.FAILED,
+		);
+	});
+
+	test("Fails on timed out AWS Glue job runs", async () => {
+		// GIVEN
+		const { pattern, simulator } = preset(SfnResume.forGlueJobRun);
+		const paused = await simulator.pause({ JobRunId: "jr_1" });
+
+		// WHEN
+		await simulator.sendEvent({
+			source: "aws.glue",
+			"detail-type": "Glue Job State Change",
+			detail: { jobRunId: "jr_1", state: "TIMEOUT" },
+		});
+
+		// THEN
+		expect(pattern).toEqual({
+			source: ["aws.glue"],
+			"detail-type": ["Glue Job State Change"],
+			detail: { state: ["SUCCEEDED", "FAILED", "TIMEOUT", "STOPPED", "ERROR"] },
+		});
+		expect(simulator.execution(paused.executionArn).status).toBe(
+			SimulatedStatus.FAILED,
+		);
+	});
+
+	test("Resumes AWS Batch jobs kept at the start result path", async () => {
+		// GIVEN
+		const { pattern, simulator } = preset(SfnResume.forBatchJob, {
+			startResultPath: "$.submitJob",
+		});
+		const paused = await simulator.pause({ submitJob: { JobId: "job-1" } });
+
+		// WHEN
+		await simulator.sendEvent({
+			source: "aws.batch",
+			"detail-type": "Batch Job State Change",
+			detail: { jobId: "job-1", status: "SUCCEEDED" },
+		});
+
+		// THEN
+		expect(pattern).toEqual({
+			source: ["aws.batch"],
+			"detail-type": ["Batch Job State Change"],
+			detail: { status: ["SUCCEEDED", "FAILED"] },
+		});
+		expect(simulator.execution(paused.executionArn).status).toBe(
+			SimulatedStatus.SUCCEEDED,
+		);
+	});
+
+	test("Fails on Amazon ECS tasks whose container exited with an error", async () => {
+		// GIVEN
+		const { pattern, simulator } = preset(SfnResume.forEcsTask);
+		const failed = await simulator.pause({ Tasks: [{ TaskArn: "task-1" }] });
+		const succeeded = await simulator.pause({ Tasks: [{ TaskArn: "task-2" }] });
+
+		// WHEN
+		for (const [taskArn, exitCode] of [
+			["task-1", 1],
+			["task-2", 0],
+		]) {
+			await simulator.sendEvent({
+				source: "aws.ecs",
+				"detail-type": "ECS Task State Change",
+				detail: {
+					taskArn,
+					lastStatus: "STOPPED",
+					stopCode: "EssentialContainerExited",
+					containers: [{ exitCode }],
+				},
+			});
+		}
+
+		// THEN
+		expect(pattern).toEqual({
+			source: ["aws.ecs"],
+			"detail-type": ["ECS Task State Change"],
+			detail: { lastStatus: ["STOPPED"] },
+		});
+		expect(simulator.execution(failed.executionArn).status).toBe(
+			SimulatedStatus.FAILED,
+		);
+		expect(simulator.execution(succeeded.executionArn).status).toBe(
+			SimulatedStatus.SUCCEEDED,
+		);
+	});
+
+	test("Resumes AWS CodeBuild builds by build ARN", async () => {
+		// GIVEN
+		const { pattern, simulator } = preset(SfnResume.forCodeBuild);
+		const paused = await simulator.pause({ Build: { Arn: "build-1" } });
+
+		// WHEN
+		await simulator.sendEvent({
+			source: "aws.codebuild",
+			"detail-type": "CodeBuild Build State Change",
+			detail: { "build-id": "build-1", "build-status": "SUCCEEDED" },
+		});
+
+		// THEN
+		expect(pattern).toEqual({
+			source: ["aws.codebuild"],
+			"detail-type": ["CodeBuild Build State Change"],
+			detail: {
+				"build-status": [
+					"SUCCEEDED",
+					"FAILED",
+					"FAULT",
+					"STOPPED",
+					"TIMED_OUT",
+				],
+			},
+		});
+		expect(simulator.execution(paused.executionArn).status).toBe(
+			SimulatedStatus.SUCCEEDED,
+		);
+	});
+
+	test("Fails on canceled AWS Elemental MediaConvert jobs in JSONata", async () => {
+		// GIVEN
+		const { pattern, simulator } = preset(SfnResume.forMediaConvert, {
+			queryLanguage: sfn.QueryLanguage.JSONATA,
+		});
+		const paused = await simulator.pause({ Job: { Id: "job-1" } });
+
+		// WHEN
+		await simulator.sendEvent({
+			source: "aws.mediaconvert",
+			"detail-type": "MediaConvert Job State Change",
+			detail: { jobId: "job-1", status: "CANCELED" },
+		});
+
+		// THEN
+		expect(pattern).toEqual({
+			source: ["aws.mediaconvert"],
+			"detail-type": ["MediaConvert Job State Change"],
+			detail: { status: ["COMPLETE", "ERROR", "CANCELED"] },
+		});
+		expect(simulator.execution(paused.executionArn).status).toBe(
+			SimulatedStatus.FAILED,
+		);
+	});
+
+	test("Uses the fields set in the props over the preset", async () => {
+		// GIVEN
+		const { pattern, simulator } = preset(SfnResume.forBatchJob, {
+			pathToIdPauseTask: "$.id",
+			eventPattern: {
+				source: ["aws.batch"],
+				detail: { status: ["SUCCEEDED"], jobQueue: ["queue"] },
+			},
+			failureCondition: sfn.Condition.stringEquals("$.detail.status", "none"),
+		});
+		const paused = await simulator.pause({ id: "job-1" });
+
+		// WHEN
+		await simulator.sendEvent({
+			source: "aws.batch",
+			detail: { jobId: "job-1", status: "SUCCEEDED", jobQueue: "queue" },
+		});
+
+		// THEN
+		expect(pattern).toEqual({
+			source: ["aws.batch"],
+			detail: { status: ["SUCCEEDED"], jobQueue: ["queue"] },
+		});
+		expect(simulator.execution(paused.executionArn).status).toBe(
+			SimulatedStatus.SUCCEEDED,
+		);
+	});
+
+	test("Rejects the LAMBDA resume mode", () => {
+		// THEN
+		expect(() =>
+			preset(SfnResume.forGlueJobRun, { resumeMode: ResumeMode.LAMBDA }),
+		).toThrow("which the LAMBDA resume mode does not support");
+	});
+});
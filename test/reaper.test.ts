@@ -0,0 +1,164 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+
+import * as cdk from "aws-cdk-lib";
+import { Template, Match } from "aws-cdk-lib/assertions";
+import { runStateMachine, StatesError } from "../lib/aslInterpreter";
+import { SfnResume } from "../lib/sfnResume";
+import * as events from "aws-cdk-lib/aws-events";
+
+describe("SfnResume Construct - Reaper", () => {
+	test("Creates a scheduled sweep when reaperMaxAge is set", () => {
+		// GIVEN
+		const app = new cdk.App();
+		const stack = new cdk.Stack(app, "TestStack");
+
+		// WHEN
+		new SfnResume(stack, "TestSfnResume", {
+			pathToIdPauseTask: "$.id",
+			pathToIdWorkflow: "$.id",
+			removalPolicy: cdk.RemovalPolicy.DESTROY,
+			nameSuffix: "test-resume",
+			eventPattern: {
+				source: ["test.source"],
+				detailType: ["test.event"],
+			} as events.EventPattern,
+			reaperMaxAge: cdk.Duration.days(2),
+			reaperSchedule: events.Schedule.rate(cdk.Duration.minutes(30)),
+		});
+
+		// THEN
+		const template = Template.fromStack(stack);
+
+		// Verify the reaper state machine is created next to the resume state machine
+		template.resourceCountIs("AWS::StepFunctions::StateMachine", 2);
+		template.hasResourceProperties("AWS::StepFunctions::StateMachine", {
+			StateMachineName: "TestStack_test-resume_reaper",
+		});
+
+		// Verify the sweep runs on the configured schedule
+		template.hasResourceProperties("AWS::Events::Rule", {
+			ScheduleExpression: "rate(30 minutes)",
+			Targets: [
+				{
+					Arn: Match.anyValue(),
+					Id: Match.anyValue(),
+				},
+			],
+		});
+
+		// Verify the sweep fails stale tokens and publishes how many it reaped
+		const resources = template.findResources(
+			"AWS::StepFunctions::StateMachine",
+		);
+		const reaper = Object.values(resources).find(
+			(resource) =>
+				resource.Properties.StateMachineName ===
+				"TestStack_test-resume_reaper",
+		);
+		const definition = JSON.stringify(reaper?.Properties?.DefinitionString);
+		expect(definition).toContain("sfn:sendTaskFailure");
+		expect(definition).toContain("sfnResume.Timeout");
+		expect(definition).toContain("dynamodb:deleteItem");
+		expect(definition).toContain("ReapedTokens");
+		expect(definition).toContain("$millis() - 172800000");
+	});
+
+	test("Does not create a sweep by default", () => {
+		// GIVEN
+		const app = new cdk.App();
+		const stack = new cdk.Stack(app, "TestStack");
+
+		// WHEN
+		new SfnResume(stack, "TestSfnResume", {
+			pathToIdPauseTask: "$.id",
+			pathToIdWorkflow: "$.id",
+			removalPolicy: cdk.RemovalPolicy.DESTROY,
+			nameSuffix: "test-resume",
+			eventPattern: {
+				source: ["test.source"],
+				detailType: ["test.event"],
+			} as events.EventPattern,
+		});
+
+		// THEN
+		const template = Template.fromStack(stack);
+
+		template.resourceCountIs("AWS::StepFunctions::StateMachine", 1);
+		template.resourceCountIs("AWS::Events::Rule", 1);
+	});
+
+	test("Retries throttled calls and counts only the executions it failed", async () => {
+		// GIVEN
+		const app = new cdk.App();
+		const stack = new cdk.Stack(app, "TestStack");
+		new SfnResume(stack, "TestSfnResume", {
+			pathToIdPauseTask: "$.id",
+			pathToIdWorkflow: "$.id",
+			removalPolicy: cdk.RemovalPolicy.DESTROY,
+			nameSuffix: "test-resume",
+			eventPattern: { source: ["test.source"] },
+			reaperMaxAge: cdk.Duration.days(2),
+		});
+		const [reaper] = Object.values(
+			Template.fromStack(stack).findResources(
+				"AWS::StepFunctions::StateMachine",
+				{ Properties: { StateMachineName: "TestStack_test-resume_reaper" } },
+			),
+		);
+		const definition = reaper.Properties.DefinitionString["Fn::Join"][1]
+			.filter((part: any) => typeof part === "string")
+			.join("");
+		const throttled = new Set<string>();
+		const calls: string[] = [];
+		let reaped: number | undefined;
+
+		// WHEN
+		await runStateMachine(
+			JSON.parse(definition),
+			{},
+			{
+				context: { Execution: { Id: "reaper-execution" } },
+				invoke: async (action, parameters) => {
+					const id = parameters.Key?.id.S ?? parameters.TaskToken;
+					calls.push(`${action} ${id}`);
+					// Every call is throttled once before it succeeds
+					if (id && !throttled.has(`${action} ${id}`)) {
+						throttled.add(`${action} ${id}`);
+						throw new StatesError(
+							action.startsWith("sfn")
+								? "Sfn.ThrottlingException"
+								: "DynamoDb.ProvisionedThroughputExceededException",
+						);
+					}
+					switch (action) {
+						case "dynamodb:scan":
+							return {
+								Items: ["open", "closed"].map((id) => ({
+									id: { S: id },
+									token: { S: id },
+									createdAt: { S: "2020-01-01T00:00:00Z" },
+								})),
+							};
+						case "sfn:sendTaskFailure":
+							if (parameters.TaskToken === "closed") {
+								throw new StatesError("Sfn.InvalidTokenException");
+							}
+							return {};
+						case "cloudwatch:putMetricData":
+							reaped = parameters.MetricData[0].Value;
+							return {};
+						default:
+							return {};
+					}
+				},
+			},
+		);
+
+		// THEN
+		expect(reaped).toBe(1);
+		for (const id of ["open", "closed"]) {
+			expect(calls).toContain(`dynamodb:deleteItem ${id}`);
+		}
+	});
+});
@@ -0,0 +1,431 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+
+import * as cdk from "aws-cdk-lib";
+import * as sfn from "aws-cdk-lib/aws-stepfunctions";
+import { ResumeMode, SfnResume, SfnResumeProps } from "../lib/sfnResume";
+import { SfnResumeSimulator, SimulatedStatus } from "../lib/sfnResumeSimulator";
+
+describe("SfnResume Simulator", () => {
+	const resumeProps: SfnResumeProps = {
+		pathToIdPauseTask: "$.id",
+		pathToIdWorkflow: "$.detail.jobId",
+		removalPolicy: cdk.RemovalPolicy.DESTROY,
+		nameSuffix: "test-resume",
+		eventPattern: { source: ["test.source"] },
+	};
+
+	const simulate = (props: Partial<SfnResumeProps> = {}) => {
+		const app = new cdk.App();
+		const stack = new cdk.Stack(app, "TestStack");
+		const resume = new SfnResume(stack, "TestSfnResume", {
+			...resumeProps,
+			...props,
+		});
+		return new SfnResumeSimulator(resume);
+	};
+
+	test("Resumes the execution paused under the ID of a matching event", async () => {
+		// GIVEN
+		const simulator = simulate();
+		const paused = await simulator.pause({ id: "job-1", step: 2 });
+
+		// WHEN
+		const ignored = await simulator.sendEvent({
+			source: "other.source",
+			detail: { jobId: "job-1" },
+		});
+		const [resume] = await simulator.sendEvent({
+			source: "test.source",
+			detail: { jobId: "job-1" },
+		});
+
+		// THEN
+		expect(ignored).toEqual([]);
+		expect(resume.status).toBe(SimulatedStatus.SUCCEEDED);
+		expect(simulator.execution(paused.executionArn)).toEqual({
+			executionArn: paused.executionArn,
+			status: SimulatedStatus.SUCCEEDED,
+			output: { id: "job-1", step: 2 },
+		});
+		expect(simulator.storedItems()).toEqual([]);
+	});
+
+	test("Fails the resume workflow when no execution is paused under the ID", async () => {
+		// GIVEN
+		const simulator = simulate();
+		const paused = await simulator.pause({ id: "job-1" });
+
+		// WHEN
+		const [resume] = await simulator.sendEvent({
+			source: "test.source",
+			detail: { jobId: "job-2" },
+		});
+
+		// THEN
+		expect(resume.status).toBe(SimulatedStatus.FAILED);
+		expect(resume.error).toBe("sfnResume.TokenNotFound");
+		expect(simulator.execution(paused.executionArn).status).toBe(
+			SimulatedStatus.WAITING,
+		);
+	});
+
+	test("Fails with sfnResume.MissingId for an empty ID", async () => {
+		for (const queryLanguage of [
+			sfn.QueryLanguage.JSON_PATH,
+			sfn.QueryLanguage.JSONATA,
+		]) {
+			// GIVEN
+			const simulator = simulate({ queryLanguage });
+			await simulator.pause({ id: "job-1" });
+
+			// WHEN
+			const empty = await simulator.startResume({
+				sfnResumeId: "",
+				source: "sfnResume.sqs",
+				detail: {},
+			});
+
+			// THEN
+			expect(empty).toMatchObject({
+				status: SimulatedStatus.FAILED,
+				error: "sfnResume.MissingId",
+			});
+			expect(simulator.storedItems()).toHaveLength(1);
+		}
+
+		// Verify an event without an ID at pathToIdWorkflow fails the same way in JSONata
+		const simulator = simulate({ queryLanguage: sfn.QueryLanguage.JSONATA });
+		const missing = await simulator.startResume({
+			source: "test.source",
+			detail: {},
+		});
+		expect(missing.error).toBe("sfnResume.MissingId");
+	});
+
+	test("Succeeds for an event redelivered after the execution was resumed", async () => {
+		for (const props of [
+			{},
+			{ queryLanguage: sfn.QueryLanguage.JSONATA },
+			{ fanOut: true },
+		]) {
+			// GIVEN
+			const simulator = simulate(props);
+			const paused = await simulator.pause({ id: "job-1" });
+			const event = { source: "test.source", detail: { jobId: "job-1" } };
+			await simulator.sendEvent(event);
+
+			// WHEN
+			const [duplicate] = await simulator.sendEvent(event);
+
+			// THEN
+			expect(duplicate.status).toBe(SimulatedStatus.SUCCEEDED);
+			expect(simulator.execution(paused.executionArn).status).toBe(
+				SimulatedStatus.SUCCEEDED,
+			);
+			expect(simulator.storedItems()).toEqual([]);
+		}
+	});
+
+	test("Rejects a second pause under the same ID", async () => {
+		// GIVEN
+		const simulator = simulate();
+		await simulator.pause({ id: "job-1" });
+
+		// WHEN
+		const duplicate = await simulator.pause({ id: "job-1" });
+
+		// THEN
+		expect(duplicate.status).toBe(SimulatedStatus.FAILED);
+		expect(duplicate.error).toBe(SfnResume.DUPLICATE_TOKEN_ERROR);
+	});
+
+	test("Resumes every execution of a composite ID in the fan-out mode", async () => {
+		// GIVEN
+		const simulator = simulate({
+			pathToIdPauseTask: ["$.tenant", "$.id"],
+			pathToIdWorkflow: ["$.detail.tenant", "$.detail.jobId"],
+			fanOut: true,
+		});
+		const first = await simulator.pause({ tenant: "a", id: "job-1" });
+		const second = await simulator.pause({ tenant: "a", id: "job-1" });
+		const other = await simulator.pause({ tenant: "b", id: "job-1" });
+
+		// WHEN
+		await simulator.sendEvent({
+			source: "test.source",
+			detail: { tenant: "a", jobId: "job-1" },
+		});
+
+		// THEN
+		expect(simulator.execution(first.executionArn).status).toBe(
+			SimulatedStatus.SUCCEEDED,
+		);
+		expect(simulator.execution(second.executionArn).status).toBe(
+			SimulatedStatus.SUCCEEDED,
+		);
+		expect(simulator.execution(other.executionArn).status).toBe(
+			SimulatedStatus.WAITING,
+		);
+		expect(simulator.storedItems()).toHaveLength(1);
+	});
+
+	test("Fails the paused execution on the failure condition with JSONata", async () => {
+		// GIVEN
+		const simulator = simulate({
+			queryLanguage: sfn.QueryLanguage.JSONATA,
+			timeout: cdk.Duration.hours(1),
+			failureCondition: sfn.Condition.jsonata(
+				'{% $states.input.detail.status = "FAILED" %}',
+			),
+		});
+		const paused = await simulator.pause({ id: "job-1" });
+
+		// WHEN
+		const [resume] = await simulator.sendEvent({
+			source: "test.source",
+			detail: { jobId: "job-1", status: "FAILED" },
+		});
+
+		// THEN
+		expect(resume.status).toBe(SimulatedStatus.SUCCEEDED);
+		expect(simulator.execution(paused.executionArn)).toMatchObject({
+			status: SimulatedStatus.FAILED,
+		});
+		expect(simulator.storedItems()).toEqual([]);
+	});
+
+	test("Sends heartbeats on progress events without resuming", async () => {
+		// GIVEN
+		const simulator = simulate({
+			eventPattern: { source: ["test.source"], detail: { status: ["DONE"] } },
+			progressEventPattern: {
+				source: ["test.source"],
+				detail: { status: ["RUNNING"] },
+			},
+			recordProgress: true,
+		});
+		const paused = await simulator.pause({ id: "job-1" });
+
+		// WHEN
+		const [progress] = await simulator.sendEvent({
+			source: "test.source",
+			detail: { jobId: "job-1", status: "RUNNING", percent: 40 },
+		});
+
+		// THEN
+		expect(progress.status).toBe(SimulatedStatus.SUCCEEDED);
+		expect(simulator.execution(paused.executionArn).status).toBe(
+			SimulatedStatus.WAITING,
+		);
+		const [item] = simulator.storedItems();
+		expect(JSON.parse(item.progress.S)).toEqual({
+			jobId: "job-1",
+			status: "RUNNING",
+			percent: 40,
+		});
+		expect(item.progressAt.S).toBeDefined();
+	});
+
+	test("Resumes a barrier with the results once all its jobs completed", async () => {
+		// GIVEN
+		const simulator = simulate({
+			pathToIdPauseTask: "$$.Execution.Id",
+			barrier: { pathToJobIds: "$.jobs" },
+		});
+		const paused = await simulator.pause({ jobs: ["job-1", "job-2"] });
+
+		// WHEN
+		const [first] = await simulator.sendEvent({
+			source: "test.source",
+			detail: { jobId: "job-1", size: 1 },
+		});
+		const waiting = simulator.execution(paused.executionArn).status;
+		await simulator.sendEvent({
+			source: "test.source",
+			detail: { jobId: "job-2", size: 2 },
+		});
+
+		// THEN
+		expect(first.status).toBe(SimulatedStatus.SUCCEEDED);
+		expect(waiting).toBe(SimulatedStatus.WAITING);
+		expect(simulator.execution(paused.executionArn)).toMatchObject({
+			status: SimulatedStatus.SUCCEEDED,
+			output: { jobs: ["job-1", "job-2"] },
+		});
+		expect(simulator.storedItems()).toEqual([]);
+	});
+
+	test("Passes the job results to the resumed execution", async () => {
+		// GIVEN
+		const simulator = simulate({
+			pathToIdPauseTask: "$$.Execution.Id",
+			resultPath: "$.barrier",
+			barrier: { pathToJobIds: "$.jobs", quorum: 2 },
+		});
+		const paused = await simulator.pause({ jobs: ["job-1", "job-2", "job-3"] });
+
+		// WHEN
+		await simulator.sendEvent({
+			source: "test.source",
+			detail: { jobId: "job-3", size: 3 },
+		});
+		await simulator.sendEvent({
+			source: "test.source",
+			detail: { jobId: "job-1", size: 1 },
+		});
+
+		// THEN
+		expect(simulator.execution(paused.executionArn).output).toEqual({
+			jobs: ["job-1", "job-2", "job-3"],
+			barrier: {
+				results: {
+					"job-1": { jobId: "job-1", size: 1 },
+					"job-3": { jobId: "job-3", size: 3 },
+				},
+			},
+		});
+		expect(simulator.storedItems()).toEqual([]);
+	});
+
+	test("Counts a redelivered completion event once", async () => {
+		// GIVEN
+		const simulator = simulate({
+			pathToIdPauseTask: "$.id",
+			barrier: { expectedCount: 2 },
+		});
+		const paused = await simulator.pause({ id: "batch-1" });
+		const event = {
+			id: "event-1",
+			source: "test.source",
+			detail: { jobId: "batch-1" },
+		};
+
+		// WHEN
+		await simulator.sendEvent(event);
+		await simulator.sendEvent(event);
+		const waiting = simulator.execution(paused.executionArn).status;
+		await simulator.sendEvent({ ...event, id: "event-2" });
+
+		// THEN
+		expect(waiting).toBe(SimulatedStatus.WAITING);
+		expect(simulator.execution(paused.executionArn).status).toBe(
+			SimulatedStatus.SUCCEEDED,
+		);
+	});
+
+	test("Ends the events of a released barrier successfully", async () => {
+		// GIVEN
+		const jobs = simulate({
+			pathToIdPauseTask: "$$.Execution.Id",
+			barrier: { pathToJobIds: "$.jobs", quorum: 1 },
+		});
+		const count = simulate({
+			pathToIdPauseTask: "$.id",
+			barrier: { expectedCount: 1 },
+		});
+		await jobs.pause({ jobs: ["job-1", "job-2"] });
+		await count.pause({ id: "batch-1" });
+		await jobs.sendEvent({ source: "test.source", detail: { jobId: "job-1" } });
+		await count.sendEvent({
+			id: "event-1",
+			source: "test.source",
+			detail: { jobId: "batch-1" },
+		});
+
+		// WHEN
+		const [job] = await jobs.sendEvent({
+			source: "test.source",
+			detail: { jobId: "job-2" },
+		});
+		const [event] = await count.sendEvent({
+			id: "event-2",
+			source: "test.source",
+			detail: { jobId: "batch-1" },
+		});
+
+		// THEN
+		expect(job.status).toBe(SimulatedStatus.SUCCEEDED);
+		expect(event.status).toBe(SimulatedStatus.SUCCEEDED);
+		expect(jobs.storedItems()).toEqual([]);
+		expect(count.storedItems()).toEqual([]);
+	});
+
+	test("Fails a counted event without an ID instead of counting it", async () => {
+		// GIVEN
+		const simulator = simulate({
+			pathToIdPauseTask: "$.id",
+			barrier: { expectedCount: 2 },
+		});
+		const paused = await simulator.pause({ id: "batch-1" });
+
+		// WHEN
+		const resume = await simulator.startResume({
+			sfnResumeId: "batch-1",
+			source: "sfnResume.http",
+			"detail-type": "HTTP Callback",
+			detail: { status: "DONE" },
+		});
+
+		// THEN
+		expect(resume.error).toBe("sfnResume.MissingEventId");
+		expect(simulator.execution(paused.executionArn).status).toBe(
+			SimulatedStatus.WAITING,
+		);
+	});
+
+	test("Fails a barrier on the first failed job with a failure condition", async () => {
+		// GIVEN
+		const simulator = simulate({
+			pathToIdPauseTask: "$$.Execution.Id",
+			barrier: { pathToJobIds: "$.jobs" },
+			failureCondition: sfn.Condition.stringEquals("$.detail.status", "FAILED"),
+			failureError: "JobFailed",
+		});
+		const paused = await simulator.pause({ jobs: ["job-1", "job-2"] });
+
+		// WHEN
+		await simulator.sendEvent({
+			source: "test.source",
+			detail: { jobId: "job-2", status: "FAILED" },
+		});
+
+		// THEN
+		expect(simulator.execution(paused.executionArn)).toMatchObject({
+			status: SimulatedStatus.FAILED,
+			error: "JobFailed",
+		});
+		expect(simulator.storedItems()).toEqual([]);
+	});
+
+	test("Rejects a barrier whose job is already waited on", async () => {
+		// GIVEN
+		const simulator = simulate({
+			pathToIdPauseTask: "$$.Execution.Id",
+			barrier: { pathToJobIds: "$.jobs" },
+		});
+		await simulator.pause({ jobs: ["job-1", "job-2"] });
+
+		// WHEN
+		const duplicate = await simulator.pause({ jobs: ["job-2", "job-3"] });
+
+		// THEN
+		expect(duplicate.error).toBe(SfnResume.DUPLICATE_BARRIER_ERROR);
+		expect(simulator.storedItems()).toHaveLength(3);
+	});
+
+	test("Throws without a resume state machine", () => {
+		// GIVEN
+		const app = new cdk.App();
+		const stack = new cdk.Stack(app, "TestStack");
+		const resume = new SfnResume(stack, "TestSfnResume", {
+			...resumeProps,
+			resumeMode: ResumeMode.LAMBDA,
+		});
+
+		// THEN
+		expect(() => new SfnResumeSimulator(resume)).toThrow(
+			"SfnResumeSimulator requires the resume state machine",
+		);
+	});
+});
@@ -3,8 +3,11 @@
 
 import * as cdk from "aws-cdk-lib";
 import { Template, Match } from "aws-cdk-lib/assertions";
-import { sfnResume } from "../lib/sfnResume";
+import { SfnResume } from "../lib/sfnResume";
 import * as events from "aws-cdk-lib/aws-events";
+import * as sfn from "aws-cdk-lib/aws-stepfunctions";
+import * as sqs from "aws-cdk-lib/aws-sqs";
+import { SqsResumeTrigger } from "../lib/triggers";
 
 describe("SfnResume Construct - Step Functions Resources", () => {
 	test("Creates Step Functions state machine with correct configuration", () => {
@@ -13,7 +16,7 @@ describe("SfnResume Construct - Step Functions Resources", () => {
 		const stack = new cdk.Stack(app, "TestStack");
 
 		// WHEN
-		new sfnResume(stack, "TestSfnResume", {
+		new SfnResume(stack, "TestSfnResume", {
 			pathToIdPauseTask: "$.id",
 			pathToIdWorkflow: "$.id",
 			removalPolicy: cdk.RemovalPolicy.DESTROY,
@@ -86,7 +89,7 @@ describe("SfnResume Construct - Step Functions Resources", () => {
 		const stack = new cdk.Stack(app, "TestStack");
 
 		// WHEN
-		const resumeConstruct = new sfnResume(stack, "TestSfnResume", {
+		const resumeConstruct = new SfnResume(stack, "TestSfnResume", {
 			pathToIdPauseTask: "$.id",
 			pathToIdWorkflow: "$.id",
 			removalPolicy: cdk.RemovalPolicy.DESTROY,
@@ -107,4 +110,501 @@ describe("SfnResume Construct - Step Functions Resources", () => {
 		// We don't need to check specific IAM permissions as they're tested elsewhere
 		expect(resumeConstruct.task.id).toContain("updateDbResumeToken");
 	});
+
+	test("Routes failure events to SendTaskFailure when a failure condition is set", () => {
+		// GIVEN
+		const app = new cdk.App();
+		const stack = new cdk.Stack(app, "TestStack");
+
+		// WHEN
+		new SfnResume(stack, "TestSfnResume", {
+			pathToIdPauseTask: "$.id",
+			pathToIdWorkflow: "$.detail.jobId",
+			removalPolicy: cdk.RemovalPolicy.DESTROY,
+			nameSuffix: "test-resume",
+			eventPattern: {
+				source: ["test.source"],
+				detail: {
+					jobStatus: ["COMPLETED", "FAILED"],
+				},
+			} as events.EventPattern,
+			failureCondition: sfn.Condition.stringEquals(
+				"$.detail.jobStatus",
+				"FAILED",
+			),
+			failureError: "TranslateJobFailed",
+			failureCause: "$.detail.message",
+		});
+
+		// THEN
+		const template = Template.fromStack(stack);
+		const definition = JSON.stringify(
+			template.findResources("AWS::StepFunctions::StateMachine"),
+		);
+
+		expect(definition).toContain("isFailure");
+		expect(definition).toContain("sfn:sendTaskFailure");
+		expect(definition).toContain("TranslateJobFailed");
+		expect(definition).toContain("$.detail.message");
+
+		// Verify the resume role may send task failures
+		const resources = template.findResources("AWS::IAM::Policy");
+		const hasSendTaskFailurePermission = Object.values(resources).some(
+			(policy) =>
+				(policy.Properties?.PolicyDocument?.Statement || []).some(
+					(statement: any) =>
+						statement.Action === "states:sendTaskFailure" &&
+						statement.Effect === "Allow",
+				),
+		);
+		expect(hasSendTaskFailurePermission).toBe(true);
+	});
+
+	test("Passes the configured resume output to SendTaskSuccess", () => {
+		// GIVEN
+		const app = new cdk.App();
+		const stack = new cdk.Stack(app, "TestStack");
+
+		// WHEN
+		new SfnResume(stack, "TestSfnResume", {
+			pathToIdPauseTask: "$.id",
+			pathToIdWorkflow: "$.detail.jobId",
+			removalPolicy: cdk.RemovalPolicy.DESTROY,
+			nameSuffix: "test-resume",
+			eventPattern: {
+				source: ["test.source"],
+			} as events.EventPattern,
+			resumeOutput: sfn.TaskInput.fromJsonPathAt("$.detail"),
+		});
+
+		// THEN
+		const template = Template.fromStack(stack);
+		const definition = JSON.stringify(
+			template.findResources("AWS::StepFunctions::StateMachine"),
+		);
+
+		expect(definition).toContain('\\"Output.$\\":\\"$.detail\\"');
+		expect(definition).not.toContain("staus");
+	});
+
+	test("Resumes every waiting execution in fan-out mode", () => {
+		// GIVEN
+		const app = new cdk.App();
+		const stack = new cdk.Stack(app, "TestStack");
+
+		// WHEN
+		const resumeConstruct = new SfnResume(stack, "TestSfnResume", {
+			pathToIdPauseTask: "$.id",
+			pathToIdWorkflow: "$.detail.jobId",
+			removalPolicy: cdk.RemovalPolicy.DESTROY,
+			nameSuffix: "test-resume",
+			eventPattern: {
+				source: ["test.source"],
+			} as events.EventPattern,
+			fanOut: true,
+		});
+
+		// THEN
+		const template = Template.fromStack(stack);
+
+		// Verify the pause task stores the execution ID as sort key
+		const state = stack.resolve(resumeConstruct.task.toStateJson());
+		expect(state.Parameters.Item.executionId).toEqual({
+			"S.$": "$$.Execution.Id",
+		});
+
+		// Verify all tokens of the ID are queried and resumed in a Map, only the resumed marker is read by key
+		const definition = JSON.stringify(
+			template.findResources("AWS::StepFunctions::StateMachine"),
+		);
+		expect(definition).toContain("dynamodb:query");
+		expect(definition).toContain('\\"Type\\":\\"Map\\"');
+		expect(definition).toContain("$.getResumeToken.Item.executionId.S");
+		expect(definition.match(/dynamodb:getItem/g)).toHaveLength(1);
+		expect(definition).toContain("States.Format('#resumed#{}', $.sfnResumeId)");
+	});
+
+	test("Retries the token lookup when the event arrives before the token is stored", () => {
+		// GIVEN
+		const app = new cdk.App();
+		const stack = new cdk.Stack(app, "TestStack");
+
+		// WHEN
+		new SfnResume(stack, "TestSfnResume", {
+			pathToIdPauseTask: "$.id",
+			pathToIdWorkflow: "$.detail.jobId",
+			removalPolicy: cdk.RemovalPolicy.DESTROY,
+			nameSuffix: "test-resume",
+			eventPattern: {
+				source: ["test.source"],
+			} as events.EventPattern,
+			earlyEventWindow: cdk.Duration.seconds(10),
+		});
+
+		// THEN
+		const template = Template.fromStack(stack);
+		const definition = JSON.stringify(
+			template.findResources("AWS::StepFunctions::StateMachine"),
+		);
+
+		// Verify the lookup is consistent and retried with backoff for the window
+		expect(definition).toContain('\\"ConsistentRead\\":true');
+		expect(definition).toContain("hasResumeToken");
+		expect(definition).toContain("States.Array(1, 2, 4, 8)");
+		expect(definition).toContain("sfnResume.TokenNotFound");
+	});
+
+	test("Retries the resume tasks and tolerates closed tokens", () => {
+		// GIVEN
+		const app = new cdk.App();
+		const stack = new cdk.Stack(app, "TestStack");
+
+		// WHEN
+		new SfnResume(stack, "TestSfnResume", {
+			pathToIdPauseTask: "$.id",
+			pathToIdWorkflow: "$.detail.jobId",
+			removalPolicy: cdk.RemovalPolicy.DESTROY,
+			nameSuffix: "test-resume",
+			eventPattern: {
+				source: ["test.source"],
+			} as events.EventPattern,
+			resumeRetry: { maxAttempts: 5 },
+		});
+
+		// THEN
+		const template = Template.fromStack(stack);
+		const resources = template.findResources(
+			"AWS::StepFunctions::StateMachine",
+		);
+		// Tokens are dropped from the definition, which leaves valid JSON
+		const states = JSON.parse(
+			Object.values(resources)[0]
+				.Properties.DefinitionString["Fn::Join"][1].filter(
+					(part: any) => typeof part === "string",
+				)
+				.join(""),
+		).States;
+
+		// Verify closed tokens are not retried but caught, marked as resumed and their entry deleted
+		expect(states.sendTaskSuccess.Retry[0]).toEqual({
+			ErrorEquals: [
+				"Sfn.InvalidTokenException",
+				"Sfn.TaskTimedOutException",
+				"Sfn.TaskDoesNotExistException",
+			],
+			MaxAttempts: 0,
+		});
+		expect(states.sendTaskSuccess.Retry[1].MaxAttempts).toBe(5);
+		expect(states.sendTaskSuccess.Catch[0].Next).toBe("tokenAlreadyClosed");
+		expect(states.tokenAlreadyClosed.Next).toBe("markResumed");
+		expect(states.markResumed.Next).toBe("deleteResumeToken");
+
+		// Verify the DynamoDB tasks use the configured retry policy
+		expect(states.getResumeToken.Retry[0].MaxAttempts).toBe(5);
+		expect(states.markResumed.Retry[0].MaxAttempts).toBe(5);
+		expect(states.deleteResumeToken.Retry[0].MaxAttempts).toBe(5);
+		expect(states.getResumedMarker.Retry[0].MaxAttempts).toBe(5);
+	});
+
+	test("Generates the pause task and resume definition in JSONata", () => {
+		// GIVEN
+		const app = new cdk.App();
+		const stack = new cdk.Stack(app, "TestStack");
+
+		// WHEN
+		const resume = new SfnResume(stack, "TestSfnResume", {
+			pathToIdPauseTask: "$.id",
+			pathToIdWorkflow: "$.detail.jobId",
+			removalPolicy: cdk.RemovalPolicy.DESTROY,
+			nameSuffix: "test-resume",
+			eventPattern: { source: ["test.source"] },
+			queryLanguage: sfn.QueryLanguage.JSONATA,
+			failureCondition: sfn.Condition.jsonata(
+				"{% $states.input.detail.status = 'FAILED' %}",
+			),
+			failureCause: "$.detail.reason",
+		});
+		new sfn.StateMachine(stack, "Caller", {
+			queryLanguage: sfn.QueryLanguage.JSONATA,
+			definitionBody: sfn.DefinitionBody.fromChainable(resume.task),
+		});
+
+		// THEN
+		const resources = Template.fromStack(stack).findResources(
+			"AWS::StepFunctions::StateMachine",
+		);
+		const definitions = Object.values(resources).map((resource) =>
+			JSON.parse(
+				resource.Properties.DefinitionString["Fn::Join"][1]
+					.filter((part: any) => typeof part === "string")
+					.join(""),
+			),
+		);
+		const resumeDefinition = definitions.find(
+			(definition) => definition.StartAt === "hasResumeId",
+		);
+		const callerDefinition = definitions.find(
+			(definition) => definition.StartAt === "putDbResumeToken",
+		);
+
+		// Verify both state machines are JSONata without JSONPath fields
+		expect(resumeDefinition.QueryLanguage).toBe("JSONata");
+		expect(callerDefinition.QueryLanguage).toBe("JSONata");
+		expect(JSON.stringify(definitions)).not.toMatch(
+			/"(ResultPath|Parameters|InputPath|OutputPath)"/,
+		);
+
+		// Verify the pause task stores the token without mixing query languages
+		const pauseTask = callerDefinition.States.putDbResumeToken;
+		expect(pauseTask.QueryLanguage).toBeUndefined();
+		expect(pauseTask.Arguments.Item.id).toEqual({
+			S: "{% $states.input.id %}",
+		});
+		expect(pauseTask.Arguments.Item.token).toEqual({
+			S: "{% $states.context.Task.Token %}",
+		});
+
+		// Verify the resume definition resolves the ID and converts paths of the event
+		const states = resumeDefinition.States;
+		expect(states.resolveResumeId.Output).toBe(
+			'{% $merge([$states.input, {"sfnResumeId": ($id := $states.input.detail.jobId; $exists($id) ? $id : "")}]) %}',
+		);
+		expect(states.isFailure.Choices[0].Condition).toBe(
+			"{% $states.input.detail.status = 'FAILED' %}",
+		);
+		expect(states.sendTaskFailure.Arguments.Cause).toBe(
+			"{% $states.input.detail.reason %}",
+		);
+	});
+
+	test("Creates an EXPRESS resume state machine that logs errors", () => {
+		// GIVEN
+		const app = new cdk.App();
+		const stack = new cdk.Stack(app, "TestStack");
+
+		// WHEN
+		new SfnResume(stack, "TestSfnResume", {
+			pathToIdPauseTask: "$.id",
+			pathToIdWorkflow: "$.id",
+			removalPolicy: cdk.RemovalPolicy.DESTROY,
+			nameSuffix: "test-resume",
+			eventPattern: { source: ["test.source"] },
+			stateMachineType: sfn.StateMachineType.EXPRESS,
+		});
+
+		// THEN
+		Template.fromStack(stack).hasResourceProperties(
+			"AWS::StepFunctions::StateMachine",
+			{
+				StateMachineName: "TestStack_test-resume",
+				StateMachineType: "EXPRESS",
+				LoggingConfiguration: Match.objectLike({ Level: "ERROR" }),
+			},
+		);
+	});
+
+	test("Rejects an earlyEventWindow longer than an EXPRESS execution", () => {
+		// GIVEN
+		const app = new cdk.App();
+		const stack = new cdk.Stack(app, "TestStack");
+
+		// THEN
+		expect(
+			() =>
+				new SfnResume(stack, "TestSfnResume", {
+					pathToIdPauseTask: "$.id",
+					pathToIdWorkflow: "$.id",
+					removalPolicy: cdk.RemovalPolicy.DESTROY,
+					nameSuffix: "test-resume",
+					eventPattern: { source: ["test.source"] },
+					stateMachineType: sfn.StateMachineType.EXPRESS,
+					earlyEventWindow: cdk.Duration.minutes(5),
+				}),
+		).toThrow(/earlyEventWindow cannot be longer than 4 minutes/);
+	});
+
+	test("Sends heartbeats without resuming on progress events", () => {
+		// GIVEN
+		const app = new cdk.App();
+		const stack = new cdk.Stack(app, "TestStack");
+
+		// WHEN
+		const resume = new SfnResume(stack, "TestSfnResume", {
+			pathToIdPauseTask: "$.id",
+			pathToIdWorkflow: "$.detail.jobId",
+			removalPolicy: cdk.RemovalPolicy.DESTROY,
+			nameSuffix: "test-resume",
+			eventPattern: { source: ["test.source"], detail: { status: ["DONE"] } },
+			progressEventPattern: {
+				source: ["test.source"],
+				detail: { status: ["RUNNING"] },
+			},
+			recordProgress: true,
+			heartbeat: cdk.Duration.minutes(5),
+		});
+
+		// THEN
+		const template = Template.fromStack(stack);
+		template.hasResourceProperties("AWS::Events::Rule", {
+			EventPattern: {
+				source: ["test.source"],
+				detail: { status: ["RUNNING"] },
+			},
+			Targets: [
+				Match.objectLike({
+					Arn: stack.resolve(resume.progressStateMachine?.stateMachineArn),
+				}),
+			],
+		});
+		template.hasResourceProperties("AWS::StepFunctions::StateMachine", {
+			StateMachineName: "TestStack_test-resume_progress",
+		});
+
+		const definition = JSON.stringify(
+			stack.resolve(
+				(resume.progressStateMachine?.node.defaultChild as sfn.CfnStateMachine)
+					.definitionString,
+			),
+		);
+		expect(definition).toContain("sfn:sendTaskHeartbeat");
+		expect(definition).toContain("dynamodb:updateItem");
+		expect(definition).not.toContain("sendTaskSuccess");
+		expect(definition).not.toContain("deleteItem");
+		expect((resume.task.toStateJson() as any).HeartbeatSeconds).toBe(300);
+	});
+
+	test("Requires pathToIdWorkflow and a progress pattern for progress events", () => {
+		// GIVEN
+		const app = new cdk.App();
+		const stack = new cdk.Stack(app, "TestStack");
+
+		// THEN
+		expect(
+			() =>
+				new SfnResume(stack, "NoPath", {
+					pathToIdPauseTask: "$.id",
+					removalPolicy: cdk.RemovalPolicy.DESTROY,
+					nameSuffix: "test-resume",
+					triggers: [
+						new SqsResumeTrigger({
+							queue: new sqs.Queue(stack, "Queue"),
+							pathToId: "$.id",
+						}),
+					],
+					progressEventPattern: { source: ["test.source"] },
+				}),
+		).toThrow(/requires pathToIdWorkflow with a progressEventPattern/);
+		expect(
+			() =>
+				new SfnResume(stack, "NoPattern", {
+					pathToIdPauseTask: "$.id",
+					pathToIdWorkflow: "$.detail.jobId",
+					removalPolicy: cdk.RemovalPolicy.DESTROY,
+					nameSuffix: "test-resume",
+					eventPattern: { source: ["test.source"] },
+					recordProgress: true,
+				}),
+		).toThrow("recordProgress requires a progressEventPattern");
+	});
+
+	test("Creates a barrier pause task that stores the token with its jobs", () => {
+		// GIVEN
+		const app = new cdk.App();
+		const stack = new cdk.Stack(app, "TestStack");
+
+		// WHEN
+		const resume = new SfnResume(stack, "TestSfnResume", {
+			pathToIdPauseTask: "$$.Execution.Id",
+			pathToIdWorkflow: "$.detail.jobId",
+			removalPolicy: cdk.RemovalPolicy.DESTROY,
+			nameSuffix: "test-resume",
+			eventPattern: { source: ["test.source"] },
+			barrier: { pathToJobIds: "$.jobs", quorum: 2 },
+		});
+
+		// THEN
+		const task = stack.resolve(resume.task.toStateJson());
+		expect(task.QueryLanguage).toBe("JSONata");
+		expect(JSON.stringify(task.Resource)).toContain(
+			"dynamodb:transactWriteItems.waitForTaskToken",
+		);
+		const items = JSON.stringify(task.Arguments.TransactItems);
+		expect(items).toContain("$states.input.jobs");
+		expect(items).toContain("$min([2, $count($jobs)])");
+
+		const definition = JSON.stringify(
+			stack.resolve(
+				(resume.stateMachine?.node.defaultChild as sfn.CfnStateMachine)
+					.definitionString,
+			),
+		);
+		expect(definition).toContain("ADD #completed :job, #remaining :minusOne");
+		expect(definition).toContain("NOT contains(#completed, :jobId)");
+		expect(definition).toContain("releaseBarrier");
+		expect(definition).toContain("deleteJobs");
+		expect(definition).not.toContain("deleteResumeToken");
+	});
+
+	test("Rejects invalid barriers", () => {
+		// GIVEN
+		const app = new cdk.App();
+		const stack = new cdk.Stack(app, "TestStack");
+		const props = {
+			pathToIdPauseTask: "$.id",
+			pathToIdWorkflow: "$.detail.jobId",
+			removalPolicy: cdk.RemovalPolicy.DESTROY,
+			nameSuffix: "test-resume",
+			eventPattern: { source: ["test.source"] },
+		};
+
+		// THEN
+		expect(
+			() =>
+				new SfnResume(stack, "Both", {
+					...props,
+					barrier: { pathToJobIds: "$.jobs", expectedCount: 2 },
+				}),
+		).toThrow("barrier requires exactly one of pathToJobIds and expectedCount");
+		expect(
+			() =>
+				new SfnResume(stack, "Quorum", {
+					...props,
+					barrier: { expectedCount: 2, quorum: 3 },
+				}),
+		).toThrow("barrier quorum 3 is larger than expectedCount 2");
+		expect(
+			() =>
+				new SfnResume(stack, "Count", {
+					...props,
+					barrier: { expectedCount: 1.5 },
+				}),
+		).toThrow("barrier expectedCount must be a positive integer");
+		expect(
+			() =>
+				new SfnResume(stack, "FanOut", {
+					...props,
+					fanOut: true,
+					barrier: { expectedCount: 2 },
+				}),
+		).toThrow("barrier cannot be combined with fanOut");
+		expect(
+			() =>
+				new SfnResume(stack, "Waits", {
+					...props,
+					operatorApi: true,
+					reaperMaxAge: cdk.Duration.days(1),
+					barrier: { expectedCount: 2 },
+				}),
+		).toThrow(
+			"barrier cannot be combined with operatorApi, reaperMaxAge, which treat the job entries of a barrier as waits",
+		);
+		expect(
+			() =>
+				new SfnResume(stack, "Progress", {
+					...props,
+					progressEventPattern: { source: ["test.progress"] },
+					barrier: { pathToJobIds: "$.jobs" },
+				}),
+		).toThrow("barrier cannot be combined with progressEventPattern");
+	});
 });
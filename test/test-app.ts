@@ -5,7 +5,7 @@
 
 import * as cdk from "aws-cdk-lib";
 import { Construct } from "constructs";
-import { sfnResume } from "../lib/sfnResume";
+import { SfnResume } from "../lib/sfnResume";
 import { AwsSolutionsChecks, NagSuppressions } from "cdk-nag";
 import { Aspects } from "aws-cdk-lib";
 
@@ -14,7 +14,7 @@ class TestStack extends cdk.Stack {
 		super(scope, id, props);
 
 		// Create an instance of the sfnResume construct
-		const resumeConstruct = new sfnResume(this, "TestSfnResume", {
+		const resumeConstruct = new SfnResume(this, "TestSfnResume", {
 			pathToIdPauseTask: "$.id",
 			pathToIdWorkflow: "$.id",
 			removalPolicy: cdk.RemovalPolicy.DESTROY,
@@ -0,0 +1,172 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+
+import * as cdk from "aws-cdk-lib";
+import { Template, Match } from "aws-cdk-lib/assertions";
+import { SfnResume } from "../lib/sfnResume";
+import {
+	EventBridgeResumeTrigger,
+	HttpResumeTrigger,
+	SnsResumeTrigger,
+	SqsResumeTrigger,
+} from "../lib/triggers";
+import * as events from "aws-cdk-lib/aws-events";
+import * as sns from "aws-cdk-lib/aws-sns";
+import * as sqs from "aws-cdk-lib/aws-sqs";
+
+describe("SfnResume Construct - Triggers", () => {
+	test("Resumes from an SQS queue through a pipe", () => {
+		// GIVEN
+		const app = new cdk.App();
+		const stack = new cdk.Stack(app, "TestStack");
+		const queue = new sqs.Queue(stack, "Queue");
+
+		// WHEN
+		new SfnResume(stack, "TestSfnResume", {
+			pathToIdPauseTask: "$.id",
+			removalPolicy: cdk.RemovalPolicy.DESTROY,
+			nameSuffix: "test-resume",
+			triggers: [new SqsResumeTrigger({ queue: queue, pathToId: "$.jobId" })],
+		});
+
+		// THEN
+		const template = Template.fromStack(stack);
+
+		// Verify the pipe wraps the message body in the resume envelope
+		template.hasResourceProperties("AWS::Pipes::Pipe", {
+			SourceParameters: {
+				SqsQueueParameters: { BatchSize: 1 },
+			},
+			TargetParameters: {
+				StepFunctionStateMachineParameters: {
+					InvocationType: "FIRE_AND_FORGET",
+				},
+				InputTemplate: Match.stringLikeRegexp(
+					'"sfnResumeId": "<\\$.body.jobId>", "id": "<\\$.messageId>".*"detail": <\\$.body>',
+				),
+			},
+		});
+
+		// Verify no EventBridge rule is created without an eventPattern
+		template.resourceCountIs("AWS::Events::Rule", 0);
+	});
+
+	test("Resumes from an SNS topic through a subscribed queue", () => {
+		// GIVEN
+		const app = new cdk.App();
+		const stack = new cdk.Stack(app, "TestStack");
+		const topic = new sns.Topic(stack, "Topic");
+
+		// WHEN
+		new SfnResume(stack, "TestSfnResume", {
+			pathToIdPauseTask: "$.id",
+			removalPolicy: cdk.RemovalPolicy.DESTROY,
+			nameSuffix: "test-resume",
+			triggers: [new SnsResumeTrigger({ topic: topic, pathToId: "$.jobId" })],
+		});
+
+		// THEN
+		const template = Template.fromStack(stack);
+
+		template.hasResourceProperties("AWS::SNS::Subscription", {
+			Protocol: "sqs",
+			RawMessageDelivery: true,
+		});
+		template.resourceCountIs("AWS::SQS::Queue", 2);
+		template.resourceCountIs("AWS::Pipes::Pipe", 1);
+	});
+
+	test("Resumes from IAM authorised HTTP callbacks", () => {
+		// GIVEN
+		const app = new cdk.App();
+		const stack = new cdk.Stack(app, "TestStack");
+		const trigger = new HttpResumeTrigger({ pathToId: "$.jobId" });
+
+		// WHEN
+		new SfnResume(stack, "TestSfnResume", {
+			pathToIdPauseTask: "$.id",
+			removalPolicy: cdk.RemovalPolicy.DESTROY,
+			nameSuffix: "test-resume",
+			triggers: [trigger],
+		});
+
+		// THEN
+		const template = Template.fromStack(stack);
+
+		expect(trigger.api).toBeDefined();
+		template.hasResourceProperties("AWS::ApiGateway::Method", {
+			HttpMethod: "POST",
+			AuthorizationType: "AWS_IAM",
+			Integration: {
+				Type: "AWS",
+				Uri: {
+					"Fn::Join": Match.arrayWith([
+						Match.arrayWith([":states:action/StartExecution"]),
+					]),
+				},
+			},
+		});
+
+		const methods = template.findResources("AWS::ApiGateway::Method");
+		const templates = JSON.stringify(methods);
+		expect(templates).toContain("$input.path('$.jobId')");
+		expect(templates).toContain("sfnResume.http");
+	});
+
+	test("Wraps EventBridge events in the envelope when the trigger has an ID path", () => {
+		// GIVEN
+		const app = new cdk.App();
+		const stack = new cdk.Stack(app, "TestStack");
+
+		// WHEN
+		new SfnResume(stack, "TestSfnResume", {
+			pathToIdPauseTask: "$.id",
+			removalPolicy: cdk.RemovalPolicy.DESTROY,
+			nameSuffix: "test-resume",
+			triggers: [
+				new EventBridgeResumeTrigger({
+					eventPattern: {
+						source: ["test.source"],
+						detailType: ["test.event"],
+					} as events.EventPattern,
+					pathToId: "$.detail.jobId",
+				}),
+			],
+		});
+
+		// THEN
+		const template = Template.fromStack(stack);
+
+		template.hasResourceProperties("AWS::Events::Rule", {
+			Targets: [
+				{
+					InputTransformer: {
+						InputPathsMap: Match.objectLike({
+							"detail-jobId": "$.detail.jobId",
+							id: "$.id",
+						}),
+						InputTemplate: Match.stringLikeRegexp(
+							'"sfnResumeId":<detail-jobId>',
+						),
+					},
+				},
+			],
+		});
+	});
+
+	test("Requires an eventPattern or triggers", () => {
+		// GIVEN
+		const app = new cdk.App();
+		const stack = new cdk.Stack(app, "TestStack");
+
+		// THEN
+		expect(
+			() =>
+				new SfnResume(stack, "TestSfnResume", {
+					pathToIdPauseTask: "$.id",
+					removalPolicy: cdk.RemovalPolicy.DESTROY,
+					nameSuffix: "test-resume",
+				}),
+		).toThrow(/eventPattern or at least one trigger/);
+	});
+});
@@ -0,0 +1,113 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+
+import * as cdk from "aws-cdk-lib";
+import { Annotations, Match } from "aws-cdk-lib/assertions";
+import { SfnResume, SfnResumeProps } from "../lib/sfnResume";
+import { ResumePath } from "../lib/resumePath";
+import * as sfn from "aws-cdk-lib/aws-stepfunctions";
+
+describe("SfnResume Construct - Props Validation", () => {
+	const resumeProps: SfnResumeProps = {
+		pathToIdPauseTask: "$.id",
+		pathToIdWorkflow: "$.detail.jobId",
+		removalPolicy: cdk.RemovalPolicy.DESTROY,
+		nameSuffix: "test-resume",
+		eventPattern: { source: ["test.source"] },
+	};
+
+	test("Accepts sfn.JsonPath expressions and typed paths", () => {
+		// GIVEN
+		const app = new cdk.App();
+		const stack = new cdk.Stack(app, "TestStack");
+
+		// WHEN
+		const resume = new SfnResume(stack, "TestSfnResume", {
+			...resumeProps,
+			pathToIdPauseTask: [
+				sfn.JsonPath.stringAt("$.tenant"),
+				ResumePath.field("job", "id"),
+			],
+			pathToIdWorkflow: [
+				ResumePath.detail("tenant"),
+				ResumePath.fromJsonPath("$.detail['job-id']"),
+			],
+		});
+
+		// THEN
+		const item = (resume.task.toStateJson() as any).Parameters.Item;
+		expect(item.id).toEqual({
+			"S.$": "States.Format('{}#{}', $.tenant, $.job.id)",
+		});
+		Annotations.fromStack(stack).hasNoWarning(
+			"*",
+			Match.stringLikeRegexp("does not point into the event detail"),
+		);
+	});
+
+	test("Throws on unsupported paths, invalid names and empty event patterns", () => {
+		// GIVEN
+		const app = new cdk.App();
+		const stack = new cdk.Stack(app, "TestStack");
+
+		// THEN
+		expect(
+			() =>
+				new SfnResume(stack, "BadPath", {
+					...resumeProps,
+					pathToIdPauseTask: "id",
+				}),
+		).toThrow(
+			/Invalid pathToIdPauseTask: Expected a JSON path starting with "\$"/,
+		);
+		expect(
+			() =>
+				new SfnResume(stack, "FilterPath", {
+					...resumeProps,
+					pathToIdWorkflow: "$.detail.jobs[?(@.done)]",
+				}),
+		).toThrow(/Invalid pathToIdWorkflow: Unsupported JSON path/);
+		expect(
+			() =>
+				new SfnResume(stack, "BadCharacters", {
+					...resumeProps,
+					nameSuffix: "test resume",
+				}),
+		).toThrow(/may only contain letters, digits, "-" and "_"/);
+		expect(
+			() =>
+				new SfnResume(stack, "LongName", {
+					...resumeProps,
+					nameSuffix: "a".repeat(64),
+					reaperMaxAge: cdk.Duration.days(7),
+				}),
+		).toThrow(
+			/reaper state machine name "TestStack_a+_reaper" is longer than 80 characters/,
+		);
+		expect(
+			() =>
+				new SfnResume(stack, "EmptyPattern", {
+					...resumeProps,
+					eventPattern: { detail: {} },
+				}),
+		).toThrow(/eventPattern must match at least one field/);
+	});
+
+	test("Warns when pathToIdWorkflow does not point into the event detail", () => {
+		// GIVEN
+		const app = new cdk.App();
+		const stack = new cdk.Stack(app, "TestStack");
+
+		// WHEN
+		new SfnResume(stack, "TestSfnResume", {
+			...resumeProps,
+			pathToIdWorkflow: "$.jobId",
+		});
+
+		// THEN
+		Annotations.fromStack(stack).hasWarning(
+			"/TestStack/TestSfnResume",
+			Match.stringLikeRegexp("\\$.jobId does not point into the event detail"),
+		);
+	});
+});